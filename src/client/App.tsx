@@ -1,21 +1,232 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import URLInput from './components/URLInput';
 import VideoPreview from './components/VideoPreview';
 import DownloadProgress from './components/DownloadProgress';
-import { VideoDetails, DownloadStatus } from '../shared/types';
+import FormatSelector from './components/FormatSelector';
+import PlaylistPreview from './components/PlaylistPreview';
+import BatchProgress from './components/BatchProgress';
+import CaptionSelector from './components/CaptionSelector';
+import History from './components/History';
+import {
+    VideoDetails,
+    VideoFormat,
+    DownloadOptions,
+    DownloadStatus,
+    DownloadProgress as DownloadProgressData,
+    DownloadProgressEvent,
+    PlaylistDetails,
+    BatchSummary,
+    CaptionTrack,
+    DownloaderErrorCode,
+    DownloadJob,
+    HistoryEntry
+} from '../shared/types';
+import { formatTimestamp } from '../shared/time';
+import { parseYouTubeUrl } from '../shared/youtubeUrl';
+import { isCollectionUrl } from '../shared/playlist';
+import { ClipSelection, getClipError } from './utils/clip';
+import { getMaxDurationError, LiveSelection } from './utils/live';
+import { useSettings } from './hooks/useSettings';
+import { isExtensionContext } from '../extension/settings';
 
 const App: React.FC = () => {
+    const [view, setView] = useState<'download' | 'history'>('download');
     const [videoDetails, setVideoDetails] = useState<VideoDetails | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [videoUrl, setVideoUrl] = useState<string>('');
+    const [formats, setFormats] = useState<VideoFormat[]>([]);
+    const [isLoadingFormats, setIsLoadingFormats] = useState<boolean>(false);
+    const [clip, setClip] = useState<ClipSelection>({ startTime: '', endTime: '' });
+    const [live, setLive] = useState<LiveSelection>({ fromStart: false, maxDuration: '' });
+    // Set while the download is a live recording, which runs as a server job
+    const [recordingJobId, setRecordingJobId] = useState<string | null>(null);
+    const [captionTracks, setCaptionTracks] = useState<CaptionTrack[]>([]);
+    const [subtitles, setSubtitles] = useState<string[]>([]);
     const [downloadStatus, setDownloadStatus] = useState<DownloadStatus>('idle');
-    const [downloadProgress, setDownloadProgress] = useState<number>(0);
+    const [downloadProgress, setDownloadProgress] = useState<DownloadProgressData | null>(null);
+    const [downloadError, setDownloadError] = useState<string | undefined>(undefined);
+    const [downloadErrorCode, setDownloadErrorCode] = useState<DownloaderErrorCode | undefined>(undefined);
+    const [playlist, setPlaylist] = useState<PlaylistDetails | null>(null);
+    const [batch, setBatch] = useState<BatchSummary | null>(null);
+    // Earlier completed downloads of the loaded video, shown as a warning before downloading it again
+    const [previousDownloads, setPreviousDownloads] = useState<HistoryEntry[]>([]);
+    const progressSource = useRef<EventSource | null>(null);
+    const { settings } = useSettings();
+
+    // Inside the extension requests go to the configured server, the dev server proxies /api itself
+    const apiBase = isExtensionContext() ? settings.serverUrl : '';
+
+    // Options the user picked win over the defaults from the options page
+    const withDefaults = (options: DownloadOptions): DownloadOptions => ({
+        quality: settings.quality,
+        container: settings.container,
+        audioFormat: settings.audioFormat,
+        ...options
+    });
+
+    useEffect(() => () => progressSource.current?.close(), []);
+
+    const batchId = batch?.batch.id;
+    const batchFinished = batch ? batch.finished === batch.total : true;
+
+    // Poll the batch summary until every item has reached a terminal state
+    useEffect(() => {
+        if (!batchId || batchFinished) return;
+
+        const interval = setInterval(async () => {
+            try {
+                const response = await fetch(`${apiBase}/api/batches/${batchId}`);
+                if (response.ok) setBatch(await response.json());
+            } catch (err) {
+                console.error('Error polling batch:', err);
+            }
+        }, 1000);
+
+        return () => clearInterval(interval);
+    }, [apiBase, batchId, batchFinished]);
+
+    const loadPlaylist = async (url: string) => {
+        setIsLoading(true);
+
+        try {
+            const response = await fetch(`${apiBase}/api/playlists/info`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ url })
+            });
+
+            if (!response.ok) throw new Error('Failed to fetch playlist');
+
+            setPlaylist(await response.json());
+        } catch (err) {
+            console.error('Error fetching playlist:', err);
+            setPlaylist(null);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const startBatch = async (url: string, selection: string, options: DownloadOptions) => {
+        try {
+            const response = await fetch(`${apiBase}/api/batches`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ url, selection, ...withDefaults(options) })
+            });
+
+            if (!response.ok) throw new Error('Failed to start playlist download');
+
+            setBatch(await response.json());
+        } catch (err) {
+            console.error('Error starting batch:', err);
+        }
+    };
+
+    const startChapterSplit = async (url: string, options: DownloadOptions) => {
+        try {
+            const response = await fetch(`${apiBase}/api/batches/chapters`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ url, ...withDefaults(options) })
+            });
+
+            if (!response.ok) throw new Error('Failed to start chapter download');
+
+            setBatch(await response.json());
+        } catch (err) {
+            console.error('Error starting chapter split:', err);
+        }
+    };
+
+    const cancelBatch = async () => {
+        if (!batchId) return;
+
+        try {
+            const response = await fetch(`${apiBase}/api/batches/${batchId}/cancel`, { method: 'POST' });
+            if (response.ok) setBatch(await response.json());
+        } catch (err) {
+            console.error('Error cancelling batch:', err);
+        }
+    };
+
+    const loadFormats = async (url: string) => {
+        setIsLoadingFormats(true);
+
+        try {
+            const response = await fetch(`${apiBase}/api/formats`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ url })
+            });
+
+            if (!response.ok) throw new Error('Failed to fetch formats');
+
+            setFormats(await response.json());
+        } catch (err) {
+            console.error('Error fetching formats:', err);
+            setFormats([]);
+        } finally {
+            setIsLoadingFormats(false);
+        }
+    };
+
+    const loadCaptions = async (url: string) => {
+        try {
+            const response = await fetch(`${apiBase}/api/captions`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ url })
+            });
+
+            if (!response.ok) throw new Error('Failed to fetch captions');
+
+            setCaptionTracks(await response.json());
+        } catch (err) {
+            console.error('Error fetching captions:', err);
+            setCaptionTracks([]);
+        }
+    };
+
+    const loadPreviousDownloads = async (videoId: string) => {
+        try {
+            const params = new URLSearchParams({ videoId, status: 'completed' });
+            const response = await fetch(`${apiBase}/api/history?${params}`);
+
+            if (!response.ok) throw new Error('Failed to fetch history');
+
+            setPreviousDownloads(await response.json());
+        } catch (err) {
+            console.error('Error fetching history:', err);
+            setPreviousDownloads([]);
+        }
+    };
 
     const handleURLSubmit = async (url: string) => {
+        setVideoUrl(url);
+        setFormats([]);
+        setCaptionTracks([]);
+        setSubtitles([]);
+        setPreviousDownloads([]);
+        setDownloadStatus('idle');
+        setRecordingJobId(null);
+        setLive({ fromStart: false, maxDuration: '' });
+        setPlaylist(null);
+        setBatch(null);
+
+        if (isCollectionUrl(url)) {
+            setVideoDetails(null);
+            await loadPlaylist(url);
+            return;
+        }
+
         setIsLoading(true);
 
+        const startFromUrl = parseYouTubeUrl(url)?.startTime;
+        setClip({ startTime: startFromUrl ? formatTimestamp(startFromUrl) : '', endTime: '' });
+
         try {
             // Updated API endpoint path
-            const response = await fetch('/api/video-info', {
+            const response = await fetch(`${apiBase}/api/video-info`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ url })
@@ -25,7 +236,9 @@ const App: React.FC = () => {
 
             const data = await response.json();
             setVideoDetails(data);
-            startDownload();
+            loadFormats(url);
+            loadCaptions(url);
+            loadPreviousDownloads(data.videoId);
         } catch (err) {
             console.error('Error fetching video info:', err);
             setVideoDetails(null);
@@ -34,43 +247,227 @@ const App: React.FC = () => {
         }
     };
 
-    const startDownload = () => {
-        setDownloadStatus('downloading');
-        setDownloadProgress(0);
-
-        const interval = setInterval(() => {
-            setDownloadProgress(prev => {
-                if (prev >= 100) {
-                    clearInterval(interval);
-                    setDownloadStatus('completed');
-                    return 100;
-                }
-                return prev + 10;
+    const followProgress = (downloadId: string) => {
+        const source = new EventSource(`${apiBase}/api/progress/${downloadId}`);
+        progressSource.current = source;
+
+        source.onmessage = (message) => {
+            const event: DownloadProgressEvent = JSON.parse(message.data);
+            setDownloadStatus(event.status);
+            if (event.progress) setDownloadProgress(event.progress);
+            if (event.status === 'failed') {
+                setDownloadError(event.error);
+                setDownloadErrorCode(event.errorCode);
+            }
+            if (['completed', 'failed', 'cancelled'].includes(event.status)) source.close();
+        };
+
+        source.onerror = () => {
+            // EventSource reconnects on its own; only give up once the server closed the stream for good
+            if (source.readyState === EventSource.CLOSED) {
+                setDownloadStatus(prev => (['completed', 'failed', 'cancelled'].includes(prev) ? prev : 'failed'));
+                setDownloadError(prev => prev ?? 'Lost connection to the progress stream');
+            }
+        };
+    };
+
+    const resetDownload = (status: DownloadStatus) => {
+        progressSource.current?.close();
+        setDownloadStatus(status);
+        setDownloadProgress(null);
+        setDownloadError(undefined);
+        setDownloadErrorCode(undefined);
+    };
+
+    const startDownload = (url: string, options: DownloadOptions) => {
+        resetDownload('downloading');
+        setRecordingJobId(null);
+
+        // Subscribe before the download starts so no progress events are missed
+        const downloadId = crypto.randomUUID();
+        followProgress(downloadId);
+
+        // Let the browser handle the file itself, the server replies with Content-Disposition: attachment
+        const params = new URLSearchParams({ url, downloadId });
+        Object.entries(withDefaults({ fileNameTemplate: settings.fileNameTemplate, ...options })).forEach(([key, value]) => {
+            if (Array.isArray(value)) {
+                value.forEach(item => params.append(key, String(item)));
+            } else if (value !== undefined) {
+                params.set(key, String(value));
+            }
+        });
+        const link = document.createElement('a');
+        link.href = `${apiBase}/api/download?${params}`;
+        link.rel = 'noopener';
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+    };
+
+    // Live streams are recorded by a server job, so the recording can be stopped and fetched afterwards
+    const startRecording = async (url: string, options: DownloadOptions) => {
+        resetDownload('queued');
+
+        try {
+            const response = await fetch(`${apiBase}/api/jobs`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    url,
+                    ...withDefaults({ fileNameTemplate: settings.fileNameTemplate, ...options }),
+                    liveFromStart: live.fromStart,
+                    maxDuration: live.maxDuration || undefined
+                })
             });
-        }, 1000);
+
+            if (!response.ok) throw new Error('Failed to start recording');
+
+            const job: DownloadJob = await response.json();
+            setRecordingJobId(job.id);
+            followProgress(job.id);
+        } catch (err) {
+            console.error('Error starting recording:', err);
+            setDownloadStatus('failed');
+            setDownloadError('Could not start the recording');
+        }
+    };
+
+    const stopRecording = async () => {
+        if (!recordingJobId) return;
+
+        try {
+            await fetch(`${apiBase}/api/jobs/${recordingJobId}/stop`, { method: 'POST' });
+        } catch (err) {
+            console.error('Error stopping recording:', err);
+        }
+    };
+
+    // Brings the entry's video back into the download view and downloads it with the options it had
+    const redownload = (entry: HistoryEntry) => {
+        setView('download');
+        setVideoUrl(entry.url);
+        setVideoDetails(entry.details);
+        setPlaylist(null);
+        setBatch(null);
+        setPreviousDownloads([]);
+        setCaptionTracks([]);
+        setSubtitles(entry.options.subtitles ?? []);
+        setClip({ startTime: '', endTime: '' });
+        loadFormats(entry.url);
+        loadCaptions(entry.url);
+        startDownload(entry.url, entry.options);
     };
 
+    const latestDownload = previousDownloads[0];
+
     return (
         <div className="container mx-auto px-4 py-8 max-w-2xl">
             <h1 className="text-2xl font-bold mb-8 text-center">
                 YouTube Video Downloader
             </h1>
 
-            <URLInput onURLSubmit={handleURLSubmit} />
+            <div className="flex justify-center gap-2 mb-4">
+                {(['download', 'history'] as const).map(name => (
+                    <button
+                        key={name}
+                        type="button"
+                        onClick={() => setView(name)}
+                        className={`px-4 py-1 rounded transition-colors ${view === name ? 'bg-blue-500 text-white' : 'border hover:bg-gray-100'}`}
+                    >
+                        {name === 'download' ? 'Download' : 'History'}
+                    </button>
+                ))}
+            </div>
+
+            {view === 'history' && (
+                <History onRedownload={redownload} apiBase={apiBase} />
+            )}
 
-            <VideoPreview
-                videoDetails={videoDetails}
-                isLoading={isLoading}
-            />
+            {/* Hidden rather than unmounted, so the URL and the running download survive a look at the history */}
+            <div className={view === 'history' ? 'hidden' : undefined}>
+                <URLInput onURLSubmit={handleURLSubmit} />
 
-            {downloadStatus !== 'idle' && (
-                <DownloadProgress
-                    progress={downloadProgress}
-                    status={downloadStatus}
+                {isCollectionUrl(videoUrl) && (
+                    <PlaylistPreview
+                        key={playlist?.id ?? 'loading'}
+                        playlist={playlist}
+                        isLoading={isLoading}
+                        disabled={Boolean(batch) && !batchFinished}
+                        onDownload={(selection, options) => startBatch(videoUrl, selection, options)}
+                    />
+                )}
+
+                {batch && (
+                    <BatchProgress summary={batch} onCancel={cancelBatch} apiBase={apiBase} />
+                )}
+
+                <VideoPreview
+                    videoDetails={videoDetails}
+                    isLoading={isLoading && !isCollectionUrl(videoUrl)}
+                    clip={clip}
+                    onClipChange={setClip}
+                    live={live}
+                    onLiveChange={setLive}
                 />
-            )}
+
+                {videoDetails && (
+                    <CaptionSelector
+                        url={videoUrl}
+                        tracks={captionTracks}
+                        selected={subtitles}
+                        onChange={setSubtitles}
+                        apiBase={apiBase}
+                    />
+                )}
+
+                {videoDetails && latestDownload && (
+                    <div className="max-w-xl mx-auto mt-4 p-3 border border-yellow-400 bg-yellow-50 rounded text-sm">
+                        Already downloaded {previousDownloads.length > 1 ? `${previousDownloads.length} times, last` : ''} on{' '}
+                        {new Date(latestDownload.createdAt).toLocaleString()}
+                        {latestDownload.fileName ? ` as ${latestDownload.fileName}` : ''}.
+                    </div>
+                )}
+
+                {videoDetails && (
+                    <FormatSelector
+                        key={videoUrl}
+                        formats={formats}
+                        isLoading={isLoadingFormats}
+                        disabled={
+                            ['queued', 'downloading', 'recording', 'processing', 'muxing'].includes(downloadStatus) ||
+                            Boolean(getClipError(clip, Number(videoDetails.duration) || 0)) ||
+                            Boolean(videoDetails.isLive && getMaxDurationError(live.maxDuration))
+                        }
+                        onDownload={(options) => videoDetails.isLive
+                            ? startRecording(videoUrl, options)
+                            : startDownload(videoUrl, {
+                                ...options,
+                                startTime: clip.startTime || undefined,
+                                endTime: clip.endTime || undefined,
+                                subtitles: options.filter === 'audioonly' || subtitles.length === 0 ? undefined : subtitles
+                            })}
+                        onSplitByChapter={videoDetails.chapters?.length
+                            ? (options) => startChapterSplit(videoUrl, {
+                                ...options,
+                                subtitles: options.filter === 'audioonly' || subtitles.length === 0 ? undefined : subtitles
+                            })
+                            : undefined}
+                    />
+                )}
+
+                {downloadStatus !== 'idle' && (
+                    <DownloadProgress
+                        progress={downloadProgress}
+                        status={downloadStatus}
+                        errorMessage={downloadError}
+                        errorCode={downloadErrorCode}
+                        onStop={recordingJobId ? stopRecording : undefined}
+                        fileUrl={recordingJobId ? `${apiBase}/api/jobs/${recordingJobId}/file` : undefined}
+                    />
+                )}
+            </div>
         </div>
     );
 };
 
-export default App;
\ No newline at end of file
+export default App;
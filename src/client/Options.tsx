@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { AudioFormat, Container, ExtensionSettings } from '../shared/types';
+import { MAX_CONCURRENT_DOWNLOADS_LIMIT } from '../shared/settings';
+import { FILENAME_PLACEHOLDERS, fileNameTemplateError } from '../shared/fileName';
+import { requestServerAccess, saveSettings } from '../extension/settings';
+import { useSettings } from './hooks/useSettings';
+
+type SaveState = 'idle' | 'saving' | 'saved' | 'failed' | 'denied';
+type ConnectionState = 'idle' | 'checking' | 'ok' | 'failed';
+
+const CONTAINERS: Container[] = ['mkv', 'mp4', 'webm'];
+const AUDIO_FORMATS: AudioFormat[] = ['mp3', 'm4a', 'opus'];
+
+const Options: React.FC = () => {
+    const { settings, isLoaded } = useSettings();
+    const [draft, setDraft] = useState<ExtensionSettings>(settings);
+    const [saveState, setSaveState] = useState<SaveState>('idle');
+    const [connection, setConnection] = useState<ConnectionState>('idle');
+
+    // Start editing from the stored settings once they have loaded
+    useEffect(() => {
+        setDraft(settings);
+    }, [settings]);
+
+    const update = <K extends keyof ExtensionSettings>(key: K, value: ExtensionSettings[K]) => {
+        setDraft(prev => ({ ...prev, [key]: value }));
+        setSaveState('idle');
+    };
+
+    // Saving it anyway would make the server refuse every download
+    const templateError = fileNameTemplateError(draft.fileNameTemplate);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (templateError) return;
+        setSaveState('saving');
+
+        try {
+            if (!(await requestServerAccess(draft.serverUrl))) {
+                setSaveState('denied');
+                return;
+            }
+            setDraft(await saveSettings(draft));
+            setSaveState('saved');
+        } catch (err) {
+            console.error('Error saving settings:', err);
+            setSaveState('failed');
+        }
+    };
+
+    const checkConnection = async () => {
+        setConnection('checking');
+
+        try {
+            const response = await fetch(`${draft.serverUrl.replace(/\/+$/, '')}/health`);
+            setConnection(response.ok ? 'ok' : 'failed');
+        } catch {
+            setConnection('failed');
+        }
+    };
+
+    if (!isLoaded) {
+        return <div className="text-center p-4">Loading settings...</div>;
+    }
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-xl">
+            <h1 className="text-2xl font-bold mb-8 text-center">
+                Downloader Options
+            </h1>
+
+            <form onSubmit={handleSave} className="space-y-6">
+                <div>
+                    <label htmlFor="server-url" className="block text-sm font-medium mb-2">
+                        Server URL
+                    </label>
+                    <div className="flex gap-2">
+                        <input
+                            id="server-url"
+                            type="url"
+                            required
+                            value={draft.serverUrl}
+                            onChange={(e) => {
+                                update('serverUrl', e.target.value);
+                                setConnection('idle');
+                            }}
+                            placeholder="http://localhost:3000"
+                            className="flex-1 p-2 border rounded"
+                        />
+                        <button
+                            type="button"
+                            onClick={checkConnection}
+                            disabled={connection === 'checking'}
+                            className="border px-3 rounded hover:bg-gray-100 transition-colors disabled:opacity-50"
+                        >
+                            Test
+                        </button>
+                    </div>
+                    {connection === 'ok' && <p className="text-green-600 text-sm mt-1">Server is reachable</p>}
+                    {connection === 'failed' && <p className="text-red-500 text-sm mt-1">Could not reach the server</p>}
+                </div>
+
+                <div className="flex gap-4">
+                    <label className="flex-1 text-sm">
+                        <span className="block font-medium mb-2">Quality</span>
+                        <select
+                            value={draft.quality}
+                            onChange={(e) => update('quality', e.target.value as ExtensionSettings['quality'])}
+                            className="w-full p-2 border rounded"
+                        >
+                            <option value="highest">Highest</option>
+                            <option value="lowest">Lowest</option>
+                        </select>
+                    </label>
+                    <label className="flex-1 text-sm">
+                        <span className="block font-medium mb-2">Container</span>
+                        <select
+                            value={draft.container}
+                            onChange={(e) => update('container', e.target.value as Container)}
+                            className="w-full p-2 border rounded"
+                        >
+                            {CONTAINERS.map(container => (
+                                <option key={container} value={container}>{container}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex-1 text-sm">
+                        <span className="block font-medium mb-2">Audio format</span>
+                        <select
+                            value={draft.audioFormat}
+                            onChange={(e) => update('audioFormat', e.target.value as AudioFormat)}
+                            className="w-full p-2 border rounded"
+                        >
+                            {AUDIO_FORMATS.map(format => (
+                                <option key={format} value={format}>{format}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+
+                <div>
+                    <label htmlFor="filename-template" className="block text-sm font-medium mb-2">
+                        Filename template
+                    </label>
+                    <input
+                        id="filename-template"
+                        type="text"
+                        required
+                        value={draft.fileNameTemplate}
+                        onChange={(e) => update('fileNameTemplate', e.target.value)}
+                        className={`w-full p-2 border rounded ${templateError ? 'border-red-500' : ''}`}
+                    />
+                    {templateError && <p className="text-red-500 text-sm mt-1">{templateError}</p>}
+                    <p className="text-gray-500 text-sm mt-1">
+                        Placeholders: {FILENAME_PLACEHOLDERS.map(key => `{${key}}`).join(', ')}
+                    </p>
+                </div>
+
+                <div>
+                    <label htmlFor="max-concurrent" className="block text-sm font-medium mb-2">
+                        Simultaneous downloads
+                    </label>
+                    <input
+                        id="max-concurrent"
+                        type="number"
+                        min={1}
+                        max={MAX_CONCURRENT_DOWNLOADS_LIMIT}
+                        value={draft.maxConcurrentDownloads}
+                        onChange={(e) => update('maxConcurrentDownloads', Number(e.target.value))}
+                        className="w-24 p-2 border rounded"
+                    />
+                </div>
+
+                <fieldset className="space-y-2">
+                    <legend className="text-sm font-medium mb-2">Notifications</legend>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            type="checkbox"
+                            checked={draft.notifyOnComplete}
+                            onChange={(e) => update('notifyOnComplete', e.target.checked)}
+                        />
+                        When a download completes
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            type="checkbox"
+                            checked={draft.notifyOnFailure}
+                            onChange={(e) => update('notifyOnFailure', e.target.checked)}
+                        />
+                        When a download fails
+                    </label>
+                </fieldset>
+
+                <button
+                    type="submit"
+                    disabled={saveState === 'saving' || Boolean(templateError)}
+                    className="w-full bg-blue-500 text-white p-2 rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+                >
+                    {saveState === 'saving' ? 'Saving...' : 'Save'}
+                </button>
+                {saveState === 'saved' && <p className="text-green-600 text-sm text-center">Settings saved</p>}
+                {saveState === 'failed' && <p className="text-red-500 text-sm text-center">Settings could not be saved</p>}
+                {saveState === 'denied' && (
+                    <p className="text-red-500 text-sm text-center">Settings not saved, the extension needs access to the server</p>
+                )}
+            </form>
+        </div>
+    );
+};
+
+export default Options;
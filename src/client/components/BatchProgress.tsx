@@ -0,0 +1,86 @@
+import React from 'react';
+import { BatchSummary, DownloadStatus } from '../../shared/types';
+import ProgressBar from './ProgressBar';
+import { getErrorAdvice } from '../utils/errors';
+
+interface BatchProgressProps {
+    summary: BatchSummary;
+    onCancel: () => void;
+    // Server origin when running inside the extension, empty for same-origin requests
+    apiBase?: string;
+}
+
+const STATUS_LABELS: Record<DownloadStatus, string> = {
+    idle: 'Idle',
+    queued: 'Queued',
+    downloading: 'Downloading',
+    recording: 'Recording',
+    processing: 'Processing',
+    muxing: 'Combining',
+    completed: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled'
+};
+
+const STATUS_COLORS: Partial<Record<DownloadStatus, string>> = {
+    completed: 'bg-green-600',
+    failed: 'bg-red-600',
+    cancelled: 'bg-gray-400'
+};
+
+const BatchProgress: React.FC<BatchProgressProps> = ({ summary, onCancel, apiBase = '' }) => {
+    const { batch, jobs, counts, total, finished, percentage } = summary;
+    const isFinished = finished === total;
+
+    return (
+        <div className="w-full max-w-2xl mx-auto mt-4 p-4 border rounded-lg shadow-sm space-y-4">
+            <div className="flex justify-between items-center">
+                <span className="font-medium">
+                    {finished} of {total} finished
+                    {counts.failed ? ` · ${counts.failed} failed` : ''}
+                    {counts.cancelled ? ` · ${counts.cancelled} cancelled` : ''}
+                </span>
+                <span className="text-sm text-gray-500">{Math.round(percentage)}%</span>
+            </div>
+
+            <ProgressBar value={percentage} className={isFinished ? 'bg-green-600' : 'bg-blue-600'} />
+
+            <ul className="max-h-64 overflow-y-auto space-y-2">
+                {jobs.map(job => (
+                    <li key={job.id} className="text-sm space-y-1">
+                        <div className="flex justify-between gap-2">
+                            <span className="truncate">{job.playlistIndex}. {job.title ?? job.url}</span>
+                            <span className="text-gray-500" title={[getErrorAdvice(job.errorCode), job.error].filter(Boolean).join('\n') || undefined}>{STATUS_LABELS[job.status]}</span>
+                        </div>
+                        <ProgressBar
+                            value={job.status === 'completed' ? 100 : Math.min(job.progress?.percentage ?? 0, 100) || 0}
+                            className={STATUS_COLORS[job.status]}
+                        />
+                    </li>
+                ))}
+            </ul>
+
+            <div className="flex gap-2">
+                {!isFinished && (
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="flex-1 border p-2 rounded hover:bg-gray-100 transition-colors"
+                    >
+                        Cancel remaining
+                    </button>
+                )}
+                {(counts.completed ?? 0) > 0 && (
+                    <a
+                        href={`${apiBase}/api/batches/${batch.id}/archive`}
+                        className="flex-1 text-center bg-blue-500 text-white p-2 rounded hover:bg-blue-600 transition-colors"
+                    >
+                        Download zip ({counts.completed})
+                    </a>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default BatchProgress;
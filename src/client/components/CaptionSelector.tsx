@@ -0,0 +1,71 @@
+import React from 'react';
+import { CaptionTrack, SubtitleFormat } from '../../shared/types';
+
+interface CaptionSelectorProps {
+    url: string;
+    tracks: CaptionTrack[];
+    selected: string[];
+    onChange: (languageCodes: string[]) => void;
+    // Server origin when running inside the extension, empty for same-origin requests
+    apiBase?: string;
+}
+
+const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt'];
+
+const captionDownloadUrl = (apiBase: string, url: string, track: CaptionTrack, format: SubtitleFormat) => {
+    const params = new URLSearchParams({
+        url,
+        lang: track.languageCode,
+        format,
+        auto: String(track.isAutoGenerated)
+    });
+    return `${apiBase}/api/captions/download?${params}`;
+};
+
+const CaptionSelector: React.FC<CaptionSelectorProps> = ({ url, tracks, selected, onChange, apiBase = '' }) => {
+    if (tracks.length === 0) {
+        return null;
+    }
+
+    const toggle = (languageCode: string) => {
+        onChange(selected.includes(languageCode)
+            ? selected.filter(code => code !== languageCode)
+            : [...selected, languageCode]);
+    };
+
+    return (
+        <div className="max-w-xl mx-auto mt-4 p-4 border rounded-lg shadow-sm space-y-2">
+            <h3 className="text-sm font-medium">Subtitles</h3>
+            <ul className="max-h-48 overflow-y-auto divide-y">
+                {tracks.map(track => (
+                    <li
+                        key={`${track.languageCode}-${track.isAutoGenerated}`}
+                        className="flex items-center gap-3 py-2 text-sm"
+                    >
+                        <label className="flex flex-1 items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={selected.includes(track.languageCode)}
+                                onChange={() => toggle(track.languageCode)}
+                            />
+                            {track.name}
+                            {track.isAutoGenerated && <span className="text-gray-500">(auto-generated)</span>}
+                        </label>
+                        {SUBTITLE_FORMATS.map(format => (
+                            <a
+                                key={format}
+                                href={captionDownloadUrl(apiBase, url, track, format)}
+                                className="text-blue-600 hover:underline uppercase"
+                            >
+                                {format}
+                            </a>
+                        ))}
+                    </li>
+                ))}
+            </ul>
+            <p className="text-xs text-gray-500">Checked languages are embedded as soft subtitles in the video.</p>
+        </div>
+    );
+};
+
+export default CaptionSelector;
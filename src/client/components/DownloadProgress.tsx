@@ -1,40 +1,77 @@
 import React from 'react';
+import { DownloadProgress as DownloadProgressData, DownloaderErrorCode, DownloadStatus, ProgressPhase, StreamProgress } from '../../shared/types';
+import { formatTimestamp } from '../../shared/time';
+import { formatBytes } from '../utils/format';
+import { getErrorAdvice } from '../utils/errors';
+import ProgressBar from './ProgressBar';
 
-interface ProgressBarProps {
-    value: number;
-    className?: string;
-}
+const PHASE_LABELS: Record<ProgressPhase, string> = {
+    'resolving': 'Looking up formats',
+    'downloading-video': 'Downloading video',
+    'downloading-audio': 'Downloading audio',
+    'processing': 'Processing streams',
+    'analyzing': 'Analyzing video',
+    'muxing': 'Combining video and audio',
+    'finalizing': 'Finishing up',
+    'recording': 'Recording'
+};
+
+const formatStream = ({ downloadedBytes, totalBytes }: StreamProgress) =>
+    totalBytes > 0 ? `${formatBytes(downloadedBytes)} of ${formatBytes(totalBytes)}` : formatBytes(downloadedBytes);
 
-const ProgressBar: React.FC<ProgressBarProps> = ({ value, className = '' }) => (
-    <div className="w-full bg-gray-200 rounded-full h-2.5">
-        <div
-            className={`h-2.5 rounded-full ${className || 'bg-blue-600'}`}
-            style={{ width: `${value}%` }}
-        />
-    </div>
-);
+const ACTIVE_STATUSES: DownloadStatus[] = ['downloading', 'processing', 'muxing'];
 
 interface DownloadProgressProps {
-    progress: number;
-    status: 'idle' | 'downloading' | 'completed' | 'error';
+    progress: DownloadProgressData | null;
+    status: DownloadStatus;
     errorMessage?: string;
+    errorCode?: DownloaderErrorCode;
+    // Live recordings: ends the recording and keeps what was captured
+    onStop?: () => void;
+    // Where to fetch the finished file when the browser is not already downloading it
+    fileUrl?: string;
 }
 
 const DownloadProgress: React.FC<DownloadProgressProps> = ({
                                                                progress,
                                                                status,
-                                                               errorMessage
+                                                               errorMessage,
+                                                               errorCode,
+                                                               onStop,
+                                                               fileUrl
                                                            }) => {
+    const reported = progress?.percentage ?? 0;
+    const percentage = status === 'completed'
+        ? 100
+        : Number.isFinite(reported) ? Math.min(Math.max(reported, 0), 100) : 0;
+    const roundedPercentage = Math.round(percentage);
+    const advice = status === 'failed' ? getErrorAdvice(errorCode) : undefined;
+    const active = ACTIVE_STATUSES.includes(status);
+
     const getStatusMessage = () => {
+        // The server's phase is more precise than the status while work is under way
+        if (active && progress?.phase) {
+            return `${PHASE_LABELS[progress.phase]}: ${roundedPercentage}%`;
+        }
         switch (status) {
             case 'idle':
                 return 'Ready to download';
+            case 'queued':
+                return 'Waiting in queue';
             case 'downloading':
-                return `Downloading: ${progress}%`;
+                return `Downloading: ${roundedPercentage}%`;
+            case 'recording':
+                return `Recording: ${formatTimestamp(progress?.recordedSeconds ?? 0)}`;
+            case 'processing':
+                return 'Processing streams';
+            case 'muxing':
+                return 'Combining video and audio';
             case 'completed':
                 return 'Download completed';
-            case 'error':
-                return errorMessage || 'Download failed';
+            case 'failed':
+                return advice || errorMessage || 'Download failed';
+            case 'cancelled':
+                return 'Download cancelled';
             default:
                 return '';
         }
@@ -44,8 +81,10 @@ const DownloadProgress: React.FC<DownloadProgressProps> = ({
         switch (status) {
             case 'completed':
                 return 'bg-green-600';
-            case 'error':
+            case 'failed':
                 return 'bg-red-600';
+            case 'cancelled':
+                return 'bg-gray-400';
             default:
                 return 'bg-blue-600';
         }
@@ -58,17 +97,62 @@ const DownloadProgress: React.FC<DownloadProgressProps> = ({
           <span className="font-medium">
             {getStatusMessage()}
           </span>
-                    {status === 'downloading' && (
+                    {active && progress?.eta !== undefined && (
                         <span className="text-sm text-gray-500">
-              {progress}%
+              {formatTimestamp(progress.eta)} left
             </span>
                     )}
                 </div>
 
                 <ProgressBar
-                    value={progress}
+                    value={percentage}
                     className={getProgressBarColor()}
                 />
+
+                {advice && errorMessage && (
+                    <div className="text-sm text-red-600 break-words">
+                        {errorMessage}
+                    </div>
+                )}
+
+                {progress && (
+                    <div className="text-sm text-gray-500 space-y-1">
+                        <div className="flex justify-between">
+                            <span>
+                                {formatBytes(progress.downloadedBytes)}
+                                {progress.totalBytes > 0 && ` of ${formatBytes(progress.totalBytes)}`}
+                            </span>
+                            {active && progress.speed !== undefined && (
+                                <span>{formatBytes(progress.speed)}/s</span>
+                            )}
+                        </div>
+                        {progress.video && progress.audio && (
+                            <div className="flex gap-4">
+                                <span>Video: {formatStream(progress.video)}</span>
+                                <span>Audio: {formatStream(progress.audio)}</span>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {status === 'recording' && onStop && (
+                    <button
+                        type="button"
+                        onClick={onStop}
+                        className="w-full border p-2 rounded hover:bg-gray-100 transition-colors"
+                    >
+                        Stop recording
+                    </button>
+                )}
+
+                {status === 'completed' && fileUrl && (
+                    <a
+                        href={fileUrl}
+                        className="block text-center bg-blue-500 text-white p-2 rounded hover:bg-blue-600 transition-colors"
+                    >
+                        Save recording
+                    </a>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { DownloadOptions, TranscodePreset, VideoFormat } from '../../shared/types';
+import { formatBytes } from '../utils/format';
+
+type Mode = 'video' | 'audio';
+
+interface FormatGroup {
+    label: string;
+    formats: VideoFormat[];
+}
+
+interface FormatSelectorProps {
+    formats: VideoFormat[];
+    isLoading: boolean;
+    disabled?: boolean;
+    onDownload: (options: DownloadOptions) => void;
+    // Offered when the video has chapters, downloads one file per chapter as a batch
+    onSplitByChapter?: (options: DownloadOptions) => void;
+}
+
+const PRESET_CHOICES: { value: TranscodePreset; label: string; mode: Mode }[] = [
+    { value: 'compatible-720p', label: 'Plays anywhere: 720p H.264/AAC mp4', mode: 'video' },
+    { value: 'small', label: 'Small file under a size limit', mode: 'video' },
+    { value: 'gif', label: 'GIF, clips up to 30s', mode: 'video' },
+    { value: 'webm-clip', label: 'Silent WebM, clips up to 2 minutes', mode: 'video' },
+    { value: 'podcast', label: 'Podcast: mono 64 kbps mp3', mode: 'audio' }
+];
+
+const DEFAULT_TARGET_SIZE_MB = 10;
+
+const shortCodec = (codec?: string) => codec?.split('.')[0] ?? '';
+
+const describeSize = (format: VideoFormat) =>
+    format.contentLength ? formatBytes(parseInt(format.contentLength)) : 'size unknown';
+
+const resolutionOf = (format: VideoFormat) => parseInt(format.quality) || 0;
+
+// Video formats bucketed by resolution label, highest first
+const groupVideoFormats = (formats: VideoFormat[]): FormatGroup[] => {
+    const groups = new Map<string, VideoFormat[]>();
+    for (const format of formats.filter(f => f.hasVideo)) {
+        const label = format.quality || 'Unknown';
+        groups.set(label, [...(groups.get(label) ?? []), format]);
+    }
+    return [...groups.entries()]
+        .map(([label, grouped]) => ({ label, formats: grouped }))
+        .sort((a, b) => resolutionOf(b.formats[0]) - resolutionOf(a.formats[0]));
+};
+
+const describeVideoFormat = (format: VideoFormat) => [
+    format.container,
+    shortCodec(format.videoCodec),
+    format.fps ? `${format.fps}fps` : '',
+    format.hasAudio ? 'with audio' : 'video only',
+    describeSize(format)
+].filter(Boolean).join(' · ');
+
+const describeAudioFormat = (format: VideoFormat) => [
+    format.audioBitrate ? `${format.audioBitrate} kbps` : '',
+    format.container,
+    shortCodec(format.audioCodec),
+    describeSize(format)
+].filter(Boolean).join(' · ');
+
+const FormatSelector: React.FC<FormatSelectorProps> = ({
+    formats,
+    isLoading,
+    disabled = false,
+    onDownload,
+    onSplitByChapter
+}) => {
+    const [mode, setMode] = useState<Mode>('video');
+    const [videoItag, setVideoItag] = useState<number | undefined>(undefined);
+    const [audioItag, setAudioItag] = useState<number | undefined>(undefined);
+    const [preset, setPreset] = useState<TranscodePreset | undefined>(undefined);
+    const [targetSizeMb, setTargetSizeMb] = useState(DEFAULT_TARGET_SIZE_MB);
+
+    const videoGroups = useMemo(() => groupVideoFormats(formats), [formats]);
+    const audioFormats = useMemo(
+        () => formats
+            .filter(f => f.hasAudio && !f.hasVideo)
+            .sort((a, b) => (b.audioBitrate ?? 0) - (a.audioBitrate ?? 0)),
+        [formats]
+    );
+
+    if (isLoading) {
+        return <div className="text-center p-4">Loading formats...</div>;
+    }
+
+    if (formats.length === 0) {
+        return null;
+    }
+
+    const selectedVideo = formats.find(f => f.itag === videoItag);
+
+    const selectedOptions = (): DownloadOptions => ({
+        ...(mode === 'audio' ? { filter: 'audioonly', audioItag } : { videoItag, audioItag }),
+        preset,
+        targetSizeMb: preset === 'small' ? targetSizeMb : undefined
+    });
+
+    return (
+        <div className="max-w-xl mx-auto mt-4 p-4 border rounded-lg shadow-sm space-y-4">
+            <div className="flex gap-4">
+                {(['video', 'audio'] as Mode[]).map(option => (
+                    <label key={option} className="flex items-center gap-2 text-sm">
+                        <input
+                            type="radio"
+                            name="format-mode"
+                            value={option}
+                            checked={mode === option}
+                            onChange={() => {
+                                setMode(option);
+                                setAudioItag(undefined);
+                                setPreset(undefined);
+                            }}
+                        />
+                        {option === 'video' ? 'Video' : 'Audio only'}
+                    </label>
+                ))}
+            </div>
+
+            {mode === 'video' && (
+                <div>
+                    <label htmlFor="video-format" className="block text-sm font-medium mb-2">
+                        Video format
+                    </label>
+                    <select
+                        id="video-format"
+                        value={videoItag ?? ''}
+                        onChange={(e) => setVideoItag(e.target.value ? Number(e.target.value) : undefined)}
+                        className="w-full p-2 border rounded"
+                    >
+                        <option value="">Best available</option>
+                        {videoGroups.map(group => (
+                            <optgroup key={group.label} label={group.label}>
+                                {group.formats.map(format => (
+                                    <option key={format.itag} value={format.itag}>
+                                        {describeVideoFormat(format)}
+                                    </option>
+                                ))}
+                            </optgroup>
+                        ))}
+                    </select>
+                </div>
+            )}
+
+            {(mode === 'audio' || (selectedVideo && !selectedVideo.hasAudio)) && (
+                <div>
+                    <label htmlFor="audio-format" className="block text-sm font-medium mb-2">
+                        {mode === 'audio' ? 'Audio format' : 'Audio track'}
+                    </label>
+                    <select
+                        id="audio-format"
+                        value={audioItag ?? ''}
+                        onChange={(e) => setAudioItag(e.target.value ? Number(e.target.value) : undefined)}
+                        className="w-full p-2 border rounded"
+                    >
+                        <option value="">Best available</option>
+                        {audioFormats.map(format => (
+                            <option key={format.itag} value={format.itag}>
+                                {describeAudioFormat(format)}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
+            <div>
+                <label htmlFor="preset" className="block text-sm font-medium mb-2">
+                    Convert
+                </label>
+                <select
+                    id="preset"
+                    value={preset ?? ''}
+                    onChange={(e) => setPreset((e.target.value || undefined) as TranscodePreset | undefined)}
+                    className="w-full p-2 border rounded"
+                >
+                    <option value="">Keep the original</option>
+                    {PRESET_CHOICES.filter(choice => choice.mode === mode).map(choice => (
+                        <option key={choice.value} value={choice.value}>
+                            {choice.label}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {preset === 'small' && (
+                <div>
+                    <label htmlFor="target-size" className="block text-sm font-medium mb-2">
+                        Size limit (MB)
+                    </label>
+                    <input
+                        id="target-size"
+                        type="number"
+                        min={1}
+                        value={targetSizeMb}
+                        onChange={(e) => setTargetSizeMb(Math.max(1, Number(e.target.value) || DEFAULT_TARGET_SIZE_MB))}
+                        className="w-full p-2 border rounded"
+                    />
+                </div>
+            )}
+
+            <button
+                type="button"
+                onClick={() => onDownload(selectedOptions())}
+                disabled={disabled}
+                className="w-full bg-blue-500 text-white p-2 rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+                Download
+            </button>
+
+            {onSplitByChapter && (
+                <button
+                    type="button"
+                    onClick={() => onSplitByChapter(selectedOptions())}
+                    disabled={disabled}
+                    className="w-full border border-blue-500 text-blue-600 p-2 rounded hover:bg-blue-50 transition-colors disabled:opacity-50"
+                >
+                    Download each chapter
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default FormatSelector;
@@ -0,0 +1,162 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HistoryEntry, HistoryStatus } from '../../shared/types';
+import { filterHistory, HistoryFilter, HistoryMediaType } from '../../shared/history';
+import { formatBytes } from '../utils/format';
+
+interface HistoryProps {
+    onRedownload: (entry: HistoryEntry) => void;
+    // Server origin when running inside the extension, empty for same-origin requests
+    apiBase?: string;
+}
+
+const STATUS_LABELS: Record<HistoryStatus, string> = {
+    completed: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled'
+};
+
+const History: React.FC<HistoryProps> = ({ onRedownload, apiBase = '' }) => {
+    const [entries, setEntries] = useState<HistoryEntry[]>([]);
+    const [isLoading, setIsLoading] = useState<boolean>(true);
+    const [filter, setFilter] = useState<HistoryFilter>({});
+
+    useEffect(() => {
+        const loadHistory = async () => {
+            try {
+                const response = await fetch(`${apiBase}/api/history`);
+                if (!response.ok) throw new Error('Failed to fetch history');
+                setEntries(await response.json());
+            } catch (err) {
+                console.error('Error fetching history:', err);
+                setEntries([]);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        loadHistory();
+    }, [apiBase]);
+
+    const authors = useMemo(
+        () => [...new Set(entries.map(entry => entry.details.author))].sort((a, b) => a.localeCompare(b)),
+        [entries]
+    );
+    const visible = filterHistory(entries, filter);
+
+    const deleteEntry = async (id: string) => {
+        try {
+            const response = await fetch(`${apiBase}/api/history/${id}`, { method: 'DELETE' });
+            if (!response.ok) throw new Error('Failed to delete history entry');
+            setEntries(prev => prev.filter(entry => entry.id !== id));
+        } catch (err) {
+            console.error('Error deleting history entry:', err);
+        }
+    };
+
+    // Empty inputs clear their filter instead of matching nothing
+    const updateFilter = (patch: HistoryFilter) => {
+        setFilter(prev => Object.fromEntries(
+            Object.entries({ ...prev, ...patch }).filter(([, value]) => value)
+        ));
+    };
+
+    if (isLoading) {
+        return <div className="text-center p-4">Loading history...</div>;
+    }
+
+    return (
+        <div className="w-full max-w-2xl mx-auto p-4 border rounded-lg shadow-sm space-y-4">
+            <input
+                type="search"
+                value={filter.search ?? ''}
+                onChange={(e) => updateFilter({ search: e.target.value })}
+                placeholder="Search title, author or file name"
+                className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+
+            <div className="grid grid-cols-2 gap-2 text-sm">
+                <select
+                    value={filter.author ?? ''}
+                    onChange={(e) => updateFilter({ author: e.target.value })}
+                    className="p-2 border rounded"
+                >
+                    <option value="">All authors</option>
+                    {authors.map(author => (
+                        <option key={author} value={author}>{author}</option>
+                    ))}
+                </select>
+                <select
+                    value={filter.type ?? ''}
+                    onChange={(e) => updateFilter({ type: e.target.value as HistoryMediaType })}
+                    className="p-2 border rounded"
+                >
+                    <option value="">Video and audio</option>
+                    <option value="video">Video</option>
+                    <option value="audio">Audio only</option>
+                </select>
+                <label>
+                    <span className="block font-medium mb-1">From</span>
+                    <input
+                        type="date"
+                        value={filter.from ?? ''}
+                        onChange={(e) => updateFilter({ from: e.target.value })}
+                        className="w-full p-2 border rounded"
+                    />
+                </label>
+                <label>
+                    <span className="block font-medium mb-1">To</span>
+                    <input
+                        type="date"
+                        value={filter.to ?? ''}
+                        onChange={(e) => updateFilter({ to: e.target.value })}
+                        className="w-full p-2 border rounded"
+                    />
+                </label>
+            </div>
+
+            {visible.length === 0 ? (
+                <p className="text-center text-sm text-gray-500">
+                    {entries.length === 0 ? 'Nothing downloaded yet' : 'No downloads match the filters'}
+                </p>
+            ) : (
+                <ul className="max-h-96 overflow-y-auto divide-y">
+                    {visible.map(entry => (
+                        <li key={entry.id} className="flex gap-3 py-2 text-sm">
+                            {entry.details.thumbnail && (
+                                <img src={entry.details.thumbnail} alt="" className="w-24 h-14 object-cover rounded" />
+                            )}
+                            <div className="flex-1 min-w-0 space-y-1">
+                                <div className="font-medium truncate" title={entry.details.title}>{entry.details.title}</div>
+                                <div className="text-gray-500 truncate">
+                                    {entry.details.author} · {new Date(entry.createdAt).toLocaleString()}
+                                </div>
+                                <div className="text-gray-500 truncate" title={entry.error}>
+                                    {STATUS_LABELS[entry.status]} · {entry.format.extension}
+                                    {entry.size ? ` · ${formatBytes(entry.size)}` : ''}
+                                    {entry.fileName ? ` · ${entry.fileName}` : ''}
+                                </div>
+                            </div>
+                            <div className="flex flex-col gap-1">
+                                <button
+                                    type="button"
+                                    onClick={() => onRedownload(entry)}
+                                    className="bg-blue-500 text-white px-2 py-1 rounded hover:bg-blue-600 transition-colors"
+                                >
+                                    Download again
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => deleteEntry(entry.id)}
+                                    className="border px-2 py-1 rounded hover:bg-gray-100 transition-colors"
+                                >
+                                    Remove
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default History;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { DownloadOptions, PlaylistDetails } from '../../shared/types';
+import { formatIndexSelection, parseIndexSelection } from '../../shared/playlist';
+
+interface PlaylistPreviewProps {
+    playlist: PlaylistDetails | null;
+    isLoading: boolean;
+    disabled?: boolean;
+    onDownload: (selection: string, options: DownloadOptions) => void;
+}
+
+const PlaylistPreview: React.FC<PlaylistPreviewProps> = ({ playlist, isLoading, disabled = false, onDownload }) => {
+    const total = playlist?.entries.length ?? 0;
+    const [selection, setSelection] = useState<string>(total ? `1-${total}` : '');
+    const [audioOnly, setAudioOnly] = useState<boolean>(false);
+
+    if (isLoading) {
+        return <div className="text-center p-4">Loading playlist...</div>;
+    }
+
+    if (!playlist) {
+        return null;
+    }
+
+    const selected = parseIndexSelection(selection, total) ?? [];
+    const selectedSet = new Set(selected);
+
+    const toggleEntry = (index: number) => {
+        const next = selectedSet.has(index)
+            ? selected.filter(item => item !== index)
+            : [...selected, index];
+        setSelection(formatIndexSelection(next));
+    };
+
+    return (
+        <div className="max-w-xl mx-auto p-4 border rounded-lg shadow-sm space-y-4">
+            <div>
+                <h2 className="text-xl font-semibold">{playlist.title}</h2>
+                <div className="flex justify-between text-gray-600">
+                    <span>{playlist.author}</span>
+                    <span>{total} videos</span>
+                </div>
+            </div>
+
+            <div>
+                <label htmlFor="playlist-selection" className="block text-sm font-medium mb-2">
+                    Items to download
+                </label>
+                <input
+                    id="playlist-selection"
+                    type="text"
+                    value={selection}
+                    onChange={(e) => setSelection(e.target.value)}
+                    placeholder="e.g. 3-10 or 1,4,7-9"
+                    className="w-full p-2 border rounded"
+                />
+                {selection && selected.length === 0 && (
+                    <p className="text-red-500 text-sm mt-1">Selection does not match any items</p>
+                )}
+            </div>
+
+            <ul className="max-h-64 overflow-y-auto divide-y border rounded">
+                {playlist.entries.map(entry => (
+                    <li key={entry.index} className="flex items-center gap-3 p-2 text-sm">
+                        <input
+                            type="checkbox"
+                            checked={selectedSet.has(entry.index)}
+                            onChange={() => toggleEntry(entry.index)}
+                        />
+                        <span className="w-8 text-gray-500">{entry.index}</span>
+                        <span className="flex-1 truncate">{entry.title}</span>
+                        <span className="text-gray-500">{entry.duration ?? ''}</span>
+                    </li>
+                ))}
+            </ul>
+
+            <label className="flex items-center gap-2 text-sm">
+                <input
+                    type="checkbox"
+                    checked={audioOnly}
+                    onChange={(e) => setAudioOnly(e.target.checked)}
+                />
+                Audio only
+            </label>
+
+            <button
+                type="button"
+                onClick={() => onDownload(selection, audioOnly ? { filter: 'audioonly' } : {})}
+                disabled={disabled || selected.length === 0}
+                className="w-full bg-blue-500 text-white p-2 rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+                Download {selected.length} of {total}
+            </button>
+        </div>
+    );
+};
+
+export default PlaylistPreview;
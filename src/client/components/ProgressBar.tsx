@@ -0,0 +1,17 @@
+import React from 'react';
+
+interface ProgressBarProps {
+    value: number;
+    className?: string;
+}
+
+const ProgressBar: React.FC<ProgressBarProps> = ({ value, className = '' }) => (
+    <div className="w-full bg-gray-200 rounded-full h-2.5">
+        <div
+            className={`h-2.5 rounded-full ${className || 'bg-blue-600'}`}
+            style={{ width: `${value}%` }}
+        />
+    </div>
+);
+
+export default ProgressBar;
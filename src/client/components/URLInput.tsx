@@ -1,10 +1,19 @@
 import React, { useState } from 'react';
+import { parseYouTubeUrl } from '../../shared/youtubeUrl';
 
 interface URLInputProps {
     onURLSubmit: (url: string) => void;
 }
 
 
+const isHttpUrl = (value: string) => {
+    try {
+        return ['http:', 'https:'].includes(new URL(value.trim()).protocol);
+    } catch {
+        return false;
+    }
+};
+
 const URLInput: React.FC<URLInputProps> = ({ onURLSubmit }) => {
     const [url, setUrl] = useState<string>('');
     const [error, setError] = useState<string>('');
@@ -12,9 +21,15 @@ const URLInput: React.FC<URLInputProps> = ({ onURLSubmit }) => {
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
 
-        // Basic YouTube URL validation
-        if (!url.includes('youtube.com/') && !url.includes('youtu.be/')) {
-            setError('Please enter a valid YouTube URL');
+        // Same parser the server validates with, so both agree on what a YouTube URL is
+        const parsed = parseYouTubeUrl(url);
+        // Anything else may still be an HLS playlist or a media file, the server decides
+        if (!parsed && !isHttpUrl(url)) {
+            setError('Please enter a valid YouTube URL or a link to a media file');
+            return;
+        }
+        if (parsed?.kind === 'live' && !parsed.videoId) {
+            setError("Open the live stream itself, a channel's live page cannot be downloaded");
             return;
         }
 
@@ -30,7 +45,7 @@ const URLInput: React.FC<URLInputProps> = ({ onURLSubmit }) => {
                         htmlFor="youtube-url"
                         className="block text-sm font-medium mb-2"
                     >
-                        Enter YouTube URL
+                        Enter YouTube or media URL
                     </label>
                     <input
                         id="youtube-url"
@@ -48,7 +63,7 @@ const URLInput: React.FC<URLInputProps> = ({ onURLSubmit }) => {
                     type="submit"
                     className="w-full bg-blue-500 text-white p-2 rounded hover:bg-blue-600 transition-colors"
                 >
-                    Download
+                    Load video
                 </button>
             </form>
         </div>
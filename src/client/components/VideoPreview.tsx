@@ -1,19 +1,38 @@
 // VideoPreview.tsx
 import React from 'react';
+import { formatTimestamp } from '../../shared/time';
+import { Chapter } from '../../shared/types';
+import { ClipSelection, getClipError } from '../utils/clip';
+import { getMaxDurationError, LiveSelection } from '../utils/live';
 
 export interface VideoDetails {
     title: string;
     thumbnail: string;
     duration: string;
     author: string;
+    chapters?: Chapter[];
+    isLive?: boolean;
+    isUpcoming?: boolean;
 }
 
 interface VideoPreviewProps {
     videoDetails: VideoDetails | null;
     isLoading: boolean;
+    clip?: ClipSelection;
+    onClipChange?: (clip: ClipSelection) => void;
+    // Replace the clip fields while the video is a live stream
+    live?: LiveSelection;
+    onLiveChange?: (live: LiveSelection) => void;
 }
 
-const VideoPreview: React.FC<VideoPreviewProps> = ({ videoDetails, isLoading }) => {
+const VideoPreview: React.FC<VideoPreviewProps> = ({
+    videoDetails,
+    isLoading,
+    clip,
+    onClipChange,
+    live,
+    onLiveChange
+}) => {
     if (isLoading) {
         return <div className="text-center p-4">Loading video details...</div>;
     }
@@ -25,16 +44,105 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({ videoDetails, isLoading })
     return (
         <div className="max-w-xl mx-auto p-4 border rounded-lg shadow-sm">
             <div className="space-y-4">
-                <img
-                    src={videoDetails.thumbnail}
-                    alt={videoDetails.title}
-                    className="w-full rounded-lg"
-                />
+                {/* Direct media and HLS sources come without a thumbnail */}
+                {videoDetails.thumbnail && (
+                    <img
+                        src={videoDetails.thumbnail}
+                        alt={videoDetails.title}
+                        className="w-full rounded-lg"
+                    />
+                )}
                 <h2 className="text-xl font-semibold">{videoDetails.title}</h2>
                 <div className="flex justify-between text-gray-600">
                     <span>{videoDetails.author}</span>
-                    <span>{videoDetails.duration}</span>
+                    {videoDetails.isLive ? (
+                        <span className="px-2 rounded bg-red-600 text-white text-sm font-semibold">LIVE</span>
+                    ) : videoDetails.isUpcoming ? (
+                        <span className="px-2 rounded bg-gray-500 text-white text-sm font-semibold">Upcoming</span>
+                    ) : (
+                        <span>{formatTimestamp(Number(videoDetails.duration) || 0)}</span>
+                    )}
                 </div>
+                {videoDetails.isLive && live && onLiveChange && (
+                    <div className="space-y-2 text-sm">
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={live.fromStart}
+                                onChange={(e) => onLiveChange({ ...live, fromStart: e.target.checked })}
+                            />
+                            Record from the start of the stream where it is still available
+                        </label>
+                        <label className="block">
+                            <span className="block font-medium mb-1">Stop after</span>
+                            <input
+                                type="text"
+                                value={live.maxDuration}
+                                onChange={(e) => onLiveChange({ ...live, maxDuration: e.target.value })}
+                                placeholder="Until stopped"
+                                className="w-full p-2 border rounded"
+                            />
+                        </label>
+                        {getMaxDurationError(live.maxDuration) && (
+                            <p className="text-red-500">{getMaxDurationError(live.maxDuration)}</p>
+                        )}
+                    </div>
+                )}
+                {!videoDetails.isLive && clip && onClipChange && (
+                    <div className="space-y-2">
+                        <div className="flex gap-4">
+                            <label className="flex-1 text-sm">
+                                <span className="block font-medium mb-1">Start</span>
+                                <input
+                                    type="text"
+                                    value={clip.startTime}
+                                    onChange={(e) => onClipChange({ ...clip, startTime: e.target.value })}
+                                    placeholder="0:00"
+                                    className="w-full p-2 border rounded"
+                                />
+                            </label>
+                            <label className="flex-1 text-sm">
+                                <span className="block font-medium mb-1">End</span>
+                                <input
+                                    type="text"
+                                    value={clip.endTime}
+                                    onChange={(e) => onClipChange({ ...clip, endTime: e.target.value })}
+                                    placeholder={formatTimestamp(Number(videoDetails.duration) || 0)}
+                                    className="w-full p-2 border rounded"
+                                />
+                            </label>
+                        </div>
+                        {getClipError(clip, Number(videoDetails.duration) || 0) && (
+                            <p className="text-red-500 text-sm">
+                                {getClipError(clip, Number(videoDetails.duration) || 0)}
+                            </p>
+                        )}
+                    </div>
+                )}
+                {videoDetails.chapters && videoDetails.chapters.length > 0 && (
+                    <div>
+                        <h3 className="text-sm font-medium mb-1">Chapters</h3>
+                        <ol className="max-h-48 overflow-y-auto text-sm space-y-1">
+                            {videoDetails.chapters.map((chapter, index) => (
+                                <li key={`${index}-${chapter.startTime}`}>
+                                    <button
+                                        type="button"
+                                        disabled={!onClipChange}
+                                        onClick={() => onClipChange?.({
+                                            startTime: formatTimestamp(chapter.startTime),
+                                            endTime: formatTimestamp(chapter.endTime)
+                                        })}
+                                        className="w-full flex justify-between gap-2 text-left hover:text-blue-600 disabled:hover:text-inherit"
+                                        title="Download only this chapter"
+                                    >
+                                        <span className="truncate">{index + 1}. {chapter.title}</span>
+                                        <span className="text-gray-500">{formatTimestamp(chapter.startTime)}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ol>
+                    </div>
+                )}
             </div>
         </div>
     );
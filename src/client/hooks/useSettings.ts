@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_SETTINGS } from '../../shared/settings';
+import { ExtensionSettings } from '../../shared/types';
+import { loadSettings, onSettingsChanged } from '../../extension/settings';
+
+// Extension settings, kept current when they are changed on the options page
+export const useSettings = (): { settings: ExtensionSettings; isLoaded: boolean } => {
+    const [settings, setSettings] = useState<ExtensionSettings>(DEFAULT_SETTINGS);
+    const [isLoaded, setIsLoaded] = useState<boolean>(false);
+
+    useEffect(() => {
+        let active = true;
+        loadSettings()
+            .then(loaded => {
+                if (active) setSettings(loaded);
+            })
+            .catch(err => console.error('Error loading settings:', err))
+            .finally(() => {
+                if (active) setIsLoaded(true);
+            });
+
+        const unsubscribe = onSettingsChanged(setSettings);
+        return () => {
+            active = false;
+            unsubscribe();
+        };
+    }, []);
+
+    return { settings, isLoaded };
+};
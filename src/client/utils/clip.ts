@@ -0,0 +1,17 @@
+import { parseTimestamp } from '../../shared/time';
+
+export interface ClipSelection {
+    startTime: string;
+    endTime: string;
+}
+
+// Empty fields mean "from the beginning" / "until the end"
+export const getClipError = (clip: ClipSelection, durationSeconds: number): string => {
+    if (!clip.startTime && !clip.endTime) return '';
+    const start = clip.startTime ? parseTimestamp(clip.startTime) : 0;
+    const end = clip.endTime ? parseTimestamp(clip.endTime) : durationSeconds;
+    if (start === null || end === null) return 'Use seconds or hh:mm:ss';
+    if (durationSeconds > 0 && end > durationSeconds) return 'End is past the end of the video';
+    if (end <= start) return 'End must be after start';
+    return '';
+};
@@ -0,0 +1,23 @@
+import { DownloaderErrorCode } from '../../shared/types';
+
+// What the user can do about each failure, the server's message is shown underneath
+const ERROR_ADVICE: Record<DownloaderErrorCode, string> = {
+    INVALID_URL: 'That does not look like a YouTube video link. Check the URL and try again.',
+    INVALID_OPTIONS: 'Some download settings are not valid for this video. Adjust them and try again.',
+    VIDEO_UNAVAILABLE: 'This video is unavailable. It may have been removed or the link is wrong.',
+    VIDEO_PRIVATE: 'This video is private. Only videos you can watch without signing in can be downloaded.',
+    AGE_RESTRICTED: 'This video is age-restricted and cannot be downloaded without signing in.',
+    GEO_BLOCKED: 'This video is not available in the server\'s country.',
+    LIVE_NOT_STARTED: 'This stream has not started yet. Try again once it is live.',
+    NO_FORMATS: 'YouTube offers no downloadable formats for this video. Try a different quality or format.',
+    RATE_LIMITED: 'YouTube is limiting requests from the server. Wait a few minutes and try again.',
+    NETWORK_ERROR: 'Could not reach YouTube. Check the server\'s connection and try again.',
+    INSUFFICIENT_STORAGE: 'The server is short on disk space. Wait for other downloads to finish or free up space.',
+    FFMPEG_FAILED: 'Processing the download failed. Try another container or allow re-encoding.',
+    FFMPEG_MISSING: 'FFmpeg is not installed on the server. Install it and restart the server.',
+    CANCELLED: 'The download was cancelled.',
+    UNKNOWN: 'Something went wrong. Try again, and check the server logs if it keeps happening.'
+};
+
+export const getErrorAdvice = (code: DownloaderErrorCode | undefined): string | undefined =>
+    code ? ERROR_ADVICE[code] : undefined;
@@ -0,0 +1,13 @@
+import { parseTimestamp } from '../../shared/time';
+
+export interface LiveSelection {
+    // Record from the oldest part the stream still offers instead of from now
+    fromStart: boolean;
+    // Empty means "until the stream ends or is stopped"
+    maxDuration: string;
+}
+
+export const getMaxDurationError = (maxDuration: string): string => {
+    if (!maxDuration) return '';
+    return parseTimestamp(maxDuration) ? '' : 'Use seconds or hh:mm:ss, longer than zero';
+};
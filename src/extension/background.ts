@@ -0,0 +1,289 @@
+import type { DownloadJob, DownloadOptions, ExtensionSettings, VideoFormat } from '../shared/types';
+import type { ExtensionMessage, MessageResponses, TrackedDownload } from './messages';
+import { loadSettings } from './settings';
+import { videoUrl } from '../shared/youtubeUrl';
+
+// Service worker that turns download requests from the popup and content script
+// into server jobs, follows them and saves finished files through chrome.downloads.
+// The server URL, download defaults and notifications come from the options page.
+// Chrome suspends the worker whenever it is idle, so everything it needs to resume
+// lives in chrome.storage and is read back when the worker starts again.
+
+const STORAGE_KEY = 'trackedDownloads';
+const POLL_ALARM = 'poll-downloads';
+const POLL_INTERVAL_MS = 2000;
+// Finished downloads kept around for the popup
+const MAX_FINISHED = 20;
+
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+type DownloadMap = Record<string, TrackedDownload>;
+
+let downloads: Promise<DownloadMap> | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let polling = false;
+
+const isActive = (download: TrackedDownload) => !FINISHED_STATUSES.includes(download.status);
+const isSubmitted = (download: TrackedDownload) => download.jobId !== undefined;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+const loadDownloads = (): Promise<DownloadMap> => {
+    downloads ??= chrome.storage.local
+        .get(STORAGE_KEY)
+        .then(stored => (stored[STORAGE_KEY] as DownloadMap | undefined) ?? {});
+    return downloads;
+};
+
+const saveDownloads = async (map: DownloadMap) => {
+    // Drop the oldest finished entries so storage does not grow forever
+    const finished = Object.values(map)
+        .filter(download => !isActive(download))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    for (const download of finished.slice(MAX_FINISHED)) {
+        delete map[download.id];
+    }
+
+    await chrome.storage.local.set({ [STORAGE_KEY]: map });
+    await updateBadge(map);
+};
+
+const updateBadge = async (map: DownloadMap) => {
+    const active = Object.values(map).filter(isActive).length;
+    await chrome.action.setBadgeBackgroundColor({ color: '#2563eb' });
+    await chrome.action.setBadgeText({ text: active > 0 ? String(active) : '' });
+};
+
+const request = async <T>(settings: ExtensionSettings, path: string, init?: RequestInit): Promise<T> => {
+    const response = await fetch(`${settings.serverUrl}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...init?.headers }
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(body.error ?? `Server responded with ${response.status}`);
+    }
+    return body as T;
+};
+
+const notify = (title: string, message: string) => {
+    chrome.notifications.create({
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('handsome_squidward.png'),
+        title,
+        message
+    });
+};
+
+// Runs while downloads are active. The alarm only exists to wake a suspended worker,
+// Chrome will not fire alarms more often than once a minute.
+const schedulePolling = async (map: DownloadMap) => {
+    const hasActive = Object.values(map).some(isActive);
+
+    if (hasActive && !pollTimer) {
+        pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+        await chrome.alarms.create(POLL_ALARM, { periodInMinutes: 1 });
+    } else if (!hasActive && pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+        await chrome.alarms.clear(POLL_ALARM);
+    }
+};
+
+const notifyFailure = (settings: ExtensionSettings, download: TrackedDownload) => {
+    if (settings.notifyOnFailure) {
+        notify('Download failed', `${download.title ?? download.videoId}: ${download.error ?? 'Unknown error'}`);
+    }
+};
+
+const saveFile = async (settings: ExtensionSettings, download: TrackedDownload) => {
+    await chrome.downloads.download({
+        url: `${settings.serverUrl}/api/jobs/${download.jobId}/file`,
+        filename: download.fileName,
+        conflictAction: 'uniquify'
+    });
+    if (settings.notifyOnComplete) {
+        notify('Download complete', download.fileName ?? download.title ?? download.videoId);
+    }
+};
+
+// Hands a download to the server, applying the defaults from the options page
+const submit = async (settings: ExtensionSettings, download: TrackedDownload) => {
+    const job = await request<DownloadJob>(settings, '/api/jobs', {
+        method: 'POST',
+        body: JSON.stringify({
+            url: videoUrl(download.videoId),
+            quality: settings.quality,
+            container: settings.container,
+            audioFormat: settings.audioFormat,
+            fileNameTemplate: settings.fileNameTemplate,
+            ...download.options
+        })
+    });
+    Object.assign(download, { jobId: job.id, status: job.status });
+};
+
+const countRunning = (map: DownloadMap) =>
+    Object.values(map).filter(download => isActive(download) && isSubmitted(download)).length;
+
+const refresh = async (settings: ExtensionSettings, download: TrackedDownload) => {
+    let job: DownloadJob;
+    try {
+        job = await request<DownloadJob>(settings, `/api/jobs/${download.jobId}`);
+    } catch (error) {
+        const message = errorMessage(error);
+        // The server being down is worth waiting out, a forgotten job is not
+        if (/not found/i.test(message)) {
+            Object.assign(download, { status: 'failed', error: message });
+            notifyFailure(settings, download);
+        }
+        return;
+    }
+
+    Object.assign(download, {
+        status: job.status,
+        percentage: job.status === 'completed' ? 100 : job.progress?.percentage ?? download.percentage,
+        title: job.title ?? download.title,
+        fileName: job.fileName ?? download.fileName,
+        error: job.error
+    });
+
+    if (job.status === 'completed') {
+        try {
+            await saveFile(settings, download);
+        } catch (error) {
+            Object.assign(download, { status: 'failed', error: errorMessage(error) });
+        }
+    }
+    if (download.status === 'failed') {
+        notifyFailure(settings, download);
+    }
+};
+
+// Submits waiting downloads, oldest first, while there is room under the concurrency limit
+const submitWaiting = async (settings: ExtensionSettings, map: DownloadMap) => {
+    const waiting = Object.values(map)
+        .filter(download => isActive(download) && !isSubmitted(download))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    let running = countRunning(map);
+
+    for (const download of waiting) {
+        if (running >= settings.maxConcurrentDownloads) break;
+        try {
+            await submit(settings, download);
+            running++;
+        } catch (error) {
+            Object.assign(download, { status: 'failed', error: errorMessage(error) });
+            notifyFailure(settings, download);
+        }
+    }
+};
+
+const poll = async () => {
+    // A slow server must not get overlapping rounds of requests
+    if (polling) return;
+    polling = true;
+
+    try {
+        const [map, settings] = await Promise.all([loadDownloads(), loadSettings()]);
+        const submitted = Object.values(map).filter(download => isActive(download) && isSubmitted(download));
+        await Promise.all(submitted.map(download => refresh(settings, download)));
+        await submitWaiting(settings, map);
+        await saveDownloads(map);
+        await schedulePolling(map);
+    } catch (error) {
+        console.error('Error polling downloads:', error);
+    } finally {
+        polling = false;
+    }
+};
+
+const startDownload = async (videoId: string, options: DownloadOptions): Promise<{ id: string }> => {
+    const [map, settings] = await Promise.all([loadDownloads(), loadSettings()]);
+    const download: TrackedDownload = {
+        id: crypto.randomUUID(),
+        videoId,
+        options,
+        status: 'queued',
+        percentage: 0,
+        createdAt: new Date().toISOString()
+    };
+
+    // Failing to reach the server right away is reported to the caller instead of a notification
+    if (countRunning(map) < settings.maxConcurrentDownloads) {
+        await submit(settings, download);
+    }
+
+    map[download.id] = download;
+    await saveDownloads(map);
+    await schedulePolling(map);
+    return { id: download.id };
+};
+
+const handleMessage = async (
+    message: ExtensionMessage,
+    sender: chrome.runtime.MessageSender
+): Promise<MessageResponses[ExtensionMessage['type']]> => {
+    try {
+        switch (message.type) {
+            case 'video-changed':
+                // Remembered per tab so the popup can offer the video that is open
+                if (sender.tab?.id !== undefined) {
+                    await chrome.storage.session.set({ [`tab:${sender.tab.id}`]: message.videoId });
+                }
+                return { ok: true, data: undefined };
+            case 'get-formats':
+                return {
+                    ok: true,
+                    data: await request<VideoFormat[]>(await loadSettings(), '/api/formats', {
+                        method: 'POST',
+                        body: JSON.stringify({ url: videoUrl(message.videoId) })
+                    })
+                };
+            case 'download':
+                return { ok: true, data: await startDownload(message.videoId, message.options) };
+            case 'get-downloads':
+                return {
+                    ok: true,
+                    data: Object.values(await loadDownloads()).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+                };
+        }
+    } catch (error) {
+        return { ok: false, error: errorMessage(error) };
+    }
+};
+
+chrome.runtime.onMessage.addListener((message: ExtensionMessage, sender, sendResponse) => {
+    handleMessage(message, sender).then(sendResponse);
+    // Keeps the channel open for the asynchronous response
+    return true;
+});
+
+chrome.alarms.onAlarm.addListener(alarm => {
+    if (alarm.name === POLL_ALARM) poll();
+});
+
+chrome.tabs.onRemoved.addListener(tabId => {
+    chrome.storage.session.remove(`tab:${tabId}`);
+});
+
+// A saved file whose connection drops is continued with a Range request, the server still has it
+chrome.downloads.onChanged.addListener(async delta => {
+    if (delta.state?.current !== 'interrupted') return;
+    try {
+        const [[item], settings] = await Promise.all([chrome.downloads.search({ id: delta.id }), loadSettings()]);
+        if (item?.canResume && item.error?.startsWith('NETWORK_') && item.url.startsWith(`${settings.serverUrl}/api/jobs/`)) {
+            await chrome.downloads.resume(delta.id);
+        }
+    } catch (error) {
+        console.error('Error resuming download:', error);
+    }
+});
+
+// Picks up where a suspended worker left off
+loadDownloads()
+    .then(async map => {
+        await updateBadge(map);
+        await schedulePolling(map);
+    })
+    .catch(error => console.error('Error restoring downloads:', error));
@@ -0,0 +1,221 @@
+import type { DownloadOptions, VideoFormat } from '../shared/types';
+import type { ExtensionMessage, MessageResponses } from './messages';
+
+// Injected on every youtube.com page. YouTube is a single-page app, so the script
+// stays alive across navigations and re-renders the button on `yt-navigate-finish`.
+
+const ROOT_ID = 'ytdl-extension-download';
+
+// Where the player actions live, newest layouts first
+const WATCH_ACTION_SELECTORS = [
+    'ytd-watch-metadata #top-level-buttons-computed',
+    '#top-level-buttons-computed',
+    'ytd-watch-metadata #actions'
+];
+const SHORTS_ACTION_SELECTORS = [
+    'ytd-reel-video-renderer[is-active] #actions',
+    'ytd-reel-video-renderer[is-active] reel-action-bar-view-model',
+    '#shorts-player ~ * #actions'
+];
+
+// How long to wait for YouTube to render the actions row after a navigation
+const CONTAINER_TIMEOUT_MS = 10000;
+
+interface QualityChoice {
+    label: string;
+    options: DownloadOptions;
+}
+
+const DEFAULT_CHOICES: QualityChoice[] = [
+    { label: 'Best quality', options: {} },
+    { label: 'Audio (MP3)', options: { filter: 'audioonly', audioFormat: 'mp3' } },
+    { label: 'Audio (M4A)', options: { filter: 'audioonly', audioFormat: 'm4a' } }
+];
+
+let currentVideoId: string | null = null;
+let pendingObserver: MutationObserver | null = null;
+
+const getVideoId = (location: Location): string | null => {
+    if (location.pathname === '/watch') {
+        return new URLSearchParams(location.search).get('v');
+    }
+    const shorts = /^\/shorts\/([\w-]{11})/.exec(location.pathname);
+    return shorts ? shorts[1] : null;
+};
+
+const sendMessage = <T extends ExtensionMessage>(message: T): Promise<MessageResponses[T['type']]> =>
+    chrome.runtime.sendMessage(message).catch((error: unknown) => ({
+        ok: false as const,
+        error: error instanceof Error ? error.message : 'The extension is not responding'
+    }));
+
+// One entry per resolution, picking the first (most compatible) format YouTube lists for it
+const choicesFromFormats = (formats: VideoFormat[]): QualityChoice[] => {
+    const byQuality = new Map<string, VideoFormat>();
+    for (const format of formats) {
+        if (format.hasVideo && format.quality && !byQuality.has(format.quality)) {
+            byQuality.set(format.quality, format);
+        }
+    }
+    const resolutions = [...byQuality.values()]
+        .sort((a, b) => (parseInt(b.quality) || 0) - (parseInt(a.quality) || 0))
+        .map(format => ({ label: format.quality, options: { videoItag: format.itag } }));
+    return [DEFAULT_CHOICES[0], ...resolutions, ...DEFAULT_CHOICES.slice(1)];
+};
+
+const findActionsContainer = (isShorts: boolean): Element | null => {
+    const selectors = isShorts ? SHORTS_ACTION_SELECTORS : WATCH_ACTION_SELECTORS;
+    for (const selector of selectors) {
+        const element = document.querySelector(selector);
+        if (element) return element;
+    }
+    return null;
+};
+
+// Resolves once YouTube has rendered the actions row, or null if it never shows up
+const waitForActionsContainer = (isShorts: boolean): Promise<Element | null> => {
+    pendingObserver?.disconnect();
+
+    const existing = findActionsContainer(isShorts);
+    if (existing) return Promise.resolve(existing);
+
+    return new Promise(resolve => {
+        const observer = new MutationObserver(() => {
+            const element = findActionsContainer(isShorts);
+            if (element) {
+                finish(element);
+            }
+        });
+        const timeout = window.setTimeout(() => finish(null), CONTAINER_TIMEOUT_MS);
+        const finish = (element: Element | null) => {
+            window.clearTimeout(timeout);
+            observer.disconnect();
+            if (pendingObserver === observer) pendingObserver = null;
+            resolve(element);
+        };
+
+        pendingObserver = observer;
+        observer.observe(document.body, { childList: true, subtree: true });
+    });
+};
+
+const styleControl = (element: HTMLElement, vertical: boolean) => {
+    Object.assign(element.style, {
+        font: '500 14px Roboto, Arial, sans-serif',
+        color: 'var(--yt-spec-text-primary, #0f0f0f)',
+        background: 'var(--yt-spec-badge-chip-background, rgba(0, 0, 0, 0.05))',
+        border: 'none',
+        height: '36px',
+        padding: '0 12px',
+        cursor: 'pointer',
+        borderRadius: vertical ? '18px' : '0'
+    });
+};
+
+const createControls = (videoId: string, isShorts: boolean): HTMLElement => {
+    const root = document.createElement('div');
+    root.id = ROOT_ID;
+    root.dataset.videoId = videoId;
+    Object.assign(root.style, {
+        display: 'flex',
+        flexDirection: isShorts ? 'column' : 'row',
+        alignItems: 'center',
+        gap: isShorts ? '4px' : '0',
+        marginLeft: isShorts ? '0' : '8px',
+        marginTop: isShorts ? '16px' : '0'
+    });
+
+    const select = document.createElement('select');
+    select.title = 'Download quality';
+    styleControl(select, isShorts);
+    if (!isShorts) select.style.borderRadius = '18px 0 0 18px';
+
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = 'Download';
+    styleControl(button, isShorts);
+    if (!isShorts) {
+        button.style.borderRadius = '0 18px 18px 0';
+        button.style.borderLeft = '1px solid var(--yt-spec-10-percent-layer, rgba(0, 0, 0, 0.1))';
+    }
+
+    let choices = DEFAULT_CHOICES;
+    const renderChoices = () => {
+        select.replaceChildren(...choices.map((choice, index) => {
+            const option = document.createElement('option');
+            option.value = String(index);
+            option.textContent = choice.label;
+            return option;
+        }));
+    };
+    renderChoices();
+
+    sendMessage({ type: 'get-formats', videoId }).then(response => {
+        // The user may have navigated on while the formats were loading
+        if (response.ok && root.isConnected && currentVideoId === videoId) {
+            choices = choicesFromFormats(response.data);
+            renderChoices();
+        }
+    });
+
+    const showStatus = (text: string, resetAfterMs?: number) => {
+        button.textContent = text;
+        if (resetAfterMs) {
+            window.setTimeout(() => {
+                button.textContent = 'Download';
+                button.disabled = false;
+            }, resetAfterMs);
+        }
+    };
+
+    button.addEventListener('click', async () => {
+        const choice = choices[Number(select.value)] ?? DEFAULT_CHOICES[0];
+        button.disabled = true;
+        showStatus('Starting...');
+
+        const response = await sendMessage({ type: 'download', videoId, options: choice.options });
+        if (response.ok) {
+            showStatus('Queued', 3000);
+        } else {
+            button.title = response.error;
+            showStatus('Failed', 5000);
+        }
+    });
+
+    root.append(select, button);
+    return root;
+};
+
+const render = async () => {
+    const videoId = getVideoId(window.location);
+    const isShorts = window.location.pathname.startsWith('/shorts/');
+
+    if (videoId !== currentVideoId) {
+        currentVideoId = videoId;
+        sendMessage({ type: 'video-changed', videoId });
+    }
+
+    const existing = document.getElementById(ROOT_ID);
+    if (!videoId) {
+        pendingObserver?.disconnect();
+        existing?.remove();
+        return;
+    }
+    // YouTube reuses the page for the next video, so a button for the previous one is stale
+    if (existing && existing.dataset.videoId === videoId && existing.isConnected) return;
+    existing?.remove();
+
+    const container = await waitForActionsContainer(isShorts);
+    // Another navigation may have happened while waiting
+    if (!container || currentVideoId !== videoId || document.getElementById(ROOT_ID)) return;
+
+    container.append(createControls(videoId, isShorts));
+};
+
+document.addEventListener('yt-navigate-finish', () => {
+    render();
+});
+window.addEventListener('popstate', () => {
+    render();
+});
+render();
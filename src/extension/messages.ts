@@ -0,0 +1,36 @@
+import type { DownloadOptions, DownloadStatus, VideoFormat } from '../shared/types';
+
+// Messages the content script and popup send to the background service worker. Keep
+// this file type-only: content scripts are not modules, anything imported at runtime
+// would be split into a shared chunk they cannot load.
+export type ExtensionMessage =
+    | { type: 'video-changed'; videoId: string | null }
+    | { type: 'get-formats'; videoId: string }
+    | { type: 'download'; videoId: string; options: DownloadOptions }
+    | { type: 'get-downloads' };
+
+// A download the worker follows until its file has been handed to chrome.downloads. It waits
+// in the worker without a jobId until fewer than maxConcurrentDownloads jobs are running.
+export interface TrackedDownload {
+    id: string;
+    jobId?: string;
+    videoId: string;
+    options: DownloadOptions;
+    status: DownloadStatus;
+    percentage: number;
+    title?: string;
+    fileName?: string;
+    error?: string;
+    createdAt: string;
+}
+
+export type ExtensionResponse<T = undefined> =
+    | { ok: true; data: T }
+    | { ok: false; error: string };
+
+export interface MessageResponses {
+    'video-changed': ExtensionResponse;
+    'get-formats': ExtensionResponse<VideoFormat[]>;
+    'download': ExtensionResponse<{ id: string }>;
+    'get-downloads': ExtensionResponse<TrackedDownload[]>;
+}
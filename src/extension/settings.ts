@@ -0,0 +1,37 @@
+import { DEFAULT_SETTINGS, normalizeSettings } from '../shared/settings';
+import { ExtensionSettings } from '../shared/types';
+
+// The popup App also runs as a plain web page during development, where there is no chrome.storage
+export const isExtensionContext = (): boolean =>
+    typeof chrome !== 'undefined' && Boolean(chrome.storage?.sync);
+
+export const loadSettings = async (): Promise<ExtensionSettings> => {
+    if (!isExtensionContext()) return DEFAULT_SETTINGS;
+    const stored = await chrome.storage.sync.get(Object.keys(DEFAULT_SETTINGS));
+    return normalizeSettings(stored);
+};
+
+export const saveSettings = async (settings: ExtensionSettings): Promise<ExtensionSettings> => {
+    const normalized = normalizeSettings(settings);
+    await chrome.storage.sync.set(normalized);
+    return normalized;
+};
+
+/**
+ * Asks for access to a server other than the default one, which the manifest only lists as an
+ * optional permission. Chrome only shows the prompt from a user gesture, so call it before
+ * anything else is awaited.
+ */
+export const requestServerAccess = (serverUrl: string): Promise<boolean> =>
+    chrome.permissions.request({ origins: [`${new URL(serverUrl).origin}/*`] });
+
+// Calls back with the full settings whenever another page or browser changes them
+export const onSettingsChanged = (listener: (settings: ExtensionSettings) => void): (() => void) => {
+    if (!isExtensionContext()) return () => {};
+
+    const handleChange = (_changes: object, areaName: string) => {
+        if (areaName === 'sync') loadSettings().then(listener);
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+};
@@ -0,0 +1,45 @@
+import os from 'os';
+import path from 'path';
+import { DEFAULT_FILENAME_TEMPLATE } from '../shared/fileName';
+
+const toNumber = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value !== undefined && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const dataDir = path.resolve(process.env.DATA_DIR || 'data');
+
+export const config = {
+    port: toNumber(process.env.PORT, 3000),
+    // Comma separated list, e.g. "chrome-extension://abcdef...,http://localhost:5173"
+    allowedOrigins: (process.env.ALLOWED_ORIGINS || 'http://localhost:5173')
+        .split(',')
+        .map(origin => origin.trim())
+        .filter(Boolean),
+    dataDir,
+    downloadDir: path.resolve(process.env.DOWNLOAD_DIR || path.join(dataDir, 'downloads')),
+    // Used when a request does not bring its own fileNameTemplate, e.g. "{author} - {title} [{id}].{ext}"
+    fileNameTemplate: process.env.FILENAME_TEMPLATE || DEFAULT_FILENAME_TEMPLATE,
+    jobs: {
+        maxConcurrent: Math.max(1, toNumber(process.env.MAX_CONCURRENT_DOWNLOADS, 2)),
+        maxAttempts: Math.max(1, toNumber(process.env.JOB_MAX_ATTEMPTS, 3)),
+        retryBaseDelayMs: toNumber(process.env.JOB_RETRY_BASE_DELAY_MS, 2000),
+        retryMaxDelayMs: toNumber(process.env.JOB_RETRY_MAX_DELAY_MS, 60000)
+    },
+    // Video info is reused between the preview, format list and download for this long
+    infoCache: {
+        ttlMs: toNumber(process.env.INFO_CACHE_TTL_MS, 10 * 60 * 1000),
+        maxEntries: toNumber(process.env.INFO_CACHE_MAX_ENTRIES, 200)
+    },
+    // The oldest finished downloads are forgotten once the history holds this many
+    history: {
+        maxEntries: Math.max(1, toNumber(process.env.HISTORY_MAX_ENTRIES, 1000))
+    },
+    // Scratch space for downloads, a quota of 0 leaves it to the disk's free space
+    workspace: {
+        root: path.resolve(process.env.WORKSPACE_DIR || os.tmpdir()),
+        quotaBytes: toNumber(process.env.WORKSPACE_QUOTA_MB, 0) * 1024 * 1024,
+        minFreeBytes: toNumber(process.env.WORKSPACE_MIN_FREE_MB, 512) * 1024 * 1024,
+        staleAfterMs: Math.max(60 * 1000, toNumber(process.env.WORKSPACE_STALE_AFTER_MS, 60 * 60 * 1000))
+    }
+};
@@ -0,0 +1,73 @@
+import 'dotenv/config';
+import express, { Request, Response, NextFunction } from 'express';
+import cors, { CorsOptions } from 'cors';
+import apiRouter from './routes/api';
+import progressRouter from './routes/progress';
+import jobsRouter from './routes/jobs';
+import playlistsRouter from './routes/playlists';
+import batchesRouter from './routes/batches';
+import captionsRouter from './routes/captions';
+import historyRouter from './routes/history';
+import { jobManager } from './jobs/jobManager';
+import { batchManager } from './jobs/batchManager';
+import { historyManager } from './jobs/historyManager';
+import { workspaceManager } from './utils/workspace';
+import { logger } from './utils/logger';
+import { errorHandler } from './middleware/errorHandler';
+import { config } from './config';
+
+const corsOptions: CorsOptions = {
+    origin: (origin, callback) => {
+        // Requests without an origin (curl, same-origin) and the extension itself are always allowed
+        if (!origin || origin.startsWith('chrome-extension://') || config.allowedOrigins.includes(origin)) {
+            callback(null, true);
+            return;
+        }
+        callback(new Error(`Origin ${origin} not allowed by CORS`));
+    },
+    exposedHeaders: ['Content-Disposition', 'Content-Length']
+};
+
+const app = express();
+
+app.use(cors(corsOptions));
+app.use(express.json());
+
+app.use((req: Request, _res: Response, next: NextFunction) => {
+    logger.http(`${req.method} ${req.originalUrl}`);
+    next();
+});
+
+app.use('/api/progress', progressRouter);
+app.use('/api/jobs', jobsRouter);
+app.use('/api/playlists', playlistsRouter);
+app.use('/api/batches', batchesRouter);
+app.use('/api/captions', captionsRouter);
+app.use('/api/history', historyRouter);
+app.use('/api', apiRouter);
+
+app.get('/health', (_req: Request, res: Response) => {
+    res.json({ status: 'ok' });
+});
+
+app.use((_req: Request, res: Response) => {
+    res.status(404).json({ error: 'Not found' });
+});
+
+app.use(errorHandler);
+
+workspaceManager.init()
+    .then(() => historyManager.init())
+    .then(() => jobManager.init())
+    .then(() => batchManager.init())
+    .then(() => {
+        app.listen(config.port, () => {
+            logger.info(`Server listening on http://localhost:${config.port}`);
+        });
+    })
+    .catch(error => {
+        logger.error(`Failed to start job managers: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+    });
+
+export default app;
@@ -0,0 +1,218 @@
+import path from 'path';
+import crypto from 'crypto';
+import { JsonStore } from './jsonStore';
+import { jobManager, JobManager, JobNotFoundError, JobStateError } from './jobManager';
+import { YouTubeDownloader } from '../utils/ytdl';
+import { YouTubePlaylist } from '../utils/playlist';
+import { renderFileName, sanitizeFileName } from '../utils/filename';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { parseIndexSelection } from '../../shared/playlist';
+import { BatchSummary, DownloadBatch, DownloadJob, DownloadOptions, DownloadStatus } from '../../shared/types';
+
+export class BatchNotFoundError extends Error {
+    constructor(id: string) {
+        super(`Batch ${id} not found`);
+        this.name = 'BatchNotFoundError';
+    }
+}
+
+export class BatchSelectionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BatchSelectionError';
+    }
+}
+
+const FINISHED_STATUSES: DownloadStatus[] = ['completed', 'failed', 'cancelled'];
+
+// Playlist or chapter order is kept in the file names unless the request asks otherwise
+const BATCH_FILENAME_TEMPLATE = '{index} - {title}.{ext}';
+
+/**
+ * Expands playlists and channels into individual jobs that share one set of
+ * download options, and aggregates their state into a batch summary.
+ */
+export class BatchManager {
+    constructor(private readonly store: JsonStore<DownloadBatch>, private readonly jobs: JobManager) {}
+
+    async init(): Promise<void> {
+        const batches = await this.store.load();
+        logger.info(`Batch manager ready with ${batches.length} stored batch(es)`);
+    }
+
+    list(): BatchSummary[] {
+        return this.store.list().map(batch => this.summarize(batch));
+    }
+
+    get(id: string): BatchSummary {
+        const batch = this.store.get(id);
+        if (!batch) throw new BatchNotFoundError(id);
+        return this.summarize(batch);
+    }
+
+    async create(url: string, options: DownloadOptions, selection?: string): Promise<BatchSummary> {
+        const playlist = await YouTubePlaylist.getPlaylist(url);
+        if (playlist.entries.length === 0) {
+            throw new BatchSelectionError('The playlist has no downloadable entries');
+        }
+
+        let indices = playlist.entries.map(entry => entry.index);
+        if (selection) {
+            const selected = parseIndexSelection(selection, playlist.entries.length);
+            if (!selected) {
+                throw new BatchSelectionError(`Selection "${selection}" does not match any of the ${playlist.entries.length} items`);
+            }
+            indices = selected;
+        }
+
+        const batch: DownloadBatch = {
+            id: crypto.randomUUID(),
+            playlistId: playlist.id,
+            url: playlist.url,
+            title: playlist.title,
+            options,
+            jobIds: [],
+            createdAt: new Date().toISOString()
+        };
+
+        const { extension } = YouTubeDownloader.describeOutput(options);
+        const padding = String(playlist.entries.length).length;
+
+        for (const index of indices) {
+            const entry = playlist.entries[index - 1];
+            const job = await this.jobs.enqueue(entry.url, options, {
+                batchId: batch.id,
+                playlistIndex: entry.index,
+                title: entry.title,
+                fileName: renderFileName(options.fileNameTemplate ?? BATCH_FILENAME_TEMPLATE, {
+                    title: entry.title,
+                    author: entry.author,
+                    id: entry.videoId,
+                    index: String(entry.index).padStart(padding, '0'),
+                    ext: extension
+                })
+            });
+            batch.jobIds.push(job.id);
+        }
+
+        await this.store.save(batch);
+        logger.info(`Batch ${batch.id} created for "${playlist.title}" with ${batch.jobIds.length} item(s)`);
+        return this.summarize(batch);
+    }
+
+    async cancel(id: string): Promise<BatchSummary> {
+        const summary = this.get(id);
+        for (const job of summary.jobs) {
+            if (FINISHED_STATUSES.includes(job.status)) continue;
+            try {
+                await this.jobs.cancel(job.id);
+            } catch (error) {
+                // A job may finish between listing and cancelling, that is fine
+                if (!(error instanceof JobStateError)) throw error;
+            }
+        }
+        return this.get(id);
+    }
+
+    /**
+     * Splits one video into a job per chapter. Each job trims the video to its
+     * chapter and is tagged as a track of an album named after the video.
+     */
+    async createFromChapters(url: string, options: DownloadOptions, selection?: string): Promise<BatchSummary> {
+        const details = await YouTubeDownloader.getVideoInfo(url);
+        const chapters = details.chapters ?? [];
+        if (chapters.length === 0) {
+            throw new BatchSelectionError('The video has no chapters to split by');
+        }
+
+        let indices = chapters.map((_chapter, index) => index + 1);
+        if (selection) {
+            const selected = parseIndexSelection(selection, chapters.length);
+            if (!selected) {
+                throw new BatchSelectionError(`Selection "${selection}" does not match any of the ${chapters.length} chapters`);
+            }
+            indices = selected;
+        }
+
+        const batch: DownloadBatch = {
+            id: crypto.randomUUID(),
+            videoId: details.videoId,
+            url,
+            title: details.title,
+            options,
+            jobIds: [],
+            createdAt: new Date().toISOString()
+        };
+
+        const { extension } = YouTubeDownloader.describeOutput(options);
+        const padding = String(chapters.length).length;
+
+        for (const index of indices) {
+            const chapter = chapters[index - 1];
+            const job = await this.jobs.enqueue(url, {
+                ...options,
+                startTime: chapter.startTime,
+                endTime: chapter.endTime,
+                track: { number: index, total: chapters.length, title: chapter.title }
+            }, {
+                batchId: batch.id,
+                playlistIndex: index,
+                title: chapter.title,
+                fileName: renderFileName(options.fileNameTemplate ?? BATCH_FILENAME_TEMPLATE, {
+                    title: chapter.title,
+                    author: details.author,
+                    id: details.videoId,
+                    index: String(index).padStart(padding, '0'),
+                    ext: extension
+                })
+            });
+            batch.jobIds.push(job.id);
+        }
+
+        await this.store.save(batch);
+        logger.info(`Batch ${batch.id} splits "${details.title}" into ${batch.jobIds.length} chapter(s)`);
+        return this.summarize(batch);
+    }
+
+    // Folder name used inside the zip archive for this batch
+    folderName(batch: DownloadBatch): string {
+        return sanitizeFileName(batch.title, 'playlist');
+    }
+
+    private summarize(batch: DownloadBatch): BatchSummary {
+        const jobs = batch.jobIds
+            .map(jobId => {
+                try {
+                    return this.jobs.get(jobId);
+                } catch (error) {
+                    if (error instanceof JobNotFoundError) return null;
+                    throw error;
+                }
+            })
+            .filter((job): job is DownloadJob => job !== null);
+
+        const counts: BatchSummary['counts'] = {};
+        let progressSum = 0;
+        for (const job of jobs) {
+            counts[job.status] = (counts[job.status] ?? 0) + 1;
+            progressSum += FINISHED_STATUSES.includes(job.status)
+                ? 100
+                : Math.min(job.progress?.percentage ?? 0, 100) || 0;
+        }
+
+        return {
+            batch,
+            jobs,
+            counts,
+            total: jobs.length,
+            finished: jobs.filter(job => FINISHED_STATUSES.includes(job.status)).length,
+            percentage: jobs.length ? progressSum / jobs.length : 0
+        };
+    }
+}
+
+export const batchManager = new BatchManager(
+    new JsonStore<DownloadBatch>(path.join(config.dataDir, 'batches.json')),
+    jobManager
+);
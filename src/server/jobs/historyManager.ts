@@ -0,0 +1,77 @@
+import path from 'path';
+import crypto from 'crypto';
+import { JsonStore } from './jsonStore';
+import { YouTubeDownloader } from '../utils/ytdl';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { filterHistory, HistoryFilter } from '../../shared/history';
+import { HistoryEntry } from '../../shared/types';
+
+export class HistoryNotFoundError extends Error {
+    constructor(id: string) {
+        super(`History entry ${id} not found`);
+        this.name = 'HistoryNotFoundError';
+    }
+}
+
+export type HistoryRecord = Omit<HistoryEntry, 'id' | 'videoId' | 'format' | 'createdAt'>;
+
+export interface HistoryManagerOptions {
+    maxEntries: number;
+}
+
+/**
+ * Remembers every download that reached an end, from jobs and from streamed
+ * downloads alike, so the UI can search them, offer a re-download and warn
+ * before the same video is fetched twice.
+ */
+export class HistoryManager {
+    constructor(private readonly store: JsonStore<HistoryEntry>, private readonly options: HistoryManagerOptions) {}
+
+    async init(): Promise<void> {
+        await this.store.load();
+        await this.prune();
+        logger.info(`History ready with ${this.store.list().length} stored download(s)`);
+    }
+
+    list(filter: HistoryFilter = {}): HistoryEntry[] {
+        return filterHistory(this.store.list(), filter);
+    }
+
+    get(id: string): HistoryEntry {
+        const entry = this.store.get(id);
+        if (!entry) throw new HistoryNotFoundError(id);
+        return entry;
+    }
+
+    async record(record: HistoryRecord): Promise<HistoryEntry> {
+        const entry: HistoryEntry = {
+            ...record,
+            id: crypto.randomUUID(),
+            videoId: record.details.videoId,
+            format: YouTubeDownloader.describeOutput(record.options),
+            createdAt: new Date().toISOString()
+        };
+        await this.store.save(entry);
+        await this.prune();
+        return entry;
+    }
+
+    // Only forgets the entry, a file the server still keeps stays where it is
+    async delete(id: string): Promise<void> {
+        this.get(id);
+        await this.store.delete(id);
+    }
+
+    private async prune() {
+        const entries = this.store.list();
+        for (const entry of entries.slice(0, Math.max(0, entries.length - this.options.maxEntries))) {
+            await this.store.delete(entry.id);
+        }
+    }
+}
+
+export const historyManager = new HistoryManager(
+    new JsonStore<HistoryEntry>(path.join(config.dataDir, 'history.json')),
+    config.history
+);
@@ -0,0 +1,365 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { pipeline } from 'stream/promises';
+import { YouTubeDownloader } from '../utils/ytdl';
+import { logger } from '../utils/logger';
+import { progressHub } from '../utils/progress';
+import { fileNameForVideo } from '../utils/filename';
+import { classifyError } from '../utils/errors';
+import { JsonStore } from './jsonStore';
+import { historyManager } from './historyManager';
+import { MediaInfo } from '../providers';
+import { config } from '../config';
+import { DownloadJob, DownloadOptions, DownloadStatus, HistoryStatus } from '../../shared/types';
+
+export class JobNotFoundError extends Error {
+    constructor(id: string) {
+        super(`Job ${id} not found`);
+        this.name = 'JobNotFoundError';
+    }
+}
+
+export class JobStateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'JobStateError';
+    }
+}
+
+export interface JobManagerOptions {
+    maxConcurrent: number;
+    maxAttempts: number;
+    retryBaseDelayMs: number;
+    retryMaxDelayMs: number;
+    downloadDir: string;
+}
+
+const ACTIVE_STATUSES: DownloadStatus[] = ['downloading', 'recording', 'processing', 'muxing'];
+const CANCELLABLE_STATUSES: DownloadStatus[] = ['queued', ...ACTIVE_STATUSES];
+const RETRYABLE_STATUSES: DownloadStatus[] = ['failed', 'cancelled'];
+
+// Unset options and the order they came in do not make a different download
+const optionsKey = (options: DownloadOptions) => JSON.stringify(
+    Object.entries(options).filter(([, value]) => value !== undefined).sort(([a], [b]) => a.localeCompare(b))
+);
+
+export class JobManager {
+    private running = new Map<string, AbortController>();
+    // Stopping a live recording keeps what was captured, cancelling it throws the segments away
+    private stopRequests = new Map<string, AbortController>();
+    private retryTimers = new Map<string, NodeJS.Timeout>();
+
+    constructor(private readonly store: JsonStore<DownloadJob>, private readonly options: JobManagerOptions) {}
+
+    async init(): Promise<void> {
+        await fs.promises.mkdir(this.options.downloadDir, { recursive: true });
+        const jobs = await this.store.load();
+
+        // Anything that was mid-flight when the server stopped is queued again, downloads
+        // continue their partial pieces and recordings pick up after the segments they wrote
+        for (const job of jobs) {
+            if (ACTIVE_STATUSES.includes(job.status)) {
+                job.status = 'queued';
+                job.progress = undefined;
+                job.nextAttemptAt = undefined;
+                job.updatedAt = new Date().toISOString();
+                await this.store.save(job);
+            }
+            if (job.status === 'queued' && job.nextAttemptAt) {
+                this.scheduleRetry(job);
+            }
+        }
+
+        logger.info(`Job manager ready with ${jobs.length} stored job(s)`);
+        this.pump();
+    }
+
+    list(): DownloadJob[] {
+        return this.store.list();
+    }
+
+    get(id: string): DownloadJob {
+        const job = this.store.get(id);
+        if (!job) throw new JobNotFoundError(id);
+        return job;
+    }
+
+    // The newest finished job for the same URL and options whose file is still there
+    findCompleted(url: string, options: DownloadOptions): DownloadJob | undefined {
+        const key = optionsKey(options);
+        return this.store.list().reverse().find(job =>
+            job.status === 'completed' &&
+            job.url === url &&
+            optionsKey(job.options) === key &&
+            fs.existsSync(this.outputPath(job))
+        );
+    }
+
+    outputPath(job: DownloadJob): string {
+        const { extension } = YouTubeDownloader.describeOutput(job.options);
+        return path.join(this.options.downloadDir, `${job.id}.${extension}`);
+    }
+
+    // Kept next to the downloads rather than in the temp dir so a restart finds the segments again
+    private recordingDir(job: DownloadJob): string {
+        return path.join(this.options.downloadDir, `${job.id}.recording`);
+    }
+
+    // Source pieces of a download, kept through failures and restarts so the next attempt continues them
+    private workDir(job: DownloadJob): string {
+        return path.join(this.options.downloadDir, `${job.id}.parts`);
+    }
+
+    private async removeWorkDirs(job: DownloadJob) {
+        await fs.promises.rm(this.recordingDir(job), { recursive: true, force: true });
+        await fs.promises.rm(this.workDir(job), { recursive: true, force: true });
+    }
+
+    async enqueue(
+        url: string,
+        options: DownloadOptions = {},
+        extra: Pick<DownloadJob, 'batchId' | 'playlistIndex' | 'title' | 'fileName'> = {}
+    ): Promise<DownloadJob> {
+        const now = new Date().toISOString();
+        const job: DownloadJob = {
+            id: crypto.randomUUID(),
+            url,
+            options,
+            status: 'queued',
+            ...extra,
+            attempts: 0,
+            maxAttempts: this.options.maxAttempts,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        await this.update(job, {});
+        this.pump();
+        return job;
+    }
+
+    async cancel(id: string): Promise<DownloadJob> {
+        const job = this.get(id);
+        if (!CANCELLABLE_STATUSES.includes(job.status)) {
+            throw new JobStateError(`Cannot cancel a job that is ${job.status}`);
+        }
+
+        clearTimeout(this.retryTimers.get(id));
+        this.retryTimers.delete(id);
+
+        // Aborted before anything is awaited, so a run about to complete sees it
+        const controller = this.running.get(id);
+        controller?.abort();
+        await this.update(job, { status: 'cancelled', nextAttemptAt: undefined });
+        if (!controller) {
+            await this.removeWorkDirs(job);
+        }
+        return job;
+    }
+
+    // Ends a live recording early, the job then completes with everything captured so far
+    async stop(id: string): Promise<DownloadJob> {
+        const job = this.get(id);
+        const stopRequest = this.stopRequests.get(id);
+        if (job.status !== 'recording' || !stopRequest) {
+            throw new JobStateError(`Cannot stop a job that is ${job.status}, only recordings can be stopped`);
+        }
+        stopRequest.abort();
+        return job;
+    }
+
+    async retry(id: string): Promise<DownloadJob> {
+        const job = this.get(id);
+        if (!RETRYABLE_STATUSES.includes(job.status)) {
+            throw new JobStateError(`Cannot retry a job that is ${job.status}`);
+        }
+
+        await this.update(job, {
+            status: 'queued',
+            attempts: 0,
+            error: undefined,
+            errorCode: undefined,
+            progress: undefined,
+            nextAttemptAt: undefined
+        });
+        this.pump();
+        return job;
+    }
+
+    private pump() {
+        const now = Date.now();
+        const ready = this.store.list().filter(job =>
+            job.status === 'queued' &&
+            !this.running.has(job.id) &&
+            (!job.nextAttemptAt || Date.parse(job.nextAttemptAt) <= now)
+        );
+
+        for (const job of ready) {
+            if (this.running.size >= this.options.maxConcurrent) break;
+            this.run(job).catch(error => {
+                logger.error(`Job ${job.id} crashed: ${error instanceof Error ? error.message : error}`);
+            });
+        }
+    }
+
+    private async run(job: DownloadJob) {
+        const controller = new AbortController();
+        const stopRequest = new AbortController();
+        this.running.set(job.id, controller);
+        this.stopRequests.set(job.id, stopRequest);
+
+        const outputPath = this.outputPath(job);
+        const partialPath = `${outputPath}.part`;
+        // Segments and pieces stay through failures, so retrying continues the recording or download
+        const recordingDir = this.recordingDir(job);
+        let info: MediaInfo | undefined;
+
+        try {
+            await this.update(job, {
+                status: 'downloading',
+                attempts: job.attempts + 1,
+                progress: { phase: 'resolving', downloadedBytes: 0, totalBytes: 0, percentage: 0 },
+                error: undefined,
+                errorCode: undefined,
+                nextAttemptAt: undefined
+            });
+            logger.info(`Job ${job.id} started (attempt ${job.attempts}/${job.maxAttempts})`);
+
+            info = await YouTubeDownloader.getMediaInfo(job.url);
+            if (!job.title || !job.fileName) {
+                await this.update(job, {
+                    title: job.title ?? info.details.title,
+                    fileName: job.fileName ?? fileNameForVideo(
+                        job.options.fileNameTemplate ?? config.fileNameTemplate,
+                        info.details,
+                        YouTubeDownloader.describeOutput(job.options).extension
+                    )
+                });
+            }
+
+            const stream = await YouTubeDownloader.createDownloadStream(
+                job.url,
+                job.options,
+                (progress) => {
+                    job.progress = progress;
+                    progressHub.publish({ downloadId: job.id, status: job.status, progress });
+                },
+                {
+                    signal: controller.signal,
+                    stop: stopRequest.signal,
+                    recordingDir,
+                    workDir: this.workDir(job),
+                    info,
+                    onStatus: (status) => {
+                        if (!controller.signal.aborted) {
+                            this.update(job, { status });
+                        }
+                    }
+                }
+            );
+
+            await pipeline(stream, fs.createWriteStream(partialPath), { signal: controller.signal });
+            await fs.promises.rename(partialPath, outputPath);
+            await this.removeWorkDirs(job);
+            // A cancel that came in while the file was moved still wins
+            if (controller.signal.aborted) {
+                await fs.promises.rm(outputPath, { force: true });
+                controller.signal.throwIfAborted();
+            }
+
+            await this.update(job, { status: 'completed', completedAt: new Date().toISOString() });
+            const { size } = await fs.promises.stat(outputPath);
+            await this.recordHistory(job, info, 'completed', { outputPath, size });
+            logger.info(`Job ${job.id} completed`);
+        } catch (error) {
+            await fs.promises.rm(partialPath, { force: true });
+
+            if (controller.signal.aborted) {
+                await this.removeWorkDirs(job);
+                await this.recordHistory(job, info, 'cancelled');
+                logger.info(`Job ${job.id} cancelled`);
+                return;
+            }
+
+            YouTubeDownloader.forgetInfo(job.url);
+            const { code, message, retryable } = classifyError(error);
+            if (retryable && job.attempts < job.maxAttempts) {
+                const delay = Math.min(
+                    this.options.retryBaseDelayMs * 2 ** (job.attempts - 1),
+                    this.options.retryMaxDelayMs
+                );
+                logger.warn(`Job ${job.id} hit a transient error, retrying in ${delay}ms: ${message}`);
+                await this.update(job, {
+                    status: 'queued',
+                    error: message,
+                    errorCode: code,
+                    nextAttemptAt: new Date(Date.now() + delay).toISOString()
+                });
+                this.scheduleRetry(job);
+            } else {
+                logger.error(`Job ${job.id} failed: ${message}`);
+                await this.update(job, { status: 'failed', error: message, errorCode: code });
+                await this.recordHistory(job, info, 'failed');
+            }
+        } finally {
+            this.running.delete(job.id);
+            this.stopRequests.delete(job.id);
+            this.pump();
+        }
+    }
+
+    // Jobs that failed before their video info came back have nothing worth showing in the history
+    private async recordHistory(
+        job: DownloadJob,
+        info: MediaInfo | undefined,
+        status: HistoryStatus,
+        file: { outputPath?: string; size?: number } = {}
+    ) {
+        if (!info) return;
+        await historyManager.record({
+            url: job.url,
+            details: info.details,
+            options: job.options,
+            status,
+            fileName: job.fileName,
+            jobId: job.id,
+            error: job.error,
+            errorCode: job.errorCode,
+            ...file
+        });
+    }
+
+    private scheduleRetry(job: DownloadJob) {
+        clearTimeout(this.retryTimers.get(job.id));
+        const delay = Math.max(0, Date.parse(job.nextAttemptAt ?? '') - Date.now()) || 0;
+        const timer = setTimeout(() => {
+            this.retryTimers.delete(job.id);
+            // Timers may fire a millisecond before Date.now() reaches the due time, pump would skip the job
+            if (Date.parse(job.nextAttemptAt ?? '') > Date.now()) {
+                this.scheduleRetry(job);
+                return;
+            }
+            this.pump();
+        }, delay);
+        timer.unref();
+        this.retryTimers.set(job.id, timer);
+    }
+
+    private async update(job: DownloadJob, patch: Partial<DownloadJob>) {
+        Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+        await this.store.save(job);
+        progressHub.publish({
+            downloadId: job.id,
+            status: job.status,
+            progress: job.progress,
+            error: job.error,
+            errorCode: job.errorCode
+        });
+    }
+}
+
+export const jobManager = new JobManager(
+    new JsonStore<DownloadJob>(path.join(config.dataDir, 'jobs.json')),
+    { ...config.jobs, downloadDir: config.downloadDir }
+);
@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+
+export interface StoredRecord {
+    id: string;
+    createdAt: string;
+}
+
+/**
+ * Keeps records (jobs, batches) in memory and mirrors them to a JSON file so they
+ * survive a server restart. Writes are serialized and atomic (tmp + rename).
+ */
+export class JsonStore<T extends StoredRecord> {
+    private records = new Map<string, T>();
+    private writeChain: Promise<void> = Promise.resolve();
+
+    constructor(private readonly filePath: string) {}
+
+    async load(): Promise<T[]> {
+        try {
+            const raw = await fs.promises.readFile(this.filePath, 'utf8');
+            const records: T[] = JSON.parse(raw);
+            this.records = new Map(records.map(record => [record.id, record]));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                logger.error(`Failed to load store ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+            }
+            this.records = new Map();
+        }
+        return this.list();
+    }
+
+    list(): T[] {
+        return [...this.records.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    get(id: string): T | undefined {
+        return this.records.get(id);
+    }
+
+    save(record: T): Promise<void> {
+        this.records.set(record.id, record);
+        return this.persist();
+    }
+
+    delete(id: string): Promise<void> {
+        this.records.delete(id);
+        return this.persist();
+    }
+
+    private persist(): Promise<void> {
+        const snapshot = JSON.stringify(this.list(), null, 2);
+        this.writeChain = this.writeChain
+            .then(async () => {
+                const tempPath = `${this.filePath}.tmp`;
+                await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+                await fs.promises.writeFile(tempPath, snapshot, 'utf8');
+                await fs.promises.rename(tempPath, this.filePath);
+            })
+            .catch(error => {
+                logger.error(`Failed to persist store ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+            });
+        return this.writeChain;
+    }
+}
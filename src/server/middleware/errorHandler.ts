@@ -0,0 +1,16 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { DownloaderError } from '../utils/errors';
+
+export const errorHandler = (error: Error, req: Request, res: Response, _next: NextFunction) => {
+    logger.error(`${req.method} ${req.originalUrl} failed: ${error.message}`);
+    if (res.headersSent) {
+        res.destroy(error);
+        return;
+    }
+    if (error instanceof DownloaderError) {
+        res.status(error.statusCode).json(error.toResponse());
+        return;
+    }
+    res.status(500).json({ error: error.message || 'Internal server error', code: 'UNKNOWN' });
+};
@@ -0,0 +1,306 @@
+import { Request, Response, NextFunction } from 'express';
+import { body, param, query, matchedData, validationResult, ValidationChain } from 'express-validator';
+import { YouTubeDownloader } from '../utils/ytdl';
+import { YouTubePlaylist } from '../utils/playlist';
+import { DownloadOptions, ErrorResponse } from '../../shared/types';
+import { parseTimestamp } from '../../shared/time';
+import { MAX_FILENAME_TEMPLATE_LENGTH, unknownPlaceholders } from '../../shared/fileName';
+import { applyPreset, PRESET_NAMES } from '../utils/presets';
+
+type Location = 'body' | 'query';
+
+const source = (location: Location) => (location === 'body' ? body : query);
+
+const isTimestamp = (value: string | number) => {
+    if (parseTimestamp(value) === null) {
+        throw new Error('Time must be seconds or hh:mm:ss');
+    }
+    return true;
+};
+
+// Like isTimestamp, but zero is not a length
+const isDuration = (value: string | number) => {
+    if (!parseTimestamp(value)) {
+        throw new Error('Duration must be seconds or hh:mm:ss and longer than zero');
+    }
+    return true;
+};
+
+const isFileNameTemplate = (value: string) => {
+    const unknown = unknownPlaceholders(value);
+    if (unknown.length > 0) {
+        throw new Error(`Unknown filename placeholder(s): ${unknown.join(', ')}`);
+    }
+    return true;
+};
+
+// YouTube videos, HLS playlists and direct media links, whatever a provider can handle
+const isMediaUrl = (value: string) => {
+    if (!YouTubeDownloader.validateUrl(value)) {
+        throw new Error('URL must be a YouTube video, an HLS playlist or a direct link to a media file');
+    }
+    return true;
+};
+
+const isPlaylistUrl = (value: string) => {
+    if (!YouTubePlaylist.validateUrl(value)) {
+        throw new Error('URL must point to a YouTube playlist or channel');
+    }
+    return true;
+};
+
+const urlField = (location: Location) =>
+    source(location)('url')
+        .exists({ values: 'falsy' }).withMessage('URL is required')
+        .bail()
+        .isString().withMessage('URL must be a string')
+        .bail()
+        .trim();
+
+export const urlRules = (location: Location = 'body'): ValidationChain[] => [
+    urlField(location).custom(isMediaUrl)
+];
+
+// A bare playlist or channel URL has no video in it, so it must not go through isMediaUrl
+export const playlistUrlRules = (location: Location = 'body'): ValidationChain[] => [
+    urlField(location).custom(isPlaylistUrl)
+];
+
+// BCP-47-ish codes as YouTube uses them: en, pt-BR, zh-Hans
+const LANGUAGE_CODE_PATTERN = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/;
+
+export const captionRules = (location: Location = 'query'): ValidationChain[] => [
+    ...urlRules(location),
+    source(location)('lang')
+        .matches(LANGUAGE_CODE_PATTERN)
+        .withMessage('lang must be a language code such as en or pt-BR'),
+    source(location)('format')
+        .optional()
+        .isIn(['srt', 'vtt'])
+        .withMessage('Format must be srt or vtt'),
+    source(location)('auto')
+        .optional()
+        .isBoolean()
+        .withMessage('auto must be a boolean')
+        .toBoolean()
+];
+
+const DOWNLOAD_ID_PATTERN = /^[\w-]{1,64}$/;
+
+export const downloadIdRules = (): ValidationChain[] => [
+    param('downloadId')
+        .matches(DOWNLOAD_ID_PATTERN)
+        .withMessage('Download ID must be 1-64 letters, digits, dashes or underscores')
+];
+
+export const jobIdRules = (): ValidationChain[] => [
+    param('id')
+        .isUUID()
+        .withMessage('Job ID must be a UUID')
+];
+
+export const batchIdRules = (): ValidationChain[] => [
+    param('id')
+        .isUUID()
+        .withMessage('Batch ID must be a UUID')
+];
+
+export const historyIdRules = (): ValidationChain[] => [
+    param('id')
+        .isUUID()
+        .withMessage('History entry ID must be a UUID')
+];
+
+export const historyFilterRules = (): ValidationChain[] => [
+    query('search')
+        .optional()
+        .isString().withMessage('search must be a string')
+        .trim(),
+    query('author')
+        .optional()
+        .isString().withMessage('author must be a string'),
+    query('type')
+        .optional()
+        .isIn(['video', 'audio'])
+        .withMessage('type must be video or audio'),
+    query('status')
+        .optional()
+        .isIn(['completed', 'failed', 'cancelled'])
+        .withMessage('status must be one of completed, failed, cancelled'),
+    query('videoId')
+        .optional()
+        .isString().withMessage('videoId must be a string'),
+    query(['from', 'to'])
+        .optional()
+        .isDate({ format: 'YYYY-MM-DD', strictMode: true })
+        .withMessage('Dates must be given as YYYY-MM-DD')
+];
+
+const downloadOptionRules = (location: Location): ValidationChain[] => [
+    source(location)('downloadId')
+        .optional()
+        .matches(DOWNLOAD_ID_PATTERN)
+        .withMessage('Download ID must be 1-64 letters, digits, dashes or underscores'),
+    source(location)('quality')
+        .optional()
+        .isString().withMessage('Quality must be a string')
+        .trim(),
+    source(location)('videoItag')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('videoItag must be a positive integer')
+        .toInt(),
+    source(location)('audioItag')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('audioItag must be a positive integer')
+        .toInt(),
+    source(location)('filter')
+        .optional()
+        .isIn(['audioandvideo', 'videoonly', 'audioonly'])
+        .withMessage('Filter must be one of audioandvideo, videoonly, audioonly'),
+    source(location)('container')
+        .optional()
+        .isIn(['mp4', 'webm', 'mkv'])
+        .withMessage('Container must be one of mp4, webm, mkv'),
+    source(location)('allowTranscode')
+        .optional()
+        .isBoolean()
+        .withMessage('allowTranscode must be a boolean')
+        .toBoolean(),
+    source(location)('startTime')
+        .optional()
+        .custom(isTimestamp),
+    source(location)('endTime')
+        .optional()
+        .custom(isTimestamp),
+    source(location)('subtitles')
+        .optional()
+        .toArray(),
+    source(location)('subtitles.*')
+        .matches(LANGUAGE_CODE_PATTERN)
+        .withMessage('Subtitle languages must be codes such as en or pt-BR'),
+    source(location)('audioFormat')
+        .optional()
+        .isIn(['mp3', 'm4a', 'opus'])
+        .withMessage('Audio format must be one of mp3, m4a, opus'),
+    source(location)('audioBitrate')
+        .optional()
+        .isInt({ min: 32, max: 320 })
+        .withMessage('Audio bitrate must be between 32 and 320 kbps')
+        .toInt(),
+    source(location)('preset')
+        .optional()
+        .isIn(PRESET_NAMES)
+        .withMessage(`Preset must be one of ${PRESET_NAMES.join(', ')}`),
+    source(location)('targetSizeMb')
+        .if(source(location)('preset').equals('small'))
+        .exists()
+        .withMessage('targetSizeMb is required with preset small'),
+    source(location)('targetSizeMb')
+        .optional()
+        .isFloat({ min: 1, max: 4096 })
+        .withMessage('targetSizeMb must be between 1 and 4096')
+        .toFloat(),
+    source(location)('maxHeight')
+        .optional()
+        .isInt({ min: 144, max: 4320 })
+        .withMessage('maxHeight must be between 144 and 4320 pixels')
+        .toInt(),
+    source(location)('fps')
+        .optional()
+        .isInt({ min: 1, max: 120 })
+        .withMessage('fps must be between 1 and 120')
+        .toInt(),
+    source(location)('videoBitrate')
+        .optional()
+        .isInt({ min: 100, max: 50000 })
+        .withMessage('Video bitrate must be between 100 and 50000 kbps')
+        .toInt(),
+    source(location)('embedMetadata')
+        .optional()
+        .isBoolean()
+        .withMessage('embedMetadata must be a boolean')
+        .toBoolean(),
+    source(location)('embedThumbnail')
+        .optional()
+        .isBoolean()
+        .withMessage('embedThumbnail must be a boolean')
+        .toBoolean(),
+    source(location)('liveFromStart')
+        .optional()
+        .isBoolean()
+        .withMessage('liveFromStart must be a boolean')
+        .toBoolean(),
+    source(location)('maxDuration')
+        .optional()
+        .custom(isDuration),
+    source(location)('fileNameTemplate')
+        .optional()
+        .isString().withMessage('fileNameTemplate must be a string')
+        .bail()
+        .isLength({ min: 1, max: MAX_FILENAME_TEMPLATE_LENGTH })
+        .withMessage(`fileNameTemplate must be 1 to ${MAX_FILENAME_TEMPLATE_LENGTH} characters`)
+        .bail()
+        .custom(isFileNameTemplate)
+];
+
+export const downloadRules = (location: Location = 'body'): ValidationChain[] => [
+    ...urlRules(location),
+    ...downloadOptionRules(location)
+];
+
+const selectionRule = () =>
+    body('selection')
+        .optional()
+        .isString()
+        .matches(/^[\d\s,-]+$/)
+        .withMessage('Selection must look like "3-10" or "1,4,7-9"');
+
+export const batchRules = (): ValidationChain[] => [
+    ...playlistUrlRules('body'),
+    ...downloadOptionRules('body'),
+    selectionRule()
+];
+
+// Splitting by chapter picks chapters by number and sets each job's time range itself
+export const chapterSplitRules = (): ValidationChain[] => [
+    ...downloadRules('body'),
+    selectionRule()
+];
+
+// Picks the validated download options out of the request, dropping anything unset. A preset
+// fills in the options it fixes, so stored jobs and history entries show what was made
+export const getDownloadOptions = (req: Request): DownloadOptions => {
+    const {
+        quality, videoItag, audioItag, filter, container, allowTranscode,
+        audioFormat, audioBitrate, preset, targetSizeMb, maxHeight, fps, videoBitrate,
+        startTime, endTime, subtitles, embedMetadata, embedThumbnail, liveFromStart, maxDuration, fileNameTemplate
+    } = matchedData(req);
+    const options: DownloadOptions = applyPreset({
+        quality, videoItag, audioItag, filter, container, allowTranscode,
+        audioFormat, audioBitrate, preset, targetSizeMb, maxHeight, fps, videoBitrate,
+        startTime, endTime, subtitles, embedMetadata, embedThumbnail, liveFromStart, maxDuration, fileNameTemplate
+    });
+    return Object.fromEntries(
+        Object.entries(options).filter(([, value]) => value !== undefined)
+    ) as DownloadOptions;
+};
+
+export const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+    const result = validationResult(req);
+    if (!result.isEmpty()) {
+        const details = result.array().map(error => ({
+            field: error.type === 'field' ? error.path : error.type,
+            message: error.msg
+        }));
+        const response: ErrorResponse = {
+            error: 'Validation failed',
+            code: details.some(detail => detail.field === 'url') ? 'INVALID_URL' : 'INVALID_OPTIONS',
+            details
+        };
+        res.status(400).json(response);
+        return;
+    }
+    next();
+};
@@ -0,0 +1,180 @@
+import { Readable } from 'stream';
+import { VideoFormat } from '../../shared/types';
+import { DownloaderError } from '../utils/errors';
+import { probeMedia, ProbeResult } from '../utils/ffprobe';
+import { logger } from '../utils/logger';
+import { fetchOk, idFromUrl, isOk, request, titleFromUrl, toHttpUrl, urlExtension } from './http';
+import { MediaFormat, MediaInfo, MediaSourceProvider, toVideoFormat } from './types';
+
+const VIDEO_EXTENSIONS = ['mp4', 'm4v', 'mov', 'webm', 'mkv'];
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'aac', 'ogg', 'oga', 'opus', 'flac', 'wav'];
+// ISO media files are often written with the index after the media data, which a pipe cannot reach
+const SEEKABLE_EXTENSIONS = ['mp4', 'm4v', 'mov', 'm4a'];
+
+// ffprobe's codec names as the prefixes the output containers are matched against
+const CODEC_PREFIXES: Record<string, string> = {
+    h264: 'avc1',
+    hevc: 'hvc1',
+    av1: 'av01',
+    vp8: 'vp8',
+    vp9: 'vp9',
+    aac: 'mp4a',
+    opus: 'opus',
+    vorbis: 'vorbis',
+    mp3: 'mp3',
+    flac: 'flac'
+};
+
+// How often a dropped connection is picked up again with a Range request before giving up
+const MAX_RESUMES = 5;
+
+interface ResourceHead {
+    contentLength: number;
+    contentType: string;
+    lastModified?: string;
+    fileName?: string;
+}
+
+const parseFrameRate = (rate: string | undefined) => {
+    const [numerator, denominator] = (rate ?? '').split('/').map(Number);
+    return numerator && denominator ? Math.round(numerator / denominator) : undefined;
+};
+
+const fileNameFromDisposition = (header: string | null) => {
+    const match = /filename\*=UTF-8''([^;]+)|filename="?([^";]+)"?/i.exec(header ?? '');
+    if (!match) return undefined;
+    return match[1] ? decodeURIComponent(match[1]) : match[2];
+};
+
+/**
+ * A single media file served over plain HTTP, such as an mp4 or mp3 on a web server.
+ * Codecs and duration come from ffprobe when it is installed, the file is then
+ * streamed with Range requests so a dropped connection continues where it stopped.
+ */
+export class DirectMediaProvider implements MediaSourceProvider {
+    readonly name = 'Direct media';
+
+    canHandle(url: string): boolean {
+        const parsed = toHttpUrl(url);
+        return Boolean(parsed && [...VIDEO_EXTENSIONS, ...AUDIO_EXTENSIONS].includes(urlExtension(parsed)));
+    }
+
+    videoId(url: string): string {
+        return idFromUrl(url);
+    }
+
+    private async head(url: string): Promise<ResourceHead> {
+        let response = await request(url, { method: 'HEAD' });
+        response.resume();
+        // Some servers refuse HEAD, a one-byte range tells the same
+        if (!isOk(response)) {
+            response = await fetchOk(url, { headers: { Range: 'bytes=0-0' } });
+            response.destroy();
+        }
+
+        const { headers } = response;
+        const range = headers['content-range'];
+        return {
+            contentLength: Number(range ? range.split('/')[1] : headers['content-length']) || 0,
+            contentType: headers['content-type'] ?? '',
+            lastModified: headers['last-modified'],
+            fileName: fileNameFromDisposition(headers['content-disposition'] ?? null)
+        };
+    }
+
+    async getInfo(url: string): Promise<MediaInfo> {
+        const parsed = toHttpUrl(url);
+        if (!parsed) {
+            throw new DownloaderError('INVALID_URL', "Invalid media URL provided");
+        }
+
+        const head = await this.head(url);
+        // Without ffprobe the file is still downloadable, it just gets re-encoded more often
+        const probe: ProbeResult = await probeMedia(url).catch(error => {
+            logger.warn(`Could not probe ${url}: ${error instanceof Error ? error.message : error}`);
+            return {};
+        });
+
+        const streams = probe.streams ?? [];
+        const video = streams.find(stream => stream.codec_type === 'video' && !stream.disposition?.attached_pic);
+        const audio = streams.find(stream => stream.codec_type === 'audio');
+        const extension = urlExtension(parsed);
+        const hasVideo = probe.streams
+            ? Boolean(video)
+            : VIDEO_EXTENSIONS.includes(extension) || head.contentType.startsWith('video/');
+        const hasAudio = probe.streams ? Boolean(audio) : true;
+        const tags = probe.format?.tags ?? {};
+
+        const format: MediaFormat = {
+            itag: 1,
+            quality: video?.height ? `${video.height}p` : '',
+            hasAudio,
+            hasVideo,
+            container: extension,
+            contentLength: head.contentLength ? String(head.contentLength) : '',
+            videoCodec: video?.codec_name ? CODEC_PREFIXES[video.codec_name] ?? video.codec_name : undefined,
+            audioCodec: audio?.codec_name ? CODEC_PREFIXES[audio.codec_name] ?? audio.codec_name : undefined,
+            audioBitrate: audio?.bit_rate ? Math.round(Number(audio.bit_rate) / 1000) : undefined,
+            fps: parseFrameRate(video?.avg_frame_rate),
+            height: video?.height,
+            bitrate: Number(probe.format?.bit_rate) || undefined,
+            url,
+            needsSeekableInput: SEEKABLE_EXTENSIONS.includes(extension)
+        };
+
+        return {
+            details: {
+                videoId: this.videoId(url),
+                title: tags.title || head.fileName?.replace(/\.[^.]+$/, '') || titleFromUrl(parsed),
+                thumbnail: '',
+                duration: String(Math.round(Number(probe.format?.duration) || 0)),
+                author: tags.artist || tags.album_artist || parsed.hostname,
+                uploadDate: head.lastModified ? new Date(head.lastModified).toISOString() : undefined,
+                chapters: []
+            },
+            description: tags.comment || tags.description,
+            pageUrl: url,
+            thumbnails: [],
+            formats: [format],
+            captions: []
+        };
+    }
+
+    async listFormats(url: string): Promise<VideoFormat[]> {
+        return (await this.getInfo(url)).formats.map(toVideoFormat);
+    }
+
+    openStream(info: MediaInfo, format: MediaFormat, signal?: AbortSignal): Readable {
+        return Readable.from(this.download(format.url ?? info.pageUrl, Number(format.contentLength) || 0, 0, signal));
+    }
+
+    openStreamAt(info: MediaInfo, format: MediaFormat, start: number, signal?: AbortSignal): Readable {
+        return Readable.from(this.download(format.url ?? info.pageUrl, Number(format.contentLength) || 0, start, signal));
+    }
+
+    private async *download(url: string, totalBytes: number, start: number, signal?: AbortSignal): AsyncGenerator<Buffer> {
+        let received = start;
+        for (let resumes = 0; ; resumes++) {
+            const response = await fetchOk(url, {
+                signal,
+                headers: received > 0 ? { Range: `bytes=${received}-` } : undefined
+            });
+            if (received > 0 && response.statusCode !== 206) {
+                response.destroy();
+                throw new Error(`Cannot continue ${url} at byte ${received}, the server does not support resuming`);
+            }
+
+            try {
+                for await (const chunk of response as AsyncIterable<Buffer>) {
+                    received += chunk.length;
+                    yield chunk;
+                }
+                if (!totalBytes || received >= totalBytes) return;
+                throw new Error(`Connection closed after ${received} of ${totalBytes} bytes`);
+            } catch (error) {
+                if (signal?.aborted || resumes >= MAX_RESUMES) throw error;
+                logger.warn(`Resuming ${url} at byte ${received}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+    }
+}
@@ -0,0 +1,410 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { setTimeout as sleep } from 'timers/promises';
+import { VideoFormat } from '../../shared/types';
+import { DownloaderError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { fetchOk, idFromUrl, readAll, titleFromUrl, toHttpUrl, urlExtension } from './http';
+import { LiveStreamOptions, MediaFormat, MediaInfo, MediaSourceProvider, toVideoFormat } from './types';
+
+export interface ByteRange {
+    length: number;
+    offset: number;
+}
+
+export interface HlsVariant {
+    uri: string;
+    bandwidth: number;
+    height?: number;
+    fps?: number;
+    codecs: string[];
+    audioGroup?: string;
+}
+
+export interface HlsRendition {
+    uri: string;
+    groupId: string;
+    name: string;
+    language?: string;
+    isDefault: boolean;
+}
+
+export interface MasterPlaylist {
+    variants: HlsVariant[];
+    audio: HlsRendition[];
+}
+
+export interface HlsKey {
+    method: string;
+    uri?: string;
+    iv?: Buffer;
+}
+
+export interface HlsSegment {
+    uri: string;
+    duration: number;
+    sequence: number;
+    byteRange?: ByteRange;
+    key?: HlsKey;
+    // fMP4 streams have an initialisation section that has to precede their segments
+    map?: { uri: string; byteRange?: ByteRange };
+}
+
+export interface MediaPlaylist {
+    segments: HlsSegment[];
+    duration: number;
+    // Upper bound for a segment's length in seconds, live playlists are reloaded this often
+    targetDuration: number;
+    // No EXT-X-ENDLIST yet, the server keeps appending segments
+    isLive: boolean;
+}
+
+const VIDEO_CODECS = /^(avc1|avc3|hvc1|hev1|av01|vp09|vp8|vp9)/;
+const AUDIO_CODECS = /^(mp4a|ac-3|ec-3|opus|mp3|flac)/;
+
+// Segments are retried on their own, a long stream should not fail over one hiccup
+const MAX_SEGMENT_ATTEMPTS = 3;
+
+// Players join a live stream this many segments before the end of the playlist, RFC 8216 6.3.3
+const LIVE_EDGE_SEGMENTS = 3;
+
+// Keys and the current fMP4 init section carry over from one playlist reload to the next
+interface SegmentState {
+    keys: Map<string, Buffer>;
+    map?: HlsSegment['map'];
+}
+
+const parseAttributes = (list: string): Record<string, string> => {
+    const attributes: Record<string, string> = {};
+    for (const [, key, value] of list.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+        attributes[key] = value.replace(/^"|"$/g, '');
+    }
+    return attributes;
+};
+
+// "<length>[@<offset>]", a missing offset continues right after the previous range
+const parseByteRange = (value: string, previous?: ByteRange): ByteRange => {
+    const [length, offset] = value.split('@').map(Number);
+    return { length, offset: offset ?? (previous ? previous.offset + previous.length : 0) };
+};
+
+const lines = (text: string) => text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+export const isMasterPlaylist = (text: string): boolean => text.includes('#EXT-X-STREAM-INF');
+
+export const parseMasterPlaylist = (text: string, baseUrl: string): MasterPlaylist => {
+    const variants: HlsVariant[] = [];
+    const audio: HlsRendition[] = [];
+    let pending: Record<string, string> | null = null;
+
+    for (const line of lines(text)) {
+        if (line.startsWith('#EXT-X-STREAM-INF:')) {
+            pending = parseAttributes(line.slice('#EXT-X-STREAM-INF:'.length));
+        } else if (line.startsWith('#EXT-X-MEDIA:')) {
+            const attributes = parseAttributes(line.slice('#EXT-X-MEDIA:'.length));
+            // Renditions without a URI are carried inside the variant streams
+            if (attributes.TYPE === 'AUDIO' && attributes.URI) {
+                audio.push({
+                    uri: new URL(attributes.URI, baseUrl).toString(),
+                    groupId: attributes['GROUP-ID'],
+                    name: attributes.NAME ?? '',
+                    language: attributes.LANGUAGE,
+                    isDefault: attributes.DEFAULT === 'YES'
+                });
+            }
+        } else if (pending && !line.startsWith('#')) {
+            const [, height] = (pending.RESOLUTION ?? '').split('x').map(Number);
+            variants.push({
+                uri: new URL(line, baseUrl).toString(),
+                bandwidth: Number(pending['AVERAGE-BANDWIDTH'] ?? pending.BANDWIDTH) || 0,
+                height: height || undefined,
+                fps: pending['FRAME-RATE'] ? Math.round(Number(pending['FRAME-RATE'])) : undefined,
+                codecs: pending.CODECS ? pending.CODECS.split(',').map(codec => codec.trim()) : [],
+                audioGroup: pending.AUDIO
+            });
+            pending = null;
+        }
+    }
+
+    return { variants, audio };
+};
+
+export const parseMediaPlaylist = (text: string, baseUrl: string): MediaPlaylist => {
+    const segments: HlsSegment[] = [];
+    let sequence = 0;
+    let targetDuration = 0;
+    let duration: number | null = null;
+    let byteRange: ByteRange | undefined;
+    let previousRange: ByteRange | undefined;
+    let key: HlsKey | undefined;
+    let map: HlsSegment['map'];
+    let ended = false;
+
+    for (const line of lines(text)) {
+        if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+            sequence = Number(line.slice('#EXT-X-MEDIA-SEQUENCE:'.length)) || 0;
+        } else if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+            targetDuration = Number(line.slice('#EXT-X-TARGETDURATION:'.length)) || 0;
+        } else if (line.startsWith('#EXTINF:')) {
+            duration = parseFloat(line.slice('#EXTINF:'.length)) || 0;
+        } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+            byteRange = parseByteRange(line.slice('#EXT-X-BYTERANGE:'.length), previousRange);
+        } else if (line.startsWith('#EXT-X-KEY:')) {
+            const attributes = parseAttributes(line.slice('#EXT-X-KEY:'.length));
+            key = attributes.METHOD === 'NONE' ? undefined : {
+                method: attributes.METHOD,
+                uri: attributes.URI ? new URL(attributes.URI, baseUrl).toString() : undefined,
+                iv: attributes.IV ? Buffer.from(attributes.IV.replace(/^0x/i, '').padStart(32, '0'), 'hex') : undefined
+            };
+        } else if (line.startsWith('#EXT-X-MAP:')) {
+            const attributes = parseAttributes(line.slice('#EXT-X-MAP:'.length));
+            map = {
+                uri: new URL(attributes.URI, baseUrl).toString(),
+                byteRange: attributes.BYTERANGE ? parseByteRange(attributes.BYTERANGE) : undefined
+            };
+        } else if (line === '#EXT-X-ENDLIST') {
+            ended = true;
+        } else if (!line.startsWith('#') && duration !== null) {
+            segments.push({ uri: new URL(line, baseUrl).toString(), duration, sequence, byteRange, key, map });
+            previousRange = byteRange;
+            byteRange = undefined;
+            duration = null;
+            sequence++;
+        }
+    }
+
+    return {
+        segments,
+        duration: segments.reduce((total, segment) => total + segment.duration, 0),
+        targetDuration,
+        isLive: !ended
+    };
+};
+
+const fetchText = async (url: string, signal?: AbortSignal) =>
+    (await readAll(await fetchOk(url, { signal }))).toString('utf8');
+
+const fetchBytes = async (url: string, byteRange?: ByteRange, signal?: AbortSignal): Promise<Buffer> => {
+    const response = await fetchOk(url, {
+        signal,
+        headers: byteRange ? { Range: `bytes=${byteRange.offset}-${byteRange.offset + byteRange.length - 1}` } : undefined
+    });
+    return readAll(response);
+};
+
+// Without an IV attribute the segment's media sequence number is the IV
+const segmentIv = (segment: HlsSegment) => {
+    if (segment.key?.iv) return segment.key.iv;
+    const iv = Buffer.alloc(16);
+    iv.writeUInt32BE(segment.sequence, 12);
+    return iv;
+};
+
+const describeCodecs = (codecs: string[]) => ({
+    videoCodec: codecs.find(codec => VIDEO_CODECS.test(codec)),
+    audioCodec: codecs.find(codec => AUDIO_CODECS.test(codec))
+});
+
+// AAC in MPEG-TS segments has ADTS headers, without advertised codecs it may be AAC too
+const mayBeAdts = (hasAudio: boolean, audioCodec?: string) =>
+    hasAudio && (!audioCodec || audioCodec.startsWith('mp4a'));
+
+/**
+ * HTTP Live Streaming playlists (.m3u8). A master playlist offers one format per variant
+ * plus one per separate audio rendition. Segments are fetched in order, decrypted when
+ * they use AES-128, and concatenated into a single stream for ffmpeg.
+ */
+export class HlsProvider implements MediaSourceProvider {
+    readonly name = 'HLS';
+
+    canHandle(url: string): boolean {
+        const parsed = toHttpUrl(url);
+        return Boolean(parsed && urlExtension(parsed) === 'm3u8');
+    }
+
+    videoId(url: string): string {
+        return idFromUrl(url);
+    }
+
+    async getInfo(url: string): Promise<MediaInfo> {
+        const parsed = toHttpUrl(url);
+        if (!parsed) {
+            throw new DownloaderError('INVALID_URL', "Invalid HLS playlist URL provided");
+        }
+
+        const text = await fetchText(url);
+        if (!text.trimStart().startsWith('#EXTM3U')) {
+            throw new DownloaderError('INVALID_URL', `${url} is not an HLS playlist`);
+        }
+
+        let formats: MediaFormat[];
+        let media: MediaPlaylist;
+        if (isMasterPlaylist(text)) {
+            const master = parseMasterPlaylist(text, url);
+            if (master.variants.length === 0) {
+                throw new DownloaderError('NO_FORMATS', "The playlist has no variant streams");
+            }
+            media = parseMediaPlaylist(await fetchText(master.variants[0].uri), master.variants[0].uri);
+            formats = this.toFormats(master, media.duration);
+        } else {
+            media = parseMediaPlaylist(text, url);
+            formats = [{
+                itag: 1,
+                quality: '',
+                hasAudio: true,
+                hasVideo: true,
+                container: 'hls',
+                contentLength: '',
+                adtsAudio: true,
+                url
+            }];
+        }
+
+        return {
+            details: {
+                videoId: this.videoId(url),
+                title: titleFromUrl(parsed),
+                thumbnail: '',
+                duration: String(Math.round(media.duration)),
+                author: parsed.hostname,
+                chapters: [],
+                isLive: media.isLive
+            },
+            pageUrl: url,
+            thumbnails: [],
+            formats,
+            captions: []
+        };
+    }
+
+    private toFormats(master: MasterPlaylist, duration: number): MediaFormat[] {
+        const groupsWithAudio = new Set(master.audio.map(rendition => rendition.groupId));
+        const variants: MediaFormat[] = master.variants.map((variant, index) => {
+            const { videoCodec, audioCodec } = describeCodecs(variant.codecs);
+            const separateAudio = variant.audioGroup !== undefined && groupsWithAudio.has(variant.audioGroup);
+            const hasAudio = !separateAudio && (variant.codecs.length === 0 || Boolean(audioCodec));
+            return {
+                itag: index + 1,
+                quality: variant.height ? `${variant.height}p` : '',
+                hasVideo: variant.codecs.length === 0 || Boolean(videoCodec),
+                hasAudio,
+                container: 'hls',
+                // Estimated from the advertised bandwidth, HLS does not say how large a stream is
+                contentLength: variant.bandwidth && duration ? String(Math.round(variant.bandwidth / 8 * duration)) : '',
+                videoCodec,
+                audioCodec: separateAudio ? undefined : audioCodec,
+                fps: variant.fps,
+                height: variant.height,
+                bitrate: variant.bandwidth || undefined,
+                adtsAudio: mayBeAdts(hasAudio, audioCodec),
+                url: variant.uri
+            };
+        });
+
+        // The default rendition first, so it wins among audio formats that otherwise rank equal
+        const renditions = [...new Map(master.audio.map(rendition => [rendition.uri, rendition])).values()]
+            .sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+        const audio: MediaFormat[] = renditions.map((rendition, index) => {
+            const { audioCodec } = describeCodecs(
+                master.variants.find(variant => variant.audioGroup === rendition.groupId)?.codecs ?? []
+            );
+            return {
+                itag: variants.length + index + 1,
+                quality: '',
+                hasVideo: false,
+                hasAudio: true,
+                container: 'hls',
+                contentLength: '',
+                audioCodec,
+                adtsAudio: mayBeAdts(true, audioCodec),
+                url: rendition.uri
+            };
+        });
+
+        return [...variants, ...audio];
+    }
+
+    async listFormats(url: string): Promise<VideoFormat[]> {
+        return (await this.getInfo(url)).formats.map(toVideoFormat);
+    }
+
+    openStream(info: MediaInfo, format: MediaFormat, signal?: AbortSignal): Readable {
+        return Readable.from(this.download(format.url ?? info.pageUrl, signal));
+    }
+
+    openLiveStream(info: MediaInfo, format: MediaFormat, options: LiveStreamOptions): Readable {
+        return Readable.from(this.follow(format.url ?? info.pageUrl, options.fromStart, options.signal));
+    }
+
+    private async *download(url: string, signal?: AbortSignal): AsyncGenerator<Buffer> {
+        const playlist = parseMediaPlaylist(await fetchText(url, signal), url);
+        yield* this.readSegments(playlist.segments, { keys: new Map() }, signal);
+    }
+
+    // Reloads a live playlist and yields each new segment once, until the stream ends or is aborted
+    private async *follow(url: string, fromStart: boolean, signal?: AbortSignal): AsyncGenerator<Buffer> {
+        const state: SegmentState = { keys: new Map() };
+        let nextSequence: number | null = null;
+
+        while (true) {
+            const playlist = parseMediaPlaylist(await fetchText(url, signal), url);
+            if (nextSequence === null) {
+                const start = fromStart ? 0 : Math.max(0, playlist.segments.length - LIVE_EDGE_SEGMENTS);
+                nextSequence = playlist.segments[start]?.sequence ?? 0;
+            }
+
+            const fresh = playlist.segments.filter(segment => segment.sequence >= (nextSequence ?? 0));
+            if (fresh.length > 0 && fresh[0].sequence > nextSequence) {
+                logger.warn(`${url} dropped segments ${nextSequence}-${fresh[0].sequence - 1} before they were fetched`);
+            }
+            yield* this.readSegments(fresh, state, signal);
+            if (fresh.length > 0) nextSequence = fresh[fresh.length - 1].sequence + 1;
+
+            if (!playlist.isLive) return;
+            // Half the target duration when nothing was new, as RFC 8216 6.3.4 asks of clients
+            const targetMs = (playlist.targetDuration || 6) * 1000;
+            await sleep(fresh.length > 0 ? targetMs : targetMs / 2, undefined, { signal });
+        }
+    }
+
+    private async *readSegments(segments: HlsSegment[], state: SegmentState, signal?: AbortSignal): AsyncGenerator<Buffer> {
+        const unsupported = segments.find(segment => segment.key && segment.key.method !== 'AES-128');
+        if (unsupported) {
+            throw new DownloaderError('NO_FORMATS', `Segments encrypted with ${unsupported.key?.method} cannot be downloaded`);
+        }
+
+        for (const segment of segments) {
+            // Reloaded playlists parse into new objects, so maps are compared by where they point
+            if (segment.map && (segment.map.uri !== state.map?.uri
+                || segment.map.byteRange?.offset !== state.map?.byteRange?.offset)) {
+                yield await this.fetchWithRetry(segment.map.uri, segment.map.byteRange, signal);
+                state.map = segment.map;
+            }
+
+            const data = await this.fetchWithRetry(segment.uri, segment.byteRange, signal);
+            if (!segment.key?.uri) {
+                yield data;
+                continue;
+            }
+
+            let key = state.keys.get(segment.key.uri);
+            if (!key) {
+                key = await this.fetchWithRetry(segment.key.uri, undefined, signal);
+                state.keys.set(segment.key.uri, key);
+            }
+            const decipher = crypto.createDecipheriv('aes-128-cbc', key, segmentIv(segment));
+            yield Buffer.concat([decipher.update(data), decipher.final()]);
+        }
+    }
+
+    private async fetchWithRetry(url: string, byteRange?: ByteRange, signal?: AbortSignal): Promise<Buffer> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await fetchBytes(url, byteRange, signal);
+            } catch (error) {
+                if (signal?.aborted || attempt >= MAX_SEGMENT_ATTEMPTS) throw error;
+                logger.warn(`Retrying ${url} (attempt ${attempt + 1}): ${error instanceof Error ? error.message : error}`);
+            }
+        }
+    }
+}
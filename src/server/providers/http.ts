@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import path from 'path';
+
+// Playlist and file names that say nothing about the content, the directory above is used instead
+const GENERIC_NAMES = ['index', 'master', 'playlist', 'main', 'manifest', 'prog_index', 'video', 'stream'];
+
+export const toHttpUrl = (input: string): URL | null => {
+    try {
+        const url = new URL(input.trim());
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+    } catch {
+        return null;
+    }
+};
+
+// Lower-cased extension of the URL's path without the dot, '' when there is none
+export const urlExtension = (url: URL): string => path.posix.extname(url.pathname).slice(1).toLowerCase();
+
+// Stands in for a video ID in file names and history, the same URL always gets the same one
+export const idFromUrl = (url: string): string =>
+    crypto.createHash('sha1').update(url).digest('hex').slice(0, 11);
+
+const decodeSegment = (segment: string) => {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+};
+
+export const titleFromUrl = (url: URL): string => {
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeSegment);
+    for (let i = segments.length - 1; i >= 0; i--) {
+        const name = segments[i].replace(/\.[^.]+$/, '');
+        if (name && !GENERIC_NAMES.includes(name.toLowerCase())) return name;
+    }
+    return url.hostname;
+};
+
+export interface HttpRequestOptions {
+    method?: string;
+    headers?: Record<string, string>;
+    signal?: AbortSignal;
+}
+
+const MAX_REDIRECTS = 5;
+
+/**
+ * GET (or HEAD) through node:http/https, following redirects. Sources, captions and cover art do
+ * not use the global fetch: importing ytdl-core swaps its dispatcher for an undici that crashes the
+ * process when a close-delimited body (HTTP/1.0, Connection: close) meets backpressure.
+ */
+export const request = (url: string | URL, options: HttpRequestOptions = {}, redirects = 0): Promise<IncomingMessage> =>
+    new Promise((resolve, reject) => {
+        const target = new URL(url);
+        const client = target.protocol === 'https:' ? https : http;
+        const req = client.request(target, {
+            method: options.method ?? 'GET',
+            headers: options.headers,
+            signal: options.signal
+        }, (response) => {
+            const status = response.statusCode ?? 0;
+            const location = response.headers.location;
+            if (status < 300 || status >= 400 || !location) {
+                resolve(response);
+                return;
+            }
+            response.resume();
+            if (redirects >= MAX_REDIRECTS) {
+                reject(new Error(`Request to ${url} failed: too many redirects`));
+                return;
+            }
+            request(new URL(location, target), options, redirects + 1).then(resolve, reject);
+        });
+        req.on('error', reject);
+        req.end();
+    });
+
+export const isOk = (response: IncomingMessage) =>
+    (response.statusCode ?? 0) >= 200 && (response.statusCode ?? 0) < 300;
+
+// Same "Status code: N" wording ytdl-core uses, so classifyError treats both alike
+export const fetchOk = async (url: string | URL, options?: HttpRequestOptions): Promise<IncomingMessage> => {
+    const response = await request(url, options);
+    if (!isOk(response)) {
+        response.destroy();
+        throw new Error(`Request to ${url} failed: Status code: ${response.statusCode}`);
+    }
+    return response;
+};
+
+// The whole body, for playlists, keys and segments
+export const readAll = async (response: IncomingMessage): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of response) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+};
@@ -0,0 +1,29 @@
+import { DownloaderError } from '../utils/errors';
+import { DirectMediaProvider } from './direct';
+import { HlsProvider } from './hls';
+import { MediaSourceProvider } from './types';
+import { YouTubeProvider } from './youtube';
+
+export type { LiveStreamOptions, MediaFormat, MediaInfo, MediaSourceProvider, MediaThumbnail } from './types';
+export { toVideoFormat } from './types';
+
+// First match wins, so the more specific providers go first
+const providers: MediaSourceProvider[] = [
+    new YouTubeProvider(),
+    new HlsProvider(),
+    new DirectMediaProvider()
+];
+
+export const findProvider = (url: string): MediaSourceProvider | null =>
+    providers.find(provider => provider.canHandle(url)) ?? null;
+
+export const getProvider = (url: string): MediaSourceProvider => {
+    const provider = findProvider(url);
+    if (!provider) {
+        throw new DownloaderError(
+            'INVALID_URL',
+            "Unsupported URL, expected a YouTube video, an HLS playlist or a direct link to a media file"
+        );
+    }
+    return provider;
+};
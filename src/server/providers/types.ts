@@ -0,0 +1,77 @@
+import { Readable } from 'stream';
+import { CaptionTrack, VideoDetails, VideoFormat } from '../../shared/types';
+import { Cue } from '../utils/captions';
+
+export interface MediaThumbnail {
+    url: string;
+    width: number;
+    height: number;
+}
+
+// A format as the download pipeline sees it, `itag` is only unique within one MediaInfo
+export interface MediaFormat extends VideoFormat {
+    height?: number;
+    // Bits per second, used to rank formats of the same resolution
+    bitrate?: number;
+    // Where the provider fetches this format from, when that is not the page URL
+    url?: string;
+    // ffmpeg has to seek in the source, e.g. an mp4 that may keep its index at the end.
+    // Such formats are downloaded to a temp file before muxing instead of being piped
+    needsSeekableInput?: boolean;
+    // AAC that may come with ADTS headers (MPEG-TS), which only carry the codec config
+    // in each packet. A piped Matroska output needs it up front, so such audio is remuxed first
+    adtsAudio?: boolean;
+}
+
+export interface MediaInfo {
+    details: VideoDetails;
+    description?: string;
+    // The URL that is tagged as the file's source
+    pageUrl: string;
+    thumbnails: MediaThumbnail[];
+    formats: MediaFormat[];
+    captions: CaptionTrack[];
+    // Milliseconds since the epoch at which signed stream URLs stop working, unset when they do not expire
+    expiresAt?: number;
+}
+
+export interface LiveStreamOptions {
+    // Begin at the oldest segment the stream still offers rather than at the live edge
+    fromStart: boolean;
+    signal?: AbortSignal;
+}
+
+/**
+ * A site or protocol media can be downloaded from. Providers only resolve URLs and
+ * hand out raw streams, format selection, trimming and muxing happen in YouTubeDownloader
+ * so every source goes through the same ffmpeg pipeline.
+ */
+export interface MediaSourceProvider {
+    readonly name: string;
+    canHandle(url: string): boolean;
+    // Identifies the video behind a URL, different URLs for the same video give the same ID
+    videoId(url: string): string;
+    getInfo(url: string): Promise<MediaInfo>;
+    listFormats(url: string): Promise<VideoFormat[]>;
+    openStream(info: MediaInfo, format: MediaFormat, signal?: AbortSignal): Readable;
+    // Only providers whose formats are single files implement this, continues a partial download at byte `start`
+    openStreamAt?(info: MediaInfo, format: MediaFormat, start: number, signal?: AbortSignal): Readable;
+    // Only providers with live sources implement this, the stream ends when the broadcast does
+    openLiveStream?(info: MediaInfo, format: MediaFormat, options: LiveStreamOptions): Readable;
+    // Only providers that have caption tracks implement this
+    fetchCaptions?(info: MediaInfo, languageCode: string, autoGenerated?: boolean): Promise<Cue[]>;
+}
+
+// The public part of a MediaFormat, as returned by the formats endpoint
+export const toVideoFormat = (format: MediaFormat): VideoFormat => ({
+    itag: format.itag,
+    quality: format.quality,
+    hasAudio: format.hasAudio,
+    hasVideo: format.hasVideo,
+    container: format.container,
+    contentLength: format.contentLength,
+    videoCodec: format.videoCodec,
+    audioCodec: format.audioCodec,
+    audioBitrate: format.audioBitrate,
+    fps: format.fps
+});
@@ -0,0 +1,141 @@
+import ytdl from '@distube/ytdl-core';
+import { Readable } from 'stream';
+import { VideoFormat } from '../../shared/types';
+import { parseYouTubeUrl, videoUrl } from '../../shared/youtubeUrl';
+import { Cue, fetchCaptionCues, listCaptionTracks } from '../utils/captions';
+import { getChapters } from '../utils/chapters';
+import { DownloaderError } from '../utils/errors';
+import { LiveStreamOptions, MediaFormat, MediaInfo, MediaSourceProvider, toVideoFormat } from './types';
+
+// Keeps ytdl's own info around for captions and stream requests
+interface YouTubeMediaInfo extends MediaInfo {
+    source: ytdl.videoInfo;
+}
+
+const toMediaFormat = (format: ytdl.videoFormat): MediaFormat => ({
+    itag: format.itag,
+    quality: format.qualityLabel,
+    hasAudio: format.hasAudio,
+    hasVideo: format.hasVideo,
+    container: format.container,
+    contentLength: format.contentLength,
+    videoCodec: format.videoCodec,
+    audioCodec: format.audioCodec,
+    audioBitrate: format.audioBitrate ?? undefined,
+    fps: format.fps,
+    height: format.height,
+    bitrate: format.bitrate ?? undefined
+});
+
+// Stream URLs are signed until an `expire` timestamp, a query parameter on media URLs and a
+// path segment on HLS manifests
+const urlExpiry = (url: string): number | undefined => {
+    const seconds = Number(/[?&/]expire[=/](\d+)/.exec(url)?.[1]);
+    return seconds ? seconds * 1000 : undefined;
+};
+
+// ytdl's streams replace _destroy and never close, so a pipeline reading one would wait
+// forever once it is destroyed. The close is announced for them
+const destroyOnAbort = (stream: Readable, signal?: AbortSignal): Readable => {
+    const abort = () => {
+        stream.destroy();
+        stream.emit('close');
+    };
+    if (signal?.aborted) {
+        process.nextTick(abort);
+    } else {
+        signal?.addEventListener('abort', abort, { once: true });
+    }
+    return stream;
+};
+
+export class YouTubeProvider implements MediaSourceProvider {
+    readonly name = 'YouTube';
+
+    canHandle(url: string): boolean {
+        return Boolean(parseYouTubeUrl(url)?.videoId);
+    }
+
+    videoId(url: string): string {
+        const videoId = parseYouTubeUrl(url)?.videoId;
+        if (!videoId) {
+            throw new DownloaderError('INVALID_URL', "Invalid YouTube URL provided");
+        }
+        return videoId;
+    }
+
+    async getInfo(url: string): Promise<YouTubeMediaInfo> {
+        // ytdl-core only knows some of YouTube's URL shapes, so it always gets the canonical watch URL
+        const info = await ytdl.getInfo(videoUrl(this.videoId(url)));
+        if (!info?.videoDetails) {
+            throw new DownloaderError('VIDEO_UNAVAILABLE', "Failed to fetch video details");
+        }
+        const details = info.videoDetails;
+        const broadcast = details.liveBroadcastDetails;
+        const isLive = Boolean(details.isLive || broadcast?.isLiveNow);
+        // While on air only the HLS formats can be streamed, the adaptive ones are not segmented
+        const formats = (info.formats ?? []).filter(format => !isLive || format.isHLS);
+        const expiries = formats.map(format => urlExpiry(format.url)).filter((expiry): expiry is number => Boolean(expiry));
+        return {
+            details: {
+                videoId: details.videoId,
+                title: details.title,
+                thumbnail: details.thumbnails[0]?.url ?? '',
+                duration: details.lengthSeconds,
+                author: details.author.name,
+                uploadDate: details.uploadDate || details.publishDate || undefined,
+                chapters: getChapters(info),
+                isLive,
+                isUpcoming: Boolean(!isLive && broadcast && !broadcast.endTimestamp)
+            },
+            description: details.description ?? undefined,
+            pageUrl: details.video_url,
+            thumbnails: details.thumbnails,
+            formats: formats.map(toMediaFormat),
+            captions: listCaptionTracks(info),
+            expiresAt: expiries.length > 0 ? Math.min(...expiries) : undefined,
+            source: info
+        };
+    }
+
+    async listFormats(url: string): Promise<VideoFormat[]> {
+        const info = await this.getInfo(url);
+        if (info.formats.length === 0) {
+            throw new DownloaderError('NO_FORMATS', "No formats available for this video");
+        }
+        return info.formats.map(toVideoFormat);
+    }
+
+    private findSource(info: YouTubeMediaInfo, format: MediaFormat): ytdl.videoFormat {
+        const source = info.source.formats.find(candidate => candidate.itag === format.itag);
+        if (!source) {
+            throw new DownloaderError('INVALID_OPTIONS', `Format ${format.itag} is not available for this video`);
+        }
+        return source;
+    }
+
+    // ytdl takes no signal, destroying the stream also ends its request
+    openStream(info: YouTubeMediaInfo, format: MediaFormat, signal?: AbortSignal): Readable {
+        return destroyOnAbort(ytdl(info.pageUrl, { format: this.findSource(info, format) }), signal);
+    }
+
+    // ytdl resolves the video again, so a continuation gets freshly signed URLs however old the partial download is
+    openStreamAt(info: YouTubeMediaInfo, format: MediaFormat, start: number, signal?: AbortSignal): Readable {
+        return destroyOnAbort(ytdl(info.pageUrl, { quality: format.itag, range: { start } }), signal);
+    }
+
+    openLiveStream(info: YouTubeMediaInfo, format: MediaFormat, options: LiveStreamOptions): Readable {
+        // ytdl starts live formats at Date.now(), an earlier timestamp reaches back into the DVR
+        // window as far as YouTube keeps it
+        const startedAt = Date.parse(info.source.videoDetails.liveBroadcastDetails?.startTimestamp ?? '');
+        const stream = ytdl.downloadFromInfo(info.source, {
+            format: this.findSource(info, format),
+            begin: options.fromStart ? startedAt || 1 : Date.now()
+        });
+        return destroyOnAbort(stream, options.signal);
+    }
+
+    fetchCaptions(info: YouTubeMediaInfo, languageCode: string, autoGenerated?: boolean): Promise<Cue[]> {
+        return fetchCaptionCues(info.source, languageCode, autoGenerated);
+    }
+}
@@ -0,0 +1,175 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { matchedData } from 'express-validator';
+import { YouTubeDownloader } from '../utils/ytdl';
+import { logger } from '../utils/logger';
+import { classifyError, DownloaderError } from '../utils/errors';
+import { progressHub } from '../utils/progress';
+import { fileNameForVideo, toContentDisposition } from '../utils/filename';
+import { resolveEncoding } from '../utils/presets';
+import { historyManager } from '../jobs/historyManager';
+import { jobManager } from '../jobs/jobManager';
+import { urlRules, downloadRules, handleValidationErrors, getDownloadOptions } from '../middleware/validation';
+import { config } from '../config';
+import { HistoryStatus } from '../../shared/types';
+
+const router = Router();
+
+router.post('/video-info', urlRules(), handleValidationErrors, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { url } = matchedData(req);
+        const details = await YouTubeDownloader.getVideoInfo(url);
+        res.json(details);
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.post('/formats', urlRules(), handleValidationErrors, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { url } = matchedData(req);
+        const formats = await YouTubeDownloader.getVideoFormats(url);
+        res.json(formats);
+    } catch (error) {
+        next(error);
+    }
+});
+
+const handleDownload = async (req: Request, res: Response, next: NextFunction) => {
+    const { url, downloadId } = matchedData(req);
+    const options = getDownloadOptions(req);
+
+    const publishFailure = (error: unknown) => {
+        if (downloadId) {
+            const { code, message } = classifyError(error);
+            progressHub.publish({ downloadId, status: 'failed', error: message, errorCode: code });
+        }
+    };
+
+    // Streamed downloads are muxed on the fly and cannot serve ranges, a job that already made the
+    // same file can. Browsers and the extension follow the redirect and resume with Range/If-Range
+    const finished = jobManager.findCompleted(url, options);
+    if (finished) {
+        if (downloadId) {
+            progressHub.publish({ downloadId, status: 'completed' });
+        }
+        res.redirect(303, `${req.baseUrl}/jobs/${finished.id}/file`);
+        return;
+    }
+
+    // Aborted when the client goes away, also while the source is still downloading or ffmpeg runs
+    const controller = new AbortController();
+    const abortIfUnfinished = () => {
+        if (!res.writableFinished) controller.abort();
+    };
+    req.on('close', abortIfUnfinished);
+    res.on('close', abortIfUnfinished);
+
+    let size = 0;
+    // Set once the video is known, a request that fails before that has nothing to record
+    let recordHistory: (status: HistoryStatus, error?: unknown) => void = () => {};
+
+    try {
+        if (downloadId) {
+            progressHub.publish({
+                downloadId,
+                status: 'downloading',
+                progress: { phase: 'resolving', downloadedBytes: 0, totalBytes: 0, percentage: 0 }
+            });
+        }
+
+        const info = await YouTubeDownloader.getMediaInfo(url);
+        const details = info.details;
+        // Rejected with INVALID_OPTIONS before any headers go out, so the client gets a 400
+        const clip = YouTubeDownloader.resolveClipRange(options, Number(details.duration) || 0);
+        if (!details.isLive) resolveEncoding(options, clip ? clip.end - clip.start : Number(details.duration) || 0);
+
+        const output = YouTubeDownloader.describeOutput(options);
+        const fileName = fileNameForVideo(options.fileNameTemplate ?? config.fileNameTemplate, details, output.extension);
+        // Only the first outcome counts, a failed stream also closes the response
+        let recorded = false;
+        recordHistory = (status, error) => {
+            if (recorded) return;
+            recorded = true;
+            const failure = error === undefined ? undefined : classifyError(error);
+            historyManager.record({
+                url,
+                details,
+                options,
+                status,
+                fileName,
+                size,
+                error: failure?.message,
+                errorCode: failure?.code
+            });
+        };
+
+        const stream = await YouTubeDownloader.createDownloadStream(url, options, (progress) => {
+            if (downloadId) {
+                progressHub.publish({ downloadId, status: 'downloading', progress });
+            }
+        }, { info, signal: controller.signal });
+        if (controller.signal.aborted) {
+            stream.destroy();
+            throw new DownloaderError('CANCELLED', 'Download aborted by client');
+        }
+
+        // Held back until the first byte, a stream that fails before that still gets a JSON error
+        const sendHeaders = () => {
+            if (res.headersSent) return;
+            res.setHeader('Content-Type', output.mimeType);
+            res.setHeader('Content-Disposition', toContentDisposition(fileName));
+            // Muxed while it streams, so there is no fixed file to serve ranges of. Finished jobs are handed over above
+            res.setHeader('Accept-Ranges', 'none');
+        };
+
+        stream.on('error', (error) => {
+            logger.error(`Download stream failed for ${url}: ${error.message}`);
+            YouTubeDownloader.forgetInfo(url);
+            publishFailure(error);
+            recordHistory('failed', error);
+            if (!res.headersSent) {
+                next(error);
+            } else {
+                res.destroy(error);
+            }
+        });
+
+        // Registered before the pipe, so the headers are in place when it writes
+        stream.on('data', (chunk: Buffer) => {
+            sendHeaders();
+            size += chunk.length;
+        });
+
+        stream.on('end', () => {
+            sendHeaders();
+            recordHistory('completed');
+            if (downloadId) {
+                progressHub.publish({ downloadId, status: 'completed', progress: progressHub.get(downloadId)?.progress });
+            }
+        });
+
+        // Stop the pipeline if the client goes away before we finish
+        controller.signal.addEventListener('abort', () => {
+            logger.info(`Client aborted download for ${url}`);
+            publishFailure(new DownloaderError('CANCELLED', 'Download aborted by client'));
+            recordHistory('cancelled');
+            stream.destroy();
+        }, { once: true });
+
+        stream.pipe(res);
+    } catch (error) {
+        publishFailure(error);
+        // Nobody is left to answer
+        if (controller.signal.aborted) {
+            logger.info(`Client aborted download for ${url}`);
+            recordHistory('cancelled');
+            return;
+        }
+        next(error);
+    }
+};
+
+router.get('/download', downloadRules('query'), handleValidationErrors, handleDownload);
+router.post('/download', downloadRules('body'), handleValidationErrors, handleDownload);
+
+export default router;
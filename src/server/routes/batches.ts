@@ -0,0 +1,98 @@
+import fs from 'fs';
+import { ZipArchive } from 'archiver';
+import { Router, Request, Response, NextFunction } from 'express';
+import { matchedData } from 'express-validator';
+import { batchManager, BatchNotFoundError, BatchSelectionError } from '../jobs/batchManager';
+import { jobManager } from '../jobs/jobManager';
+import { batchRules, batchIdRules, chapterSplitRules, handleValidationErrors, getDownloadOptions } from '../middleware/validation';
+import { toContentDisposition } from '../utils/filename';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+const handleBatchError = (error: unknown, res: Response, next: NextFunction) => {
+    if (error instanceof BatchNotFoundError) {
+        res.status(404).json({ error: error.message });
+    } else if (error instanceof BatchSelectionError) {
+        res.status(400).json({ error: error.message });
+    } else {
+        next(error);
+    }
+};
+
+router.get('/', (_req: Request, res: Response) => {
+    res.json(batchManager.list());
+});
+
+router.post('/', batchRules(), handleValidationErrors, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { url, selection } = matchedData(req);
+        res.status(201).json(await batchManager.create(url, getDownloadOptions(req), selection));
+    } catch (error) {
+        handleBatchError(error, res, next);
+    }
+});
+
+router.post('/chapters', chapterSplitRules(), handleValidationErrors, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { url, selection } = matchedData(req);
+        res.status(201).json(await batchManager.createFromChapters(url, getDownloadOptions(req), selection));
+    } catch (error) {
+        handleBatchError(error, res, next);
+    }
+});
+
+router.get('/:id', batchIdRules(), handleValidationErrors, (req: Request, res: Response, next: NextFunction) => {
+    try {
+        res.json(batchManager.get(matchedData(req).id));
+    } catch (error) {
+        handleBatchError(error, res, next);
+    }
+});
+
+router.post('/:id/cancel', batchIdRules(), handleValidationErrors, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        res.json(await batchManager.cancel(matchedData(req).id));
+    } catch (error) {
+        handleBatchError(error, res, next);
+    }
+});
+
+// Zip of every finished item, stored uncompressed inside a folder named after the playlist
+router.get('/:id/archive', batchIdRules(), handleValidationErrors, (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { batch, jobs } = batchManager.get(matchedData(req).id);
+        const completed = jobs.filter(job => job.status === 'completed' && fs.existsSync(jobManager.outputPath(job)));
+        if (completed.length === 0) {
+            res.status(409).json({ error: 'No completed items to archive yet' });
+            return;
+        }
+
+        const folder = batchManager.folderName(batch);
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', toContentDisposition(`${folder}.zip`));
+
+        const archive = new ZipArchive({ store: true });
+        archive.on('warning', (warning) => logger.warn(`Archive warning for batch ${batch.id}: ${warning.message}`));
+        archive.on('error', (error) => {
+            logger.error(`Archive failed for batch ${batch.id}: ${error.message}`);
+            res.destroy(error);
+        });
+        res.on('close', () => {
+            if (!res.writableFinished) archive.abort();
+        });
+
+        archive.pipe(res);
+        for (const job of completed) {
+            archive.file(jobManager.outputPath(job), { name: `${folder}/${job.fileName ?? job.id}` });
+        }
+        // Rejects when the client aborts or an item cannot be read, the response is already taken care of
+        archive.finalize().catch((error: Error) => {
+            logger.error(`Archive for batch ${batch.id} not finished: ${error.message}`);
+        });
+    } catch (error) {
+        handleBatchError(error, res, next);
+    }
+});
+
+export default router;
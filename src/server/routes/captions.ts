@@ -0,0 +1,41 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { matchedData } from 'express-validator';
+import { YouTubeDownloader } from '../utils/ytdl';
+import { sanitizeFileName, toContentDisposition } from '../utils/filename';
+import { urlRules, captionRules, handleValidationErrors } from '../middleware/validation';
+import { SubtitleFormat } from '../../shared/types';
+
+const CONTENT_TYPES: Record<SubtitleFormat, string> = {
+    srt: 'application/x-subrip',
+    vtt: 'text/vtt'
+};
+
+const router = Router();
+
+// Lists uploaded and auto-generated caption languages
+router.post('/', urlRules(), handleValidationErrors, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { url } = matchedData(req);
+        res.json(await YouTubeDownloader.getCaptionTracks(url));
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.get('/download', captionRules('query'), handleValidationErrors, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { url, lang, auto } = matchedData(req);
+        const format: SubtitleFormat = matchedData(req).format ?? 'srt';
+
+        const details = await YouTubeDownloader.getVideoInfo(url);
+        const captions = await YouTubeDownloader.getCaptions(url, lang, format, auto);
+
+        res.setHeader('Content-Type', `${CONTENT_TYPES[format]}; charset=utf-8`);
+        res.setHeader('Content-Disposition', toContentDisposition(`${sanitizeFileName(details.title)}.${lang}.${format}`));
+        res.send(captions);
+    } catch (error) {
+        next(error);
+    }
+});
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { matchedData } from 'express-validator';
+import { historyManager, HistoryNotFoundError } from '../jobs/historyManager';
+import { historyFilterRules, historyIdRules, handleValidationErrors } from '../middleware/validation';
+
+const router = Router();
+
+const handleHistoryError = (error: unknown, res: Response, next: NextFunction) => {
+    if (error instanceof HistoryNotFoundError) {
+        res.status(404).json({ error: error.message });
+    } else {
+        next(error);
+    }
+};
+
+router.get('/', historyFilterRules(), handleValidationErrors, (req: Request, res: Response) => {
+    res.json(historyManager.list(matchedData(req)));
+});
+
+router.get('/:id', historyIdRules(), handleValidationErrors, (req: Request, res: Response, next: NextFunction) => {
+    try {
+        res.json(historyManager.get(matchedData(req).id));
+    } catch (error) {
+        handleHistoryError(error, res, next);
+    }
+});
+
+router.delete('/:id', historyIdRules(), handleValidationErrors, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        await historyManager.delete(matchedData(req).id);
+        res.status(204).end();
+    } catch (error) {
+        handleHistoryError(error, res, next);
+    }
+});
+
+export default router;
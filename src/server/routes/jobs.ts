@@ -0,0 +1,86 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { matchedData } from 'express-validator';
+import { jobManager, JobNotFoundError, JobStateError } from '../jobs/jobManager';
+import { downloadRules, jobIdRules, handleValidationErrors, getDownloadOptions } from '../middleware/validation';
+import { toContentDisposition } from '../utils/filename';
+import { YouTubeDownloader } from '../utils/ytdl';
+
+const router = Router();
+
+// Job errors carry their own HTTP semantics, everything else goes to the global handler
+const handleJobError = (error: unknown, res: Response, next: NextFunction) => {
+    if (error instanceof JobNotFoundError) {
+        res.status(404).json({ error: error.message });
+    } else if (error instanceof JobStateError) {
+        res.status(409).json({ error: error.message });
+    } else {
+        next(error);
+    }
+};
+
+router.get('/', (_req: Request, res: Response) => {
+    res.json(jobManager.list());
+});
+
+router.post('/', downloadRules('body'), handleValidationErrors, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { url } = matchedData(req);
+        const job = await jobManager.enqueue(url, getDownloadOptions(req));
+        res.status(201).json(job);
+    } catch (error) {
+        next(error);
+    }
+});
+
+router.get('/:id', jobIdRules(), handleValidationErrors, (req: Request, res: Response, next: NextFunction) => {
+    try {
+        res.json(jobManager.get(matchedData(req).id));
+    } catch (error) {
+        handleJobError(error, res, next);
+    }
+});
+
+router.post('/:id/cancel', jobIdRules(), handleValidationErrors, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        res.json(await jobManager.cancel(matchedData(req).id));
+    } catch (error) {
+        handleJobError(error, res, next);
+    }
+});
+
+router.post('/:id/stop', jobIdRules(), handleValidationErrors, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        res.json(await jobManager.stop(matchedData(req).id));
+    } catch (error) {
+        handleJobError(error, res, next);
+    }
+});
+
+router.post('/:id/retry', jobIdRules(), handleValidationErrors, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        res.json(await jobManager.retry(matchedData(req).id));
+    } catch (error) {
+        handleJobError(error, res, next);
+    }
+});
+
+router.get('/:id/file', jobIdRules(), handleValidationErrors, (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const job = jobManager.get(matchedData(req).id);
+        if (job.status !== 'completed') {
+            throw new JobStateError(`Job is ${job.status}, no file available yet`);
+        }
+        const output = YouTubeDownloader.describeOutput(job.options);
+        res.setHeader('Content-Disposition', toContentDisposition(job.fileName ?? `${job.id}.${output.extension}`));
+        // Range and If-Range requests get partial content, so browsers can resume a dropped download.
+        // The ETag and Last-Modified that If-Range checks change whenever a retry rewrites the file
+        const fileOptions = { acceptRanges: true, lastModified: true, headers: { 'Content-Type': output.mimeType } };
+        res.sendFile(jobManager.outputPath(job), fileOptions, (error) => {
+            if (error && !res.headersSent) next(error);
+        });
+    } catch (error) {
+        handleJobError(error, res, next);
+    }
+});
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { matchedData } from 'express-validator';
+import { YouTubePlaylist } from '../utils/playlist';
+import { playlistUrlRules, handleValidationErrors } from '../middleware/validation';
+
+const router = Router();
+
+router.post('/info', playlistUrlRules(), handleValidationErrors, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const { url } = matchedData(req);
+        res.json(await YouTubePlaylist.getPlaylist(url));
+    } catch (error) {
+        next(error);
+    }
+});
+
+export default router;
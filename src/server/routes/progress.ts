@@ -0,0 +1,50 @@
+import { Router, Request, Response } from 'express';
+import { matchedData } from 'express-validator';
+import { progressHub, isTerminalStatus } from '../utils/progress';
+import { downloadIdRules, handleValidationErrors } from '../middleware/validation';
+import { DownloadProgressEvent } from '../../shared/types';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+const router = Router();
+
+// Server-Sent Events stream of progress updates for a single download
+router.get('/:downloadId', downloadIdRules(), handleValidationErrors, (req: Request, res: Response) => {
+    const { downloadId } = matchedData(req);
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+    });
+    res.flushHeaders();
+
+    let unsubscribe = () => {};
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+    const close = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        res.end();
+    };
+
+    const send = (event: DownloadProgressEvent) => {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+        if (isTerminalStatus(event.status)) {
+            close();
+        }
+    };
+
+    req.on('close', close);
+
+    // Replay the latest known state so subscribers joining late are not left at zero
+    const current = progressHub.get(downloadId);
+    if (current) {
+        send(current);
+        if (isTerminalStatus(current.status)) return;
+    }
+
+    unsubscribe = progressHub.subscribe(downloadId, send);
+});
+
+export default router;
@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { AddressInfo } from 'node:net';
+import express from 'express';
+
+// History entries go to a scratch directory and ffmpeg cannot be found, whatever the machine has
+const dataDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'api-test-'));
+process.env.DATA_DIR = dataDir;
+process.env.FFMPEG_PATH = path.join(dataDir, 'ffmpeg');
+process.env.FFPROBE_PATH = path.join(dataDir, 'ffprobe');
+const { default: apiRouter } = await import('../routes/api');
+const { errorHandler } = await import('../middleware/errorHandler');
+const { historyManager } = await import('../jobs/historyManager');
+const { YouTubeDownloader } = await import('../utils/ytdl');
+const { jobManager } = await import('../jobs/jobManager');
+
+const MEDIA = crypto.randomBytes(64 * 1024);
+
+const media = http.createServer((req, res) => {
+    if (req.url?.split('?')[0] !== '/clip.mp4') {
+        res.writeHead(404).end();
+        return;
+    }
+    res.writeHead(200, { 'Content-Type': 'video/mp4', 'Content-Length': MEDIA.length, 'Accept-Ranges': 'bytes' });
+    res.end(req.method === 'HEAD' ? undefined : MEDIA);
+});
+await new Promise<void>(resolve => media.listen(0, '127.0.0.1', resolve));
+const mediaBase = `http://127.0.0.1:${(media.address() as AddressInfo).port}`;
+
+const app = express();
+app.use(express.json());
+app.use('/api', apiRouter);
+app.use(errorHandler);
+const server = app.listen(0, '127.0.0.1');
+await new Promise(resolve => server.once('listening', resolve));
+const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+const waitFor = async (description: string, condition: () => boolean, timeoutMs = 5000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > deadline) throw new Error(`Timed out waiting until ${description}`);
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+};
+
+let failures = 0;
+let total = 0;
+
+const check = async (name: string, run: () => Promise<void>) => {
+    total++;
+    try {
+        await run();
+    } catch (error) {
+        failures++;
+        console.error(`✗ ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : error}`);
+    }
+};
+
+const download = (query: Record<string, string>, signal?: AbortSignal, redirect: RequestRedirect = 'follow') =>
+    fetch(`${base}/api/download?${new URLSearchParams(query)}`, { signal, redirect });
+
+const postJson = (route: string, body: object) => fetch(`${base}/api${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+});
+
+await check('requests without a usable URL are refused as INVALID_URL', async () => {
+    for (const url of [undefined, '', 'not a url', 'ftp://example.com/clip.mp4']) {
+        const response = await postJson('/video-info', { url });
+        assert.equal(response.status, 400, `status for ${url}`);
+        const body = await response.json();
+        assert.equal(body.code, 'INVALID_URL', `code for ${url}`);
+        assert.ok(body.details.some((detail: { field: string }) => detail.field === 'url'));
+    }
+});
+
+await check('invalid download options are all listed as INVALID_OPTIONS', async () => {
+    const response = await download({ url: `${mediaBase}/clip.mp4`, container: 'avi', audioBitrate: '999', startTime: 'soon' });
+    assert.equal(response.status, 400);
+    const body = await response.json();
+    assert.equal(body.code, 'INVALID_OPTIONS');
+    assert.deepEqual(body.details.map((detail: { field: string }) => detail.field).sort(), ['audioBitrate', 'container', 'startTime']);
+});
+
+await check('a time range that ends before it starts is refused before the download starts', async () => {
+    const response = await download({ url: `${mediaBase}/clip.mp4`, startTime: '20', endTime: '5' });
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).code, 'INVALID_OPTIONS');
+});
+
+await check('source errors map to their status code', async () => {
+    const response = await postJson('/video-info', { url: `${mediaBase}/missing.mp4` });
+    assert.equal(response.status, 404);
+    assert.equal((await response.json()).code, 'VIDEO_UNAVAILABLE');
+});
+
+await check('a download that fails before its first byte answers with a plain JSON error', async () => {
+    const response = await download({ url: `${mediaBase}/clip.mp4`, container: 'mkv' });
+    assert.equal(response.status, 503);
+    assert.match(response.headers.get('content-type') ?? '', /^application\/json/);
+    assert.equal(response.headers.get('content-disposition'), null);
+    assert.equal(response.headers.get('accept-ranges'), null);
+    assert.equal((await response.json()).code, 'FFMPEG_MISSING');
+});
+
+await check('a client that leaves while the source downloads cancels the download', async () => {
+    const createDownloadStream = YouTubeDownloader.createDownloadStream;
+    let signal: AbortSignal | undefined;
+    // Stands in for a clip or remux, which only hands over its stream once ffmpeg is done
+    YouTubeDownloader.createDownloadStream = async (_url, _options, _onProgress, control = {}) => {
+        signal = control.signal;
+        await new Promise((_resolve, reject) => {
+            signal?.addEventListener('abort', () => reject(new Error('Download cancelled')), { once: true });
+        });
+        throw new Error('unreachable');
+    };
+    try {
+        const client = new AbortController();
+        const response = download({ url: `${mediaBase}/clip.mp4?leave` }, client.signal);
+        await waitFor('the download starts', () => Boolean(signal));
+        client.abort();
+        await assert.rejects(response);
+        await waitFor('the download is cancelled', () => historyManager.list().some(entry =>
+            entry.url === `${mediaBase}/clip.mp4?leave` && entry.status === 'cancelled'
+        ));
+        assert.equal(signal?.aborted, true);
+    } finally {
+        YouTubeDownloader.createDownloadStream = createDownloadStream;
+    }
+});
+
+await check('a download a job already finished is handed to the job file, which serves ranges', async () => {
+    const findCompleted = jobManager.findCompleted;
+    const asked: unknown[] = [];
+    jobManager.findCompleted = (url, options) => {
+        asked.push([url, options]);
+        return { id: 'finished-job' } as ReturnType<typeof findCompleted>;
+    };
+    try {
+        const response = await download({ url: `${mediaBase}/clip.mp4`, container: 'mp4' }, undefined, 'manual');
+        assert.equal(response.status, 303);
+        assert.equal(response.headers.get('location'), '/api/jobs/finished-job/file');
+        assert.deepEqual(asked, [[`${mediaBase}/clip.mp4`, { container: 'mp4' }]]);
+    } finally {
+        jobManager.findCompleted = findCompleted;
+    }
+});
+
+server.close();
+media.close();
+// A history write may still be in flight
+await fs.promises.rm(dataDir, { recursive: true, force: true, maxRetries: 5 });
+console.log(`${total - failures}/${total} API checks passed`);
+process.exit(failures > 0 ? 1 : 0);
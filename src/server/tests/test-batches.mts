@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { formatIndexSelection, parseIndexSelection } from '../../shared/playlist';
+import type { JobManager } from '../jobs/jobManager';
+import type { DownloadBatch, DownloadJob, PlaylistDetails } from '../../shared/types';
+
+// Batches are stored in a scratch directory
+const dataDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'batches-test-'));
+process.env.DATA_DIR = dataDir;
+const { BatchManager, BatchSelectionError } = await import('../jobs/batchManager');
+const { JsonStore } = await import('../jobs/jsonStore');
+const { YouTubePlaylist } = await import('../utils/playlist');
+
+const PLAYLIST: PlaylistDetails = {
+    id: 'PLtest',
+    url: 'https://www.youtube.com/playlist?list=PLtest',
+    title: 'Best of: 2024/25',
+    author: 'Band',
+    totalItems: 12,
+    entries: Array.from({ length: 12 }, (_, i) => ({
+        index: i + 1,
+        videoId: `video${i + 1}`,
+        url: `https://www.youtube.com/watch?v=video${i + 1}`,
+        title: `Track ${i + 1}`,
+        author: 'Band',
+        duration: '180',
+        thumbnail: ''
+    }))
+};
+YouTubePlaylist.getPlaylist = async () => PLAYLIST;
+
+// Takes the jobs a batch enqueues without running them
+const makeJobs = () => {
+    const jobs = new Map<string, DownloadJob>();
+    const manager = {
+        enqueue: async (url: string, options: DownloadJob['options'], extra: Partial<DownloadJob>) => {
+            const job = { id: `job${jobs.size + 1}`, url, options, status: 'queued', ...extra } as DownloadJob;
+            jobs.set(job.id, job);
+            return job;
+        },
+        get: (id: string) => jobs.get(id)
+    };
+    return { jobs, manager: manager as unknown as JobManager };
+};
+
+let stores = 0;
+const makeManager = () => {
+    const { jobs, manager } = makeJobs();
+    const store = new JsonStore<DownloadBatch>(path.join(dataDir, `batches-${++stores}.json`));
+    return { jobs, batches: new BatchManager(store, manager) };
+};
+
+let failures = 0;
+let total = 0;
+
+const check = async (name: string, run: () => Promise<void> | void) => {
+    total++;
+    try {
+        await run();
+    } catch (error) {
+        failures++;
+        console.error(`✗ ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : error}`);
+    }
+};
+
+await check('selections take single items, ranges and open ranges', () => {
+    assert.deepEqual(parseIndexSelection('3-10', 12), [3, 4, 5, 6, 7, 8, 9, 10]);
+    assert.deepEqual(parseIndexSelection('1,4,7-9', 12), [1, 4, 7, 8, 9]);
+    assert.deepEqual(parseIndexSelection('10-', 12), [10, 11, 12]);
+    assert.deepEqual(parseIndexSelection('-3', 12), [1, 2, 3]);
+    assert.deepEqual(parseIndexSelection(' 2 , 5 - 6 ,', 12), [2, 5, 6]);
+});
+
+await check('selections are sorted, without duplicates and cut to the playlist', () => {
+    assert.deepEqual(parseIndexSelection('9,2-4,3', 12), [2, 3, 4, 9]);
+    assert.deepEqual(parseIndexSelection('11-20', 12), [11, 12]);
+});
+
+await check('malformed selections and selections past the end give null', () => {
+    for (const selection of ['', 'abc', '0', '5-3', '1-2-3', '1;2', '13', '20-']) {
+        assert.equal(parseIndexSelection(selection, 12), null, selection);
+    }
+});
+
+await check('selections are written back with consecutive items as ranges', () => {
+    assert.equal(formatIndexSelection([9, 1, 2, 3, 5, 3]), '1-3,5,9');
+    assert.equal(formatIndexSelection(parseIndexSelection('1,4,7-9', 12) ?? []), '1,4,7-9');
+    assert.equal(formatIndexSelection([]), '');
+});
+
+await check('a batch enqueues the selected items with numbered file names', async () => {
+    const { jobs, batches } = makeManager();
+    const summary = await batches.create(PLAYLIST.url, { container: 'mp4' }, '2,9-');
+
+    assert.equal(summary.total, 5);
+    assert.equal(summary.batch.title, 'Best of: 2024/25');
+    assert.deepEqual([...jobs.values()].map(job => job.playlistIndex), [2, 9, 10, 11, 12]);
+    assert.deepEqual([...jobs.values()].map(job => job.fileName), [
+        '02 - Track 2.mp4', '09 - Track 9.mp4', '10 - Track 10.mp4', '11 - Track 11.mp4', '12 - Track 12.mp4'
+    ]);
+    assert.ok([...jobs.values()].every(job => job.batchId === summary.batch.id));
+});
+
+await check('a file name template in the options replaces the numbered names', async () => {
+    const { jobs, batches } = makeManager();
+    await batches.create(PLAYLIST.url, { fileNameTemplate: '{author} - {title} [{id}].{ext}', filter: 'audioonly', audioFormat: 'mp3' }, '1');
+    assert.deepEqual([...jobs.values()].map(job => job.fileName), ['Band - Track 1 [video1].mp3']);
+});
+
+await check('a selection that matches nothing is refused before any job is made', async () => {
+    const { jobs, batches } = makeManager();
+    await assert.rejects(batches.create(PLAYLIST.url, {}, '20-30'), (error: unknown) => {
+        assert.ok(error instanceof BatchSelectionError);
+        assert.match(error.message, /does not match any of the 12 items/);
+        return true;
+    });
+    assert.equal(jobs.size, 0);
+});
+
+await check('batch folders are named after the playlist without illegal characters', async () => {
+    const { batches } = makeManager();
+    const { batch } = await batches.create(PLAYLIST.url, {}, '1');
+    assert.equal(batches.folderName(batch), 'Best of 202425');
+    assert.equal(batches.folderName({ ...batch, title: '???' }), 'playlist');
+});
+
+await fs.promises.rm(dataDir, { recursive: true, force: true, maxRetries: 5 });
+console.log(`${total - failures}/${total} batch checks passed`);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { formatCues, parseTimedTextJson, parseTimedTextXml, toSrt, toVtt } from '../utils/captions';
+
+let failures = 0;
+let total = 0;
+
+const check = (name: string, run: () => void) => {
+    total++;
+    try {
+        run();
+    } catch (error) {
+        failures++;
+        console.error(`✗ ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : error}`);
+    }
+};
+
+check('legacy XML tracks are read with their entities and tags removed', () => {
+    const xml = '<?xml version="1.0" encoding="utf-8" ?><transcript>' +
+        '<text start="0.5" dur="2.25">Tom &amp;amp; Jerry</text>' +
+        '<text start="3" dur="1.5"><font color="#FFFFFF">It&amp;#39;s &lt;here&gt;</font></text>' +
+        '<text start="5" dur="1">   </text>' +
+        '<text start="7.25">No duration</text>' +
+        '</transcript>';
+    assert.deepEqual(parseTimedTextXml(xml), [
+        { start: 0.5, end: 2.75, text: 'Tom & Jerry' },
+        { start: 3, end: 4.5, text: "It's <here>" },
+        { start: 7.25, end: 7.25, text: 'No duration' }
+    ]);
+});
+
+check('json3 tracks join their segments and skip empty events', () => {
+    const cues = parseTimedTextJson({
+        events: [
+            { tStartMs: 0, dDurationMs: 1000 },
+            { tStartMs: 1000, dDurationMs: 1500, segs: [{ utf8: 'Hello' }, { utf8: ' world' }] },
+            { tStartMs: 2000, dDurationMs: 500, segs: [{ utf8: '\n' }] },
+            { dDurationMs: 500, segs: [{ utf8: 'No start' }] },
+            { tStartMs: 4000, dDurationMs: 2000, segs: [{ utf8: 'Bye' }] }
+        ]
+    });
+    assert.deepEqual(cues, [
+        { start: 1, end: 2.5, text: 'Hello world' },
+        { start: 4, end: 6, text: 'Bye' }
+    ]);
+});
+
+check('overlapping json3 cues end where the next one starts', () => {
+    const cues = parseTimedTextJson({
+        events: [
+            { tStartMs: 0, dDurationMs: 4000, segs: [{ utf8: 'first' }] },
+            { tStartMs: 2500, dDurationMs: 4000, segs: [{ utf8: 'second' }] }
+        ]
+    });
+    assert.deepEqual(cues.map(cue => [cue.start, cue.end]), [[0, 2.5], [2.5, 6.5]]);
+});
+
+const CUES = [
+    { start: 1.5, end: 3.25, text: 'Hello' },
+    { start: 3725.0004, end: 3726.9996, text: 'Two\nlines' }
+];
+
+check('SRT numbers cues and writes milliseconds after a comma', () => {
+    assert.equal(toSrt(CUES),
+        '1\n00:00:01,500 --> 00:00:03,250\nHello\n' +
+        '\n' +
+        '2\n01:02:05,000 --> 01:02:07,000\nTwo\nlines\n');
+});
+
+check('VTT starts with its header and writes milliseconds after a dot', () => {
+    assert.equal(toVtt(CUES),
+        'WEBVTT\n\n' +
+        '00:00:01.500 --> 00:00:03.250\nHello\n' +
+        '\n' +
+        '01:02:05.000 --> 01:02:07.000\nTwo\nlines\n');
+});
+
+check('timestamps never go below zero and hours do not wrap', () => {
+    assert.match(toSrt([{ start: -2, end: 100 * 3600 + 0.001, text: 'x' }]), /^1\n00:00:00,000 --> 100:00:00,001\n/);
+});
+
+check('formatCues picks the format asked for', () => {
+    assert.equal(formatCues(CUES, 'vtt'), toVtt(CUES));
+    assert.equal(formatCues(CUES, 'srt'), toSrt(CUES));
+    assert.equal(toSrt([]), '');
+    assert.equal(toVtt([]), 'WEBVTT\n\n');
+});
+
+console.log(`${total - failures}/${total} caption checks passed`);
+process.exit(failures > 0 ? 1 : 0);
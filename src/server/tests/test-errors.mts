@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { DownloaderErrorCode } from '../../shared/types';
+import { classifyError, DownloaderError } from '../utils/errors';
+
+let failures = 0;
+let total = 0;
+
+const check = (name: string, run: () => void) => {
+    total++;
+    try {
+        run();
+    } catch (error) {
+        failures++;
+        console.error(`✗ ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : error}`);
+    }
+};
+
+// Messages as ytdl-core, fluent-ffmpeg, Node and our own code phrase them
+const MESSAGES: [string, DownloaderErrorCode][] = [
+    ['Download cancelled', 'CANCELLED'],
+    ['The operation was aborted', 'CANCELLED'],
+    ['Cannot find ffmpeg', 'FFMPEG_MISSING'],
+    ['spawn /usr/bin/ffprobe ENOENT', 'FFMPEG_MISSING'],
+    ['This is a private video. Please sign in to verify that you may see it.', 'VIDEO_PRIVATE'],
+    ['Sign in to confirm your age', 'AGE_RESTRICTED'],
+    ['The uploader has not made this video available in your country', 'GEO_BLOCKED'],
+    ['This live event will begin in 3 hours.', 'LIVE_NOT_STARTED'],
+    ['Status code: 429', 'RATE_LIMITED'],
+    ["Sign in to confirm you're not a bot", 'RATE_LIMITED'],
+    ['No video id found: https://example.com', 'INVALID_URL'],
+    ['No such format found: 999', 'NO_FORMATS'],
+    ['Video unavailable', 'VIDEO_UNAVAILABLE'],
+    ['Request to https://example.com/a.mp4 failed: Status code: 404', 'VIDEO_UNAVAILABLE'],
+    ['ENOSPC: no space left on device, write', 'INSUFFICIENT_STORAGE'],
+    ['read ECONNRESET', 'NETWORK_ERROR'],
+    ['Request to https://example.com/a.m3u8 failed: Status code: 503', 'NETWORK_ERROR'],
+    ['Connection closed after 1000 of 5000 bytes', 'NETWORK_ERROR'],
+    // A response node:http saw cut off
+    ['aborted', 'NETWORK_ERROR'],
+    ['ffmpeg exited with code 1: Invalid data found when processing input', 'FFMPEG_FAILED'],
+    ['Something nobody expected', 'UNKNOWN']
+];
+
+check('library messages map to their error codes', () => {
+    for (const [message, code] of MESSAGES) {
+        assert.equal(classifyError(new Error(message)).code, code, message);
+    }
+});
+
+check('codes carry their HTTP status and whether a retry may help', () => {
+    const expectations: [DownloaderErrorCode, number, boolean][] = [
+        ['INVALID_OPTIONS', 400, false],
+        ['VIDEO_UNAVAILABLE', 404, false],
+        ['GEO_BLOCKED', 451, false],
+        ['RATE_LIMITED', 429, true],
+        ['NETWORK_ERROR', 502, true],
+        ['INSUFFICIENT_STORAGE', 507, true],
+        ['FFMPEG_MISSING', 503, false],
+        ['CANCELLED', 499, false]
+    ];
+    for (const [code, status, retryable] of expectations) {
+        const error = new DownloaderError(code, 'message');
+        assert.equal(error.statusCode, status, code);
+        assert.equal(error.retryable, retryable, code);
+    }
+});
+
+check('context is prepended and the fallback applies only when nothing matches', () => {
+    const classified = classifyError(new Error('exited with code 1'), 'FFmpeg processing failed', 'FFMPEG_FAILED');
+    assert.equal(classified.code, 'FFMPEG_FAILED');
+    assert.equal(classified.message, 'FFmpeg processing failed: exited with code 1');
+    assert.equal(classifyError(new Error('read ETIMEDOUT'), 'Download failed', 'FFMPEG_FAILED').code, 'NETWORK_ERROR');
+});
+
+check('DownloaderErrors pass through unchanged and anything thrown becomes one', () => {
+    const original = new DownloaderError('NO_FORMATS', 'No formats available for this video');
+    assert.equal(classifyError(original, 'Failed to get video info'), original);
+    assert.deepEqual(original.toResponse(), { error: 'No formats available for this video', code: 'NO_FORMATS' });
+    assert.equal(classifyError('Status code: 429').code, 'RATE_LIMITED');
+    assert.equal(classifyError(undefined).message, 'Unknown error');
+});
+
+console.log(`${total - failures}/${total} error checks passed`);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { fileNameForVideo, renderFileName, sanitizeFileName, toContentDisposition } from '../utils/filename';
+import { VideoDetails } from '../../shared/types';
+
+let failures = 0;
+let total = 0;
+
+const check = (name: string, run: () => void) => {
+    total++;
+    try {
+        run();
+    } catch (error) {
+        failures++;
+        console.error(`✗ ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : error}`);
+    }
+};
+
+check('illegal and control characters are removed and whitespace collapsed', () => {
+    assert.equal(sanitizeFileName('What? <Live> "at" C:\\Stage|1*'), 'What Live at CStage1');
+    assert.equal(sanitizeFileName('tab\there\nnew\u0000line\u007f'), 'tabherenewline');
+    assert.equal(sanitizeFileName('  lots   of\u00a0 space  '), 'lots of space');
+});
+
+check('leading and trailing dots are dropped, an empty name falls back', () => {
+    assert.equal(sanitizeFileName('..hidden.'), 'hidden');
+    assert.equal(sanitizeFileName('???'), 'video');
+    assert.equal(sanitizeFileName(' . ', 'fallback'), 'fallback');
+});
+
+check('names are cut to 200 characters without trailing dots or spaces', () => {
+    assert.equal(sanitizeFileName('a'.repeat(300)), 'a'.repeat(200));
+    assert.equal(sanitizeFileName(`${'a'.repeat(199)} b`), 'a'.repeat(199));
+});
+
+check('placeholders are filled and sanitized one by one', () => {
+    const name = renderFileName('{author} - {title} [{id}].{ext}', {
+        title: '../../etc/passwd',
+        author: 'AC/DC',
+        id: 'abc123',
+        ext: 'mp4'
+    });
+    assert.equal(name, 'ACDC - etcpasswd [abc123].mp4');
+});
+
+check('the extension is added when the template leaves it out', () => {
+    assert.equal(renderFileName('{title}', { title: 'Clip', ext: 'mkv' }), 'Clip.mkv');
+    assert.equal(renderFileName('{index}. {title}', { title: 'Clip', index: 3, ext: 'mp3' }), '3. Clip.mp3');
+});
+
+check('separators around empty placeholders are tidied away', () => {
+    const template = '{author} - {title} [{id}] ({date}).{ext}';
+    assert.equal(renderFileName(template, { title: 'Clip', ext: 'mp4' }), 'Clip.mp4');
+    assert.equal(renderFileName('{title} - {author}.{ext}', { title: 'Clip', author: '', ext: 'mp4' }), 'Clip.mp4');
+    assert.equal(renderFileName('{author}.{ext}', { title: 'Clip', ext: 'mp4' }), 'video.mp4');
+});
+
+check('long titles are cut before the extension', () => {
+    const name = renderFileName('{title} [{id}].{ext}', { title: 'x'.repeat(300), id: 'abc123', ext: 'webm' });
+    assert.equal(name.length, 200);
+    assert.ok(name.endsWith('x.webm'), name);
+});
+
+check('video details fill the template, dates as YYYY-MM-DD', () => {
+    const details = {
+        videoId: 'dQw4w9WgXcQ',
+        title: 'Never Gonna Give You Up',
+        author: 'Rick Astley',
+        uploadDate: '2009-10-24T23:57:33-07:00'
+    } as VideoDetails;
+    assert.equal(
+        fileNameForVideo('{date} {author} - {title} [{id}].{ext}', details, 'm4a', '07'),
+        '2009-10-24 Rick Astley - Never Gonna Give You Up [dQw4w9WgXcQ].m4a'
+    );
+    assert.equal(fileNameForVideo('{index} {title}.{ext}', details, 'mp4', 2), '2 Never Gonna Give You Up.mp4');
+});
+
+check('Content-Disposition carries an ASCII fallback and the UTF-8 name', () => {
+    assert.equal(
+        toContentDisposition('Café "live".mp4'),
+        `attachment; filename="Caf_ 'live'.mp4"; filename*=UTF-8''Caf%C3%A9%20%22live%22.mp4`
+    );
+});
+
+console.log(`${total - failures}/${total} file name checks passed`);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { filterHistory } from '../../shared/history';
+import type { DownloadOptions, HistoryEntry, HistoryStatus, VideoDetails } from '../../shared/types';
+
+// The shared history manager is set up for a scratch directory, the checks make their own
+const dataDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'history-test-'));
+process.env.DATA_DIR = dataDir;
+const { HistoryManager } = await import('../jobs/historyManager');
+const { JsonStore } = await import('../jobs/jsonStore');
+
+const entry = (
+    id: string,
+    createdAt: string,
+    details: Partial<VideoDetails>,
+    extra: { status?: HistoryStatus; options?: DownloadOptions; fileName?: string } = {}
+): HistoryEntry => ({
+    id,
+    videoId: details.videoId ?? id,
+    url: `https://www.youtube.com/watch?v=${details.videoId ?? id}`,
+    details: { videoId: id, title: id, author: 'Someone', thumbnail: '', duration: '60', ...details } as VideoDetails,
+    options: extra.options ?? {},
+    format: { extension: 'mp4', mimeType: 'video/mp4' },
+    status: extra.status ?? 'completed',
+    fileName: extra.fileName,
+    createdAt
+});
+
+const ENTRIES = [
+    entry('talk', '2024-03-01T09:00:00.000Z', { title: 'Conference Talk', author: 'Tech Channel' }, { fileName: 'keynote.mp4' }),
+    entry('song', '2024-03-02T23:30:00.000Z', { title: 'Summer Song', author: 'Band' }, { options: { filter: 'audioonly' } }),
+    entry('broken', '2024-03-03T00:15:00.000Z', { title: 'Broken Upload', author: 'Tech Channel' }, { status: 'failed' }),
+    entry('left', '2024-03-04T12:00:00.000Z', { title: 'Left halfway', author: 'Band' }, { status: 'cancelled' })
+];
+
+const ids = (entries: HistoryEntry[]) => entries.map(item => item.id);
+
+let failures = 0;
+let total = 0;
+
+const check = async (name: string, run: () => Promise<void> | void) => {
+    total++;
+    try {
+        await run();
+    } catch (error) {
+        failures++;
+        console.error(`✗ ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : error}`);
+    }
+};
+
+await check('an empty filter lists everything newest first', () => {
+    assert.deepEqual(ids(filterHistory(ENTRIES, {})), ['left', 'broken', 'song', 'talk']);
+});
+
+await check('search matches title, author, file name and video ID regardless of case', () => {
+    assert.deepEqual(ids(filterHistory(ENTRIES, { search: '  TALK ' })), ['talk']);
+    assert.deepEqual(ids(filterHistory(ENTRIES, { search: 'tech channel' })), ['broken', 'talk']);
+    assert.deepEqual(ids(filterHistory(ENTRIES, { search: 'keynote' })), ['talk']);
+    assert.deepEqual(ids(filterHistory(ENTRIES, { search: 'song' })), ['song']);
+    assert.deepEqual(ids(filterHistory(ENTRIES, { search: 'nothing like it' })), []);
+});
+
+await check('type tells audio-only downloads from videos', () => {
+    assert.deepEqual(ids(filterHistory(ENTRIES, { type: 'audio' })), ['song']);
+    assert.deepEqual(ids(filterHistory(ENTRIES, { type: 'video' })), ['left', 'broken', 'talk']);
+});
+
+await check('status, author and video ID have to match exactly', () => {
+    assert.deepEqual(ids(filterHistory(ENTRIES, { status: 'failed' })), ['broken']);
+    assert.deepEqual(ids(filterHistory(ENTRIES, { status: 'cancelled' })), ['left']);
+    assert.deepEqual(ids(filterHistory(ENTRIES, { author: 'Band' })), ['left', 'song']);
+    assert.deepEqual(ids(filterHistory(ENTRIES, { author: 'band' })), []);
+    assert.deepEqual(ids(filterHistory(ENTRIES, { videoId: 'song' })), ['song']);
+});
+
+await check('dates include both ends and use the UTC day', () => {
+    assert.deepEqual(ids(filterHistory(ENTRIES, { from: '2024-03-02', to: '2024-03-03' })), ['broken', 'song']);
+    assert.deepEqual(ids(filterHistory(ENTRIES, { from: '2024-03-04' })), ['left']);
+    assert.deepEqual(ids(filterHistory(ENTRIES, { to: '2024-03-01' })), ['talk']);
+});
+
+await check('filters combine', () => {
+    assert.deepEqual(ids(filterHistory(ENTRIES, { author: 'Tech Channel', status: 'completed', search: 'talk' })), ['talk']);
+    assert.deepEqual(ids(filterHistory(ENTRIES, { type: 'audio', status: 'failed' })), []);
+});
+
+await check('recording past the cap forgets the oldest entries', async () => {
+    const store = new JsonStore<HistoryEntry>(path.join(dataDir, 'capped.json'));
+    const manager = new HistoryManager(store, { maxEntries: 3 });
+    await manager.init();
+
+    for (const title of ['one', 'two', 'three', 'four', 'five']) {
+        await manager.record({
+            url: `https://example.com/${title}.mp4`,
+            details: { videoId: title, title, author: 'Someone', thumbnail: '', duration: '1' } as VideoDetails,
+            options: {},
+            status: 'completed'
+        });
+        await new Promise(resolve => setTimeout(resolve, 2));
+    }
+
+    assert.deepEqual(manager.list().map(item => item.details.title), ['five', 'four', 'three']);
+    const saved: HistoryEntry[] = JSON.parse(await fs.promises.readFile(path.join(dataDir, 'capped.json'), 'utf8'));
+    assert.equal(saved.length, 3);
+});
+
+await check('a stored history over a lowered cap is pruned when loaded', async () => {
+    const filePath = path.join(dataDir, 'lowered.json');
+    await fs.promises.writeFile(filePath, JSON.stringify(ENTRIES));
+    const manager = new HistoryManager(new JsonStore<HistoryEntry>(filePath), { maxEntries: 2 });
+    await manager.init();
+
+    assert.deepEqual(ids(manager.list()), ['left', 'broken']);
+    assert.throws(() => manager.get('talk'), /History entry talk not found/);
+});
+
+await fs.promises.rm(dataDir, { recursive: true, force: true, maxRetries: 5 });
+console.log(`${total - failures}/${total} history checks passed`);
+process.exit(failures > 0 ? 1 : 0);
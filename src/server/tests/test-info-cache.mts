@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { MediaInfo } from '../providers';
+import { InfoCache } from '../utils/infoCache';
+
+const makeInfo = (videoId: string, expiresAt?: number): MediaInfo => ({
+    details: { videoId, title: videoId, thumbnail: '', duration: '60', author: 'Someone' },
+    pageUrl: `https://example.com/${videoId}`,
+    thumbnails: [],
+    formats: [],
+    captions: [],
+    expiresAt
+});
+
+// Counts calls per video so each check can tell cache hits from fetches
+const makeFetcher = () => {
+    const calls = new Map<string, number>();
+    return {
+        calls,
+        fetch: (videoId: string, expiresAt?: number) => async () => {
+            calls.set(videoId, (calls.get(videoId) ?? 0) + 1);
+            await sleep(10);
+            return makeInfo(videoId, expiresAt);
+        }
+    };
+};
+
+let failures = 0;
+let total = 0;
+
+const check = async (name: string, run: () => Promise<void>) => {
+    total++;
+    try {
+        await run();
+    } catch (error) {
+        failures++;
+        console.error(`✗ ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : error}`);
+    }
+};
+
+await check('concurrent lookups share one request', async () => {
+    const cache = new InfoCache({ ttlMs: 60000, maxEntries: 10 });
+    const { calls, fetch } = makeFetcher();
+    const [first, second] = await Promise.all([cache.get('a', fetch('a')), cache.get('a', fetch('a'))]);
+    assert.equal(calls.get('a'), 1);
+    assert.equal(first, second);
+    await cache.get('a', fetch('a'));
+    assert.equal(calls.get('a'), 1);
+});
+
+await check('entries expire after the TTL', async () => {
+    const cache = new InfoCache({ ttlMs: 30, maxEntries: 10 });
+    const { calls, fetch } = makeFetcher();
+    await cache.get('a', fetch('a'));
+    await sleep(50);
+    await cache.get('a', fetch('a'));
+    assert.equal(calls.get('a'), 2);
+});
+
+await check('stream URLs close to expiry are not cached', async () => {
+    const cache = new InfoCache({ ttlMs: 60000, maxEntries: 10 });
+    const { calls, fetch } = makeFetcher();
+    // Within the safety margin, a download started from these URLs could not finish
+    await cache.get('a', fetch('a', Date.now() + 60 * 1000));
+    await cache.get('a', fetch('a', Date.now() + 60 * 1000));
+    assert.equal(calls.get('a'), 2);
+
+    await cache.get('b', fetch('b', Date.now() + 6 * 60 * 60 * 1000));
+    await cache.get('b', fetch('b', Date.now() + 6 * 60 * 60 * 1000));
+    assert.equal(calls.get('b'), 1);
+});
+
+await check('the least recently used entry goes when the cache is full', async () => {
+    const cache = new InfoCache({ ttlMs: 60000, maxEntries: 2 });
+    const { calls, fetch } = makeFetcher();
+    await cache.get('a', fetch('a'));
+    await cache.get('b', fetch('b'));
+    await cache.get('a', fetch('a'));
+    await cache.get('c', fetch('c'));
+
+    await cache.get('a', fetch('a'));
+    assert.equal(calls.get('a'), 1);
+    await cache.get('b', fetch('b'));
+    assert.equal(calls.get('b'), 2);
+});
+
+await check('failures are not cached and invalidate forces a refetch', async () => {
+    const cache = new InfoCache({ ttlMs: 60000, maxEntries: 10 });
+    const { calls, fetch } = makeFetcher();
+    await assert.rejects(cache.get('a', async () => {
+        throw new Error('Status code: 429');
+    }), /429/);
+    await cache.get('a', fetch('a'));
+    cache.invalidate('a');
+    await cache.get('a', fetch('a'));
+    assert.equal(calls.get('a'), 2);
+});
+
+console.log(`${total - failures}/${total} info cache checks passed`);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,208 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import type { MediaInfo } from '../providers';
+import type { DownloadControl } from '../utils/ytdl';
+import type { DownloadJob } from '../../shared/types';
+
+// History entries go to a scratch directory
+const dataDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'jobs-test-'));
+process.env.DATA_DIR = dataDir;
+const { JobManager } = await import('../jobs/jobManager');
+const { JsonStore } = await import('../jobs/jsonStore');
+const { historyManager } = await import('../jobs/historyManager');
+const { YouTubeDownloader } = await import('../utils/ytdl');
+const { DownloaderError } = await import('../utils/errors');
+
+const INFO = {
+    details: { videoId: 'abc123', title: 'Test clip', thumbnail: '', duration: '10', author: 'Tester' },
+    pageUrl: 'https://example.com/clip.mp4',
+    formats: []
+} as unknown as MediaInfo;
+const CONTENT = Buffer.from('downloaded media');
+
+// The jobs only see YouTubeDownloader, each check decides what its downloads do
+let openDownload: (control: DownloadControl, attempt: number) => Promise<Readable>;
+let attemptTimes: number[] = [];
+YouTubeDownloader.getMediaInfo = async () => INFO;
+YouTubeDownloader.createDownloadStream = async (_url, _options, _onProgress, control = {}) => {
+    attemptTimes.push(Date.now());
+    return openDownload(control, attemptTimes.length);
+};
+
+// Remembers every state a job was saved in
+class RecordingStore extends JsonStore<DownloadJob> {
+    saved: DownloadJob[] = [];
+
+    save(job: DownloadJob) {
+        this.saved.push({ ...job });
+        return super.save(job);
+    }
+}
+
+const makeManager = async (root: string, options: { maxAttempts?: number; retryMaxDelayMs?: number } = {}) => {
+    const store = new RecordingStore(path.join(root, 'jobs.json'));
+    const manager = new JobManager(store, {
+        maxConcurrent: 1,
+        maxAttempts: options.maxAttempts ?? 3,
+        retryBaseDelayMs: 50,
+        retryMaxDelayMs: options.retryMaxDelayMs ?? 1000,
+        downloadDir: root
+    });
+    await manager.init();
+    return { manager, store };
+};
+
+const waitFor = async (description: string, condition: () => boolean, timeoutMs = 5000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > deadline) throw new Error(`Timed out waiting until ${description}`);
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+};
+
+// Runs end with a history entry, completed, failed or cancelled alike
+const waitForHistory = (job: DownloadJob) =>
+    waitFor(`job ${job.id} is in the history`, () => historyManager.list().some(entry => entry.jobId === job.id));
+
+// Sends data until it is aborted, like a long download
+const endless = (signal?: AbortSignal) => {
+    const stream = new Readable({ read() {} });
+    stream.push(Buffer.from('partial'));
+    signal?.addEventListener('abort', () => stream.destroy(new DownloaderError('CANCELLED', "Download cancelled")), { once: true });
+    return stream;
+};
+
+const retryDelays = (store: RecordingStore) => store.saved
+    .filter(job => job.status === 'queued' && job.nextAttemptAt)
+    .map(job => Date.parse(job.nextAttemptAt!) - Date.parse(job.updatedAt));
+
+let failures = 0;
+let total = 0;
+
+const check = async (name: string, run: (root: string) => Promise<void>) => {
+    total++;
+    attemptTimes = [];
+    const root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'jobs-test-'));
+    try {
+        await run(root);
+    } catch (error) {
+        failures++;
+        console.error(`✗ ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : error}`);
+    } finally {
+        await fs.promises.rm(root, { recursive: true, force: true, maxRetries: 5 });
+    }
+};
+
+await check('transient failures are retried with a doubling delay until the download succeeds', async (root) => {
+    const { manager, store } = await makeManager(root);
+    openDownload = async (_control, attempt) => {
+        if (attempt < 3) throw new DownloaderError('NETWORK_ERROR', 'socket hang up');
+        return Readable.from([CONTENT]);
+    };
+    const job = await manager.enqueue(INFO.pageUrl);
+    await waitFor('the job completes', () => manager.get(job.id).status === 'completed');
+
+    assert.equal(manager.get(job.id).attempts, 3);
+    const delays = retryDelays(store);
+    assert.equal(delays.length, 2);
+    assert.ok(delays[0] >= 50 && delays[0] < 70, `first delay ${delays[0]}`);
+    assert.ok(delays[1] >= 100 && delays[1] < 120, `second delay ${delays[1]}`);
+    assert.ok(attemptTimes[2] - attemptTimes[1] >= 100, 'the second retry waited');
+    assert.deepEqual(await fs.promises.readFile(manager.outputPath(job)), CONTENT);
+});
+
+await check('a job that keeps failing stops after its last attempt, with delays capped', async (root) => {
+    const { manager, store } = await makeManager(root, { maxAttempts: 4, retryMaxDelayMs: 80 });
+    openDownload = async () => {
+        throw new Error('Request to https://example.com failed: Status code: 503');
+    };
+    const job = await manager.enqueue(INFO.pageUrl);
+    await waitForHistory(job);
+
+    const failed = manager.get(job.id);
+    assert.equal(failed.status, 'failed');
+    assert.equal(failed.attempts, 4);
+    assert.equal(failed.errorCode, 'NETWORK_ERROR');
+    assert.ok(retryDelays(store).every(delay => delay < 100), `delays ${retryDelays(store)}`);
+});
+
+await check('errors that will not go away fail the job at once', async (root) => {
+    const { manager } = await makeManager(root);
+    openDownload = async () => {
+        throw new Error('This is a private video');
+    };
+    const job = await manager.enqueue(INFO.pageUrl);
+    await waitForHistory(job);
+
+    assert.equal(manager.get(job.id).status, 'failed');
+    assert.equal(manager.get(job.id).attempts, 1);
+    assert.equal(manager.get(job.id).errorCode, 'VIDEO_PRIVATE');
+});
+
+await check('cancelling a running job aborts it and leaves no files, retrying starts it again', async (root) => {
+    const { manager } = await makeManager(root);
+    openDownload = async (control) => endless(control.signal);
+    const job = await manager.enqueue(INFO.pageUrl);
+    await waitFor('the download starts', () => attemptTimes.length === 1);
+
+    await manager.cancel(job.id);
+    await waitForHistory(job);
+    assert.equal(manager.get(job.id).status, 'cancelled');
+    assert.deepEqual(await fs.promises.readdir(root), ['jobs.json']);
+    await assert.rejects(manager.cancel(job.id), /Cannot cancel a job that is cancelled/);
+
+    openDownload = async () => Readable.from([CONTENT]);
+    await manager.retry(job.id);
+    await waitFor('the retried job completes', () => manager.get(job.id).status === 'completed');
+});
+
+await check('a cancel while a waiting job backs off stops its retries', async (root) => {
+    const { manager } = await makeManager(root);
+    openDownload = async () => {
+        throw new DownloaderError('NETWORK_ERROR', 'socket hang up');
+    };
+    const job = await manager.enqueue(INFO.pageUrl);
+    await waitFor('the job waits for its retry', () => Boolean(manager.get(job.id).nextAttemptAt));
+
+    await manager.cancel(job.id);
+    await new Promise(resolve => setTimeout(resolve, 150));
+    assert.equal(manager.get(job.id).status, 'cancelled');
+    assert.equal(attemptTimes.length, 1);
+});
+
+await check('a cancel that arrives as the download finishes is not overwritten by completed', async (root) => {
+    const { manager } = await makeManager(root);
+    let jobId = '';
+    openDownload = async () => {
+        const stream = Readable.from([CONTENT]);
+        stream.once('end', () => void manager.cancel(jobId));
+        return stream;
+    };
+    const job = await manager.enqueue(INFO.pageUrl);
+    jobId = job.id;
+    await waitForHistory(job);
+
+    assert.equal(manager.get(job.id).status, 'cancelled');
+    assert.equal(fs.existsSync(manager.outputPath(job)), false);
+});
+
+await check('a finished job is found again for the same URL and options while its file is there', async (root) => {
+    const { manager } = await makeManager(root);
+    openDownload = async () => Readable.from([CONTENT]);
+    const job = await manager.enqueue(INFO.pageUrl, { container: 'mp4', allowTranscode: false });
+    await waitFor('the job completes', () => manager.get(job.id).status === 'completed');
+
+    assert.equal(manager.findCompleted(INFO.pageUrl, { allowTranscode: false, container: 'mp4', quality: undefined })?.id, job.id);
+    assert.equal(manager.findCompleted(INFO.pageUrl, { container: 'webm', allowTranscode: false }), undefined);
+    assert.equal(manager.findCompleted('https://example.com/other.mp4', { container: 'mp4', allowTranscode: false }), undefined);
+    await fs.promises.rm(manager.outputPath(job));
+    assert.equal(manager.findCompleted(INFO.pageUrl, { container: 'mp4', allowTranscode: false }), undefined);
+});
+
+// A history write may still be in flight
+await fs.promises.rm(dataDir, { recursive: true, force: true, maxRetries: 5 });
+console.log(`${total - failures}/${total} job checks passed`);
+process.exit(failures > 0 ? 1 : 0);
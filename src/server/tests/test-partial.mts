@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { MediaFormat } from '../providers';
+import { PartialDownload } from '../utils/partial';
+
+const CONTENT = Buffer.from('0123456789'.repeat(1000));
+
+const makeFormat = (itag = 1): MediaFormat => ({
+    itag,
+    quality: '',
+    hasAudio: false,
+    hasVideo: true,
+    container: 'mp4',
+    contentLength: String(CONTENT.length)
+});
+
+// Serves CONTENT from `start`, optionally failing like a dropped connection after `failAt` bytes
+const source = (start: number, failAt?: number) => Readable.from((async function* () {
+    const end = failAt === undefined ? CONTENT.length : start + failAt;
+    for (let offset = start; offset < end; offset += 1000) {
+        yield CONTENT.subarray(offset, Math.min(offset + 1000, end));
+    }
+    if (failAt !== undefined) throw new Error('read ECONNRESET');
+})());
+
+let failures = 0;
+let total = 0;
+
+const check = async (name: string, run: (directory: string) => Promise<void>) => {
+    total++;
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'partial-test-'));
+    try {
+        await run(directory);
+    } catch (error) {
+        failures++;
+        console.error(`✗ ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : error}`);
+    } finally {
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+};
+
+await check('an interrupted piece continues after the bytes received', async (directory) => {
+    const first = await PartialDownload.open(directory, 'abc');
+    assert.equal(await first.resumeOffset('video', makeFormat(), true), 0);
+    await assert.rejects(first.save('video', makeFormat(), 0, source(0, 4000)), /ECONNRESET/);
+
+    const second = await PartialDownload.open(directory, 'abc');
+    const start = await second.resumeOffset('video', makeFormat(), true);
+    assert.equal(start, 4000);
+    await second.save('video', makeFormat(), 4000, source(4000));
+    assert.deepEqual(await fs.promises.readFile(second.piecePath('video')), CONTENT);
+});
+
+await check('a complete piece is not downloaded again', async (directory) => {
+    const first = await PartialDownload.open(directory, 'abc');
+    await first.save('video', makeFormat(), 0, source(0));
+    const second = await PartialDownload.open(directory, 'abc');
+    assert.equal(await second.resumeOffset('video', makeFormat(), true), null);
+});
+
+await check('bytes past the manifest count are cut off', async (directory) => {
+    const first = await PartialDownload.open(directory, 'abc');
+    await assert.rejects(first.save('video', makeFormat(), 0, source(0, 3000)), /ECONNRESET/);
+    await fs.promises.appendFile(first.piecePath('video'), 'garbage');
+
+    const second = await PartialDownload.open(directory, 'abc');
+    assert.equal(await second.resumeOffset('video', makeFormat(), true), 3000);
+    assert.equal((await fs.promises.stat(second.piecePath('video'))).size, 3000);
+});
+
+await check('another format, video or source without ranges starts over', async (directory) => {
+    const first = await PartialDownload.open(directory, 'abc');
+    await assert.rejects(first.save('video', makeFormat(), 0, source(0, 3000)), /ECONNRESET/);
+
+    assert.equal(await (await PartialDownload.open(directory, 'abc')).resumeOffset('video', makeFormat(), false), 0);
+    await assert.rejects(first.save('video', makeFormat(), 0, source(0, 3000)), /ECONNRESET/);
+    assert.equal(await (await PartialDownload.open(directory, 'abc')).resumeOffset('video', makeFormat(2), true), 0);
+    await assert.rejects(first.save('video', makeFormat(), 0, source(0, 3000)), /ECONNRESET/);
+    const other = await PartialDownload.open(directory, 'xyz');
+    assert.equal(await other.resumeOffset('video', makeFormat(), true), 0);
+    assert.equal((await fs.promises.stat(other.piecePath('video'))).size, 0);
+});
+
+await check('a source that already flows into a progress listener loses no bytes', async (directory) => {
+    const partial = await PartialDownload.open(directory, 'abc');
+    const flowing = source(0);
+    let counted = 0;
+    flowing.on('data', (chunk: Buffer) => {
+        counted += chunk.length;
+    });
+    await partial.save('video', makeFormat(), 0, flowing);
+    assert.equal(counted, CONTENT.length);
+    assert.deepEqual(await fs.promises.readFile(partial.piecePath('video')), CONTENT);
+});
+
+console.log(`${total - failures}/${total} partial download checks passed`);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { DownloaderError } from '../utils/errors';
+import { applyPreset, resolveEncoding } from '../utils/presets';
+
+let failures = 0;
+let total = 0;
+
+const check = (name: string, run: () => void) => {
+    total++;
+    try {
+        run();
+    } catch (error) {
+        failures++;
+        console.error(`✗ ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : error}`);
+    }
+};
+
+const isInvalidOptions = (pattern: RegExp) => (error: unknown) =>
+    error instanceof DownloaderError && error.code === 'INVALID_OPTIONS' && pattern.test(error.message);
+
+check('a preset fixes the container and filter but keeps a requested audio bitrate', () => {
+    const options = applyPreset({ preset: 'compatible-720p', container: 'mkv', filter: 'audioonly', audioBitrate: 160 });
+    assert.equal(options.container, 'mp4');
+    assert.equal(options.filter, 'audioandvideo');
+    assert.equal(options.audioBitrate, 160);
+    assert.deepEqual(applyPreset(options), options);
+    assert.equal(applyPreset({ preset: 'podcast' }).audioBitrate, 64);
+});
+
+check('downloads without a preset or custom settings stream-copy', () => {
+    assert.equal(resolveEncoding({ container: 'mp4', audioBitrate: 128 }, 60), null);
+});
+
+check('custom settings override the preset', () => {
+    const settings = resolveEncoding({ preset: 'compatible-720p', maxHeight: 480, fps: 24 }, 60);
+    assert.equal(settings?.maxHeight, 480);
+    assert.equal(settings?.fps, 24);
+    assert.equal(settings?.twoPass, false);
+});
+
+check('a size target becomes a two-pass bitrate that leaves room for the audio', () => {
+    // 10 MB over 100s at 95% is 760 kbps, 96 of them audio
+    const settings = resolveEncoding({ preset: 'small', targetSizeMb: 10 }, 100);
+    assert.equal(settings?.videoBitrate, 664);
+    assert.equal(settings?.twoPass, true);
+    assert.equal(settings?.maxHeight, 480);
+});
+
+check('size targets too small, without a length or with a bitrate are refused', () => {
+    assert.throws(() => resolveEncoding({ preset: 'small', targetSizeMb: 1 }, 600), isInvalidOptions(/at least \d+ MB/));
+    assert.throws(() => resolveEncoding({ preset: 'small', targetSizeMb: 10 }, 0), isInvalidOptions(/length/));
+    assert.throws(() => resolveEncoding({ preset: 'small' }, 60), isInvalidOptions(/targetSizeMb/));
+    assert.throws(() => resolveEncoding({ preset: 'small', targetSizeMb: 10, videoBitrate: 500 }, 60), isInvalidOptions(/videoBitrate/));
+});
+
+check('clip presets refuse long media and no preset runs without transcoding', () => {
+    assert.throws(() => resolveEncoding({ preset: 'gif' }, 31), isInvalidOptions(/at most 30s/));
+    assert.ok(resolveEncoding({ preset: 'gif' }, 30));
+    assert.throws(() => resolveEncoding({ preset: 'podcast', allowTranscode: false }, 60), isInvalidOptions(/allowTranscode/));
+    assert.throws(() => resolveEncoding({ maxHeight: 720, allowTranscode: false }, 60), isInvalidOptions(/allowTranscode/));
+});
+
+console.log(`${total - failures}/${total} preset checks passed`);
+process.exit(failures > 0 ? 1 : 0);
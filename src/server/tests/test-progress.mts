@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { DownloadProgress } from '../../shared/types';
+import { ProgressTracker, ProgressTrackerOptions } from '../utils/progressTracker';
+
+let failures = 0;
+let total = 0;
+
+const check = async (name: string, run: () => Promise<void> | void) => {
+    total++;
+    try {
+        await run();
+    } catch (error) {
+        failures++;
+        console.error(`✗ ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : error}`);
+    }
+};
+
+const track = (options: ProgressTrackerOptions) => {
+    const reports: DownloadProgress[] = [];
+    return { tracker: new ProgressTracker(options, progress => reports.push(progress)), reports };
+};
+
+await check('phases follow the downloads, then ffmpeg, then the hand-over', () => {
+    const { tracker, reports } = track({ streams: { video: 1000, audio: 500 }, duration: 10, concurrent: false, downloadShare: 0.5 });
+    tracker.start();
+    tracker.addBytes('video', 1000);
+    tracker.finishStream('video');
+    tracker.addBytes('audio', 500);
+    tracker.finishStream('audio');
+    tracker.setPhase('muxing');
+    tracker.finish();
+    const phases = reports.map(report => report.phase).filter((phase, i, all) => phase !== all[i - 1]);
+    assert.deepEqual(phases, ['downloading-video', 'downloading-audio', 'muxing', 'finalizing']);
+    assert.equal(reports.at(-1)?.percentage, 100);
+});
+
+await check('downloads through files fill their share before ffmpeg takes the rest', () => {
+    const { tracker } = track({ streams: { video: 1000, audio: 1000 }, duration: 100, concurrent: false, downloadShare: 0.5 });
+    tracker.start();
+    tracker.addBytes('video', 1000);
+    tracker.finishStream('video');
+    assert.equal(tracker.snapshot().percentage, 25);
+    assert.deepEqual(tracker.snapshot().video, { downloadedBytes: 1000, totalBytes: 1000 });
+    tracker.finishStream('audio');
+    tracker.setPhase('muxing');
+    assert.equal(tracker.snapshot().percentage, 50);
+    tracker.ffmpegProgress('00:00:50.00');
+    assert.equal(tracker.snapshot().percentage, 75);
+});
+
+await check('a two-pass encode splits the ffmpeg share between its passes', () => {
+    const { tracker } = track({ streams: { video: 1000 }, duration: 100, concurrent: false, downloadShare: 0.5, passes: 2 });
+    tracker.start();
+    tracker.addBytes('video', 1000);
+    tracker.finishStream('video');
+    tracker.setPhase('analyzing');
+    tracker.ffmpegProgress('00:01:40.00');
+    assert.equal(tracker.snapshot().percentage, 75);
+    tracker.setPhase('muxing');
+    assert.equal(tracker.snapshot().percentage, 75);
+    tracker.ffmpegProgress('00:00:50.00');
+    assert.equal(tracker.snapshot().percentage, 87.5);
+});
+
+await check('piped downloads count whichever of bytes and ffmpeg is further along', () => {
+    const { tracker } = track({ streams: { video: 1000 }, duration: 100, concurrent: true });
+    tracker.start();
+    tracker.addBytes('video', 200);
+    tracker.ffmpegProgress('00:00:40.00');
+    assert.equal(tracker.snapshot().percentage, 40);
+    tracker.addBytes('video', 400);
+    assert.equal(tracker.snapshot().percentage, 60);
+});
+
+await check('sources and media of unknown size never divide by zero', () => {
+    const { tracker } = track({ streams: { video: 0, audio: 0 }, duration: 0, concurrent: true });
+    tracker.start();
+    tracker.addBytes('video', 5000);
+    tracker.ffmpegProgress('00:00:10.00');
+    const snapshot = tracker.snapshot();
+    assert.equal(snapshot.percentage, 0);
+    assert.equal(snapshot.eta, undefined);
+    assert.equal(snapshot.downloadedBytes, 5000);
+});
+
+await check('the percentage stays below 100 until the file is handed over', () => {
+    const { tracker } = track({ streams: { video: 1000 }, duration: 10, concurrent: true });
+    tracker.start();
+    tracker.addBytes('video', 1500);
+    tracker.finishStream('video');
+    assert.ok(tracker.snapshot().percentage < 100);
+    tracker.finish();
+    assert.equal(tracker.snapshot().percentage, 100);
+});
+
+await check('resumed bytes count towards the total but not the speed', async () => {
+    const { tracker } = track({ streams: { video: 10000 }, duration: 10, concurrent: false });
+    tracker.resume('video', 8000);
+    tracker.start();
+    await new Promise(resolve => setTimeout(resolve, 1050));
+    tracker.addBytes('video', 1000);
+    const snapshot = tracker.snapshot();
+    assert.equal(snapshot.downloadedBytes, 9000);
+    assert.ok(snapshot.speed !== undefined && snapshot.speed < 1500, `speed ${snapshot.speed}`);
+    assert.ok(snapshot.eta !== undefined && snapshot.eta >= 1, `eta ${snapshot.eta}`);
+});
+
+console.log(`${total - failures}/${total} progress checks passed`);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,397 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import http from 'node:http';
+import net, { AddressInfo } from 'node:net';
+import { Readable } from 'node:stream';
+import { getGlobalDispatcher } from 'undici';
+import { findProvider } from '../providers';
+import { DirectMediaProvider } from '../providers/direct';
+import { HlsProvider, parseMasterPlaylist, parseMediaPlaylist } from '../providers/hls';
+import { fetchCaptionCues } from '../utils/captions';
+import { DownloaderError } from '../utils/errors';
+import { YouTubeDownloader } from '../utils/ytdl';
+
+// ytdl-core's first request installs its own undici as the dispatcher of the global fetch
+getGlobalDispatcher();
+
+// Fixture server: a media file with Range support, one that drops the connection halfway,
+// and HLS playlists (master, fMP4 with byte ranges, AES-128, live, one that grows on every reload)
+
+const MEDIA = crypto.randomBytes(256 * 1024);
+const INIT = Buffer.from('init-section');
+const SEGMENTS = [crypto.randomBytes(1000), crypto.randomBytes(1500), crypto.randomBytes(700)];
+const KEY = crypto.randomBytes(16);
+const IV = crypto.randomBytes(16);
+
+// The fMP4 playlist addresses its segments as byte ranges of one file, right after the init section
+const FMP4_FILE = Buffer.concat([INIT, ...SEGMENTS]);
+
+const encrypt = (data: Buffer, iv: Buffer) => {
+    const cipher = crypto.createCipheriv('aes-128-cbc', KEY, iv);
+    return Buffer.concat([cipher.update(data), cipher.final()]);
+};
+const sequenceIv = (sequence: number) => {
+    const iv = Buffer.alloc(16);
+    iv.writeUInt32BE(sequence, 12);
+    return iv;
+};
+
+const PLAYLISTS: Record<string, string> = {
+    '/hls/master.m3u8': [
+        '#EXTM3U',
+        '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="English",LANGUAGE="en",DEFAULT=YES,URI="audio/en.m3u8"',
+        '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="Deutsch",LANGUAGE="de",URI="audio/de.m3u8"',
+        '#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360,CODECS="avc1.4d401e,mp4a.40.2",AUDIO="aud"',
+        '360.m3u8',
+        '#EXT-X-STREAM-INF:BANDWIDTH=2500000,RESOLUTION=1280x720,FRAME-RATE=29.97,CODECS="avc1.4d401f,mp4a.40.2",AUDIO="aud"',
+        'fmp4.m3u8'
+    ].join('\n'),
+    '/hls/fmp4.m3u8': [
+        '#EXTM3U',
+        '#EXT-X-VERSION:7',
+        '#EXT-X-TARGETDURATION:6',
+        `#EXT-X-MAP:URI="media.mp4",BYTERANGE="${INIT.length}@0"`,
+        `#EXTINF:6.0,`,
+        `#EXT-X-BYTERANGE:${SEGMENTS[0].length}@${INIT.length}`,
+        'media.mp4',
+        '#EXTINF:6.0,',
+        `#EXT-X-BYTERANGE:${SEGMENTS[1].length}`,
+        'media.mp4',
+        '#EXTINF:4.5,',
+        `#EXT-X-BYTERANGE:${SEGMENTS[2].length}`,
+        'media.mp4',
+        '#EXT-X-ENDLIST'
+    ].join('\n'),
+    '/hls/encrypted.m3u8': [
+        '#EXTM3U',
+        '#EXT-X-MEDIA-SEQUENCE:7',
+        '#EXT-X-KEY:METHOD=AES-128,URI="key.bin"',
+        '#EXTINF:4,',
+        'enc0.ts',
+        '#EXTINF:4,',
+        'enc1.ts',
+        `#EXT-X-KEY:METHOD=AES-128,URI="key.bin",IV=0x${IV.toString('hex')}`,
+        '#EXTINF:4,',
+        'enc2.ts',
+        '#EXT-X-ENDLIST'
+    ].join('\n'),
+    '/hls/sample-aes.m3u8': [
+        '#EXTM3U',
+        '#EXT-X-KEY:METHOD=SAMPLE-AES,URI="skd://drm"',
+        '#EXTINF:4,',
+        'enc0.ts',
+        '#EXT-X-ENDLIST'
+    ].join('\n'),
+    '/hls/live.m3u8': [
+        '#EXTM3U',
+        '#EXT-X-MEDIA-SEQUENCE:100',
+        '#EXTINF:2,',
+        'enc0.ts',
+        '#EXTINF:2,',
+        'enc1.ts'
+    ].join('\n')
+};
+
+// Both variants point at the same media, only the advertised bandwidth differs
+PLAYLISTS['/hls/360.m3u8'] = PLAYLISTS['/hls/fmp4.m3u8'];
+
+const LIVE_SEGMENTS = Array.from({ length: 7 }, (_, sequence) => Buffer.from(`live segment ${sequence}`));
+
+// The window slides by two segments per reload: 0-3, 2-5, then 4-6 and the broadcast ends
+const growingPlaylist = (reload: number) => {
+    const first = reload * 2;
+    const last = Math.min(first + 3, LIVE_SEGMENTS.length - 1);
+    return [
+        '#EXTM3U',
+        '#EXT-X-TARGETDURATION:1',
+        `#EXT-X-MEDIA-SEQUENCE:${first}`,
+        ...Array.from({ length: last - first + 1 }, (_, index) => [`#EXTINF:1,`, `live/${first + index}.ts`]).flat(),
+        ...(reload >= 2 ? ['#EXT-X-ENDLIST'] : [])
+    ].join('\n');
+};
+const growingReloads = new Map<string, number>();
+
+const FILES: Record<string, Buffer> = {
+    '/media/Holiday%20Clip.mp4': MEDIA,
+    '/media/flaky.mp4': MEDIA,
+    '/media/no-range.mp4': MEDIA,
+    '/hls/media.mp4': FMP4_FILE,
+    '/hls/key.bin': KEY,
+    '/hls/enc0.ts': encrypt(SEGMENTS[0], sequenceIv(7)),
+    '/hls/enc1.ts': encrypt(SEGMENTS[1], sequenceIv(8)),
+    '/hls/enc2.ts': encrypt(SEGMENTS[2], IV),
+    ...Object.fromEntries(LIVE_SEGMENTS.map((segment, sequence) => [`/hls/live/${sequence}.ts`, segment]))
+};
+
+let flakyRequests = 0;
+
+const server = http.createServer((req, res) => {
+    const path = req.url ?? '';
+    // Each query string is a separate broadcast, so every check starts from the first reload
+    if (path.startsWith('/hls/growing.m3u8')) {
+        const reload = growingReloads.get(path) ?? 0;
+        growingReloads.set(path, reload + 1);
+        res.writeHead(200, { 'Content-Type': 'application/vnd.apple.mpegurl' });
+        res.end(growingPlaylist(reload));
+        return;
+    }
+    if (PLAYLISTS[path]) {
+        res.writeHead(200, { 'Content-Type': 'application/vnd.apple.mpegurl' });
+        res.end(PLAYLISTS[path]);
+        return;
+    }
+
+    const file = FILES[path];
+    if (!file) {
+        res.writeHead(404).end();
+        return;
+    }
+
+    const supportsRange = path !== '/media/no-range.mp4';
+    const range = supportsRange ? /bytes=(\d+)-(\d*)/.exec(req.headers.range ?? '') : null;
+    const start = range ? Number(range[1]) : 0;
+    const end = range && range[2] ? Number(range[2]) : file.length - 1;
+    const body = file.subarray(start, end + 1);
+
+    res.writeHead(range ? 206 : 200, {
+        'Content-Type': 'video/mp4',
+        'Content-Length': body.length,
+        ...(supportsRange ? { 'Accept-Ranges': 'bytes' } : {}),
+        ...(range ? { 'Content-Range': `bytes ${start}-${end}/${file.length}` } : {})
+    });
+    if (req.method === 'HEAD') {
+        res.end();
+        return;
+    }
+
+    // The first two full downloads of the flaky files die a third of the way in
+    const dropsConnection = (path === '/media/flaky.mp4' || path === '/media/no-range.mp4') && !range && flakyRequests++ < 2;
+    if (dropsConnection) {
+        res.write(body.subarray(0, Math.floor(body.length / 3)), () => res.destroy());
+        return;
+    }
+    res.end(body);
+});
+
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+// An HTTP/1.0 server without Content-Length: the body ends when the connection closes
+const LARGE_MEDIA = crypto.randomBytes(4 * 1024 * 1024);
+const CAPTIONS = { events: [{ tStartMs: 1500, dDurationMs: 2000, segs: [{ utf8: 'Hello there' }] }] };
+const closeServer = net.createServer(socket => {
+    socket.once('data', data => {
+        const head = 'HTTP/1.0 200 OK\r\nContent-Type: video/mp4\r\nConnection: close\r\n\r\n';
+        if (data.toString().startsWith('HEAD')) {
+            socket.end(head);
+            return;
+        }
+        if (data.toString().startsWith('GET /captions')) {
+            socket.end(`HTTP/1.0 200 OK\r\nContent-Type: application/json\r\nConnection: close\r\n\r\n${JSON.stringify(CAPTIONS)}`);
+            return;
+        }
+        socket.write(head);
+        socket.end(LARGE_MEDIA);
+    });
+});
+await new Promise<void>(resolve => closeServer.listen(0, '127.0.0.1', resolve));
+const closeBase = `http://127.0.0.1:${(closeServer.address() as AddressInfo).port}`;
+
+const readAll = async (stream: Readable) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+    return Buffer.concat(chunks);
+};
+
+let failures = 0;
+let total = 0;
+
+const check = async (name: string, run: () => Promise<void> | void) => {
+    total++;
+    try {
+        await run();
+    } catch (error) {
+        failures++;
+        console.error(`✗ ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : error}`);
+    }
+};
+
+const hls = new HlsProvider();
+const direct = new DirectMediaProvider();
+
+await check('providers are picked by URL', () => {
+    assert.equal(findProvider('https://www.youtube.com/watch?v=dQw4w9WgXcQ')?.name, 'YouTube');
+    assert.equal(findProvider('https://youtu.be/dQw4w9WgXcQ')?.name, 'YouTube');
+    assert.equal(findProvider(`${base}/hls/master.m3u8?token=abc`)?.name, 'HLS');
+    assert.equal(findProvider(`${base}/media/clip.MP4`)?.name, 'Direct media');
+    assert.equal(findProvider(`${base}/audio/song.mp3`)?.name, 'Direct media');
+    assert.equal(findProvider('https://example.com/page.html'), null);
+    assert.equal(findProvider('ftp://example.com/clip.mp4'), null);
+    assert.equal(YouTubeDownloader.validateUrl(`${base}/hls/master.m3u8`), true);
+});
+
+await check('parseMasterPlaylist reads variants and audio renditions', () => {
+    const master = parseMasterPlaylist(PLAYLISTS['/hls/master.m3u8'], `${base}/hls/master.m3u8`);
+    assert.equal(master.variants.length, 2);
+    assert.deepEqual(master.variants[1], {
+        uri: `${base}/hls/fmp4.m3u8`,
+        bandwidth: 2500000,
+        height: 720,
+        fps: 30,
+        codecs: ['avc1.4d401f', 'mp4a.40.2'],
+        audioGroup: 'aud'
+    });
+    assert.deepEqual(master.audio.map(rendition => [rendition.language, rendition.isDefault]), [['en', true], ['de', false]]);
+    assert.equal(master.audio[0].uri, `${base}/hls/audio/en.m3u8`);
+});
+
+await check('parseMediaPlaylist follows byte ranges, keys and sequence numbers', () => {
+    const fmp4 = parseMediaPlaylist(PLAYLISTS['/hls/fmp4.m3u8'], `${base}/hls/fmp4.m3u8`);
+    assert.equal(fmp4.duration, 16.5);
+    assert.equal(fmp4.isLive, false);
+    assert.deepEqual(fmp4.segments.map(segment => segment.byteRange?.offset), [
+        INIT.length,
+        INIT.length + SEGMENTS[0].length,
+        INIT.length + SEGMENTS[0].length + SEGMENTS[1].length
+    ]);
+    assert.deepEqual(fmp4.segments[0].map, { uri: `${base}/hls/media.mp4`, byteRange: { length: INIT.length, offset: 0 } });
+
+    const encrypted = parseMediaPlaylist(PLAYLISTS['/hls/encrypted.m3u8'], `${base}/hls/encrypted.m3u8`);
+    assert.deepEqual(encrypted.segments.map(segment => segment.sequence), [7, 8, 9]);
+    assert.equal(encrypted.segments[0].key?.uri, `${base}/hls/key.bin`);
+    assert.deepEqual(encrypted.segments[2].key?.iv, IV);
+
+    assert.equal(parseMediaPlaylist(PLAYLISTS['/hls/live.m3u8'], base).isLive, true);
+});
+
+await check('HlsProvider.getInfo lists variants and separate audio', async () => {
+    const info = await hls.getInfo(`${base}/hls/master.m3u8`);
+    assert.equal(info.details.title, 'hls');
+    assert.equal(info.details.duration, '17');
+    assert.equal(info.details.isLive, false);
+    assert.deepEqual(info.formats.map(format => [format.itag, format.hasVideo, format.hasAudio]), [
+        [1, true, false],
+        [2, true, false],
+        [3, false, true],
+        [4, false, true]
+    ]);
+    assert.equal(info.formats[1].quality, '720p');
+    assert.equal(info.formats[1].videoCodec, 'avc1.4d401f');
+    assert.equal(info.formats[2].audioCodec, 'mp4a.40.2');
+    // 800 kbit/s for 16.5 s
+    assert.equal(info.formats[0].contentLength, String(800000 / 8 * 16.5));
+});
+
+await check('HlsProvider streams the init section and byte-range segments in order', async () => {
+    const info = await hls.getInfo(`${base}/hls/fmp4.m3u8`);
+    assert.equal(info.formats.length, 1);
+    assert.deepEqual(await readAll(hls.openStream(info, info.formats[0])), FMP4_FILE);
+});
+
+await check('HlsProvider decrypts AES-128 segments', async () => {
+    const info = await hls.getInfo(`${base}/hls/encrypted.m3u8`);
+    assert.deepEqual(await readAll(hls.openStream(info, info.formats[0])), Buffer.concat(SEGMENTS));
+});
+
+await check('HlsProvider refuses SAMPLE-AES', async () => {
+    const info = await hls.getInfo(`${base}/hls/sample-aes.m3u8`);
+    await assert.rejects(readAll(hls.openStream(info, info.formats[0])), { code: 'NO_FORMATS' });
+});
+
+await check('a live playlist is reported as live', async () => {
+    assert.equal((await hls.getInfo(`${base}/hls/live.m3u8`)).details.isLive, true);
+});
+
+await check('live recordings reject trimming and zero-length limits', async () => {
+    const url = `${base}/hls/live.m3u8`;
+    await assert.rejects(YouTubeDownloader.createDownloadStream(url, { startTime: 10 }), { code: 'INVALID_OPTIONS' });
+    await assert.rejects(YouTubeDownloader.createDownloadStream(url, { maxDuration: '0:00' }), { code: 'INVALID_OPTIONS' });
+});
+
+await check('HlsProvider follows a live playlist from the live edge until it ends', async () => {
+    const info = await hls.getInfo(`${base}/hls/growing.m3u8?edge`);
+    growingReloads.clear();
+    const recorded = await readAll(hls.openLiveStream(info, info.formats[0], { fromStart: false }));
+    assert.deepEqual(recorded, Buffer.concat(LIVE_SEGMENTS.slice(1)));
+});
+
+await check('HlsProvider records a live playlist from the oldest segment it still offers', async () => {
+    const info = await hls.getInfo(`${base}/hls/growing.m3u8?start`);
+    growingReloads.clear();
+    const recorded = await readAll(hls.openLiveStream(info, info.formats[0], { fromStart: true }));
+    assert.deepEqual(recorded, Buffer.concat(LIVE_SEGMENTS));
+});
+
+await check('HlsProvider stops following a live playlist when aborted', async () => {
+    const info = await hls.getInfo(`${base}/hls/growing.m3u8?abort`);
+    growingReloads.clear();
+    const controller = new AbortController();
+    const stream = hls.openLiveStream(info, info.formats[0], { fromStart: true, signal: controller.signal });
+    stream.once('data', () => controller.abort());
+    await assert.rejects(readAll(stream), { name: 'AbortError' });
+});
+
+await check('DirectMediaProvider.getInfo reads size and name from the server', async () => {
+    const info = await direct.getInfo(`${base}/media/Holiday%20Clip.mp4`);
+    assert.equal(info.details.title, 'Holiday Clip');
+    assert.equal(info.details.author, '127.0.0.1');
+    assert.equal(info.formats.length, 1);
+    assert.equal(info.formats[0].contentLength, String(MEDIA.length));
+    assert.equal(info.formats[0].hasVideo, true);
+    assert.equal(info.details.videoId, (await direct.getInfo(`${base}/media/Holiday%20Clip.mp4`)).details.videoId);
+});
+
+await check('DirectMediaProvider streams the whole file', async () => {
+    const info = await direct.getInfo(`${base}/media/Holiday%20Clip.mp4`);
+    assert.deepEqual(await readAll(direct.openStream(info, info.formats[0])), MEDIA);
+});
+
+await check('DirectMediaProvider resumes a dropped connection with Range requests', async () => {
+    flakyRequests = 0;
+    const info = await direct.getInfo(`${base}/media/flaky.mp4`);
+    assert.deepEqual(await readAll(direct.openStream(info, info.formats[0])), MEDIA);
+});
+
+await check('DirectMediaProvider gives up when the server cannot resume', async () => {
+    flakyRequests = 0;
+    const info = await direct.getInfo(`${base}/media/no-range.mp4`);
+    await assert.rejects(readAll(direct.openStream(info, info.formats[0])), /does not support resuming/);
+});
+
+await check('DirectMediaProvider reads close-delimited bodies at the pace of a slow consumer', async () => {
+    const info = await direct.getInfo(`${closeBase}/media/old-server.mp4`);
+    const chunks: Buffer[] = [];
+    for await (const chunk of direct.openStream(info, info.formats[0])) {
+        chunks.push(chunk);
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    assert.deepEqual(Buffer.concat(chunks), LARGE_MEDIA);
+});
+
+await check('caption tracks are read from close-delimited responses', async () => {
+    const info = {
+        player_response: { captions: { playerCaptionsTracklistRenderer: { captionTracks: [
+            { baseUrl: `${closeBase}/captions?lang=en`, languageCode: 'en', name: { simpleText: 'English' }, kind: '' }
+        ] } } }
+    } as unknown as Parameters<typeof fetchCaptionCues>[0];
+    assert.deepEqual(await fetchCaptionCues(info, 'en'), [{ start: 1.5, end: 3.5, text: 'Hello there' }]);
+});
+
+await check('formats endpoint data leaves out provider internals', async () => {
+    const formats = await YouTubeDownloader.getVideoFormats(`${base}/hls/master.m3u8`);
+    assert.equal(formats.length, 4);
+    assert.equal('url' in formats[0], false);
+});
+
+await check('missing files are classified as unavailable', async () => {
+    await assert.rejects(YouTubeDownloader.getVideoInfo(`${base}/hls/missing.m3u8`), (error: unknown) => {
+        assert.ok(error instanceof DownloaderError);
+        assert.equal(error.code, 'VIDEO_UNAVAILABLE');
+        return true;
+    });
+});
+
+server.close();
+closeServer.close();
+console.log(`${total - failures}/${total} provider checks passed`);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,199 @@
+import assert from 'node:assert/strict';
+import { extractVideoId, parseYouTubeUrl, ParsedYouTubeUrl } from '../../shared/youtubeUrl';
+import { isCollectionUrl } from '../../shared/playlist';
+import { YouTubeDownloader } from '../utils/ytdl';
+import { YouTubePlaylist } from '../utils/playlist';
+
+const ID = 'dQw4w9WgXcQ';
+const LIST = 'PLFgquLnL59alCl_2TQvOiD5Vgm1hCaGSI';
+const CHANNEL_ID = 'UC38IQsAvIsxxjztdMZQtwHA';
+
+type Expected = Partial<ParsedYouTubeUrl> | null;
+
+// [input, expected fields] - only the listed fields are compared, null means "not a YouTube URL"
+const cases: [string, Expected][] = [
+    // Watch pages on every host
+    [`https://www.youtube.com/watch?v=${ID}`, { kind: 'video', videoId: ID, playlistId: null, startTime: null }],
+    [`http://youtube.com/watch?v=${ID}`, { kind: 'video', videoId: ID }],
+    [`https://m.youtube.com/watch?v=${ID}`, { kind: 'video', videoId: ID }],
+    [`https://music.youtube.com/watch?v=${ID}`, { kind: 'video', videoId: ID }],
+    [`www.youtube.com/watch?v=${ID}`, { kind: 'video', videoId: ID }],
+    [`youtube.com/watch?v=${ID}`, { kind: 'video', videoId: ID }],
+    [`  https://www.youtube.com/watch?v=${ID}  `, { kind: 'video', videoId: ID }],
+    [`https://WWW.YouTube.com/watch?v=${ID}`, { kind: 'video', videoId: ID }],
+    [`https://www.youtube.com/watch?feature=share&v=${ID}`, { kind: 'video', videoId: ID }],
+    [`https://www.youtube.com/watch/?v=${ID}`, { kind: 'video', videoId: ID }],
+
+    // Query parameters
+    [`https://www.youtube.com/watch?v=${ID}&t=90`, { videoId: ID, startTime: 90 }],
+    [`https://www.youtube.com/watch?v=${ID}&t=90s`, { startTime: 90 }],
+    [`https://www.youtube.com/watch?v=${ID}&t=1m30s`, { startTime: 90 }],
+    [`https://www.youtube.com/watch?v=${ID}&t=1h2m3s`, { startTime: 3723 }],
+    [`https://www.youtube.com/watch?v=${ID}#t=45`, { startTime: 45 }],
+    [`https://www.youtube.com/watch?v=${ID}&t=garbage`, { videoId: ID, startTime: null }],
+    [`https://www.youtube.com/watch?v=${ID}&list=${LIST}`, { kind: 'video', videoId: ID, playlistId: LIST }],
+    [`https://www.youtube.com/watch?v=${ID}&list=${LIST}&index=7`, { playlistId: LIST, index: 7 }],
+    [`https://www.youtube.com/watch?v=${ID}&list=${LIST}&index=0`, { index: null }],
+    [`https://www.youtube.com/watch?v=${ID}&list=${LIST}&index=abc`, { index: null }],
+    [`https://www.youtube.com/watch?v=${ID}&list=WL`, { playlistId: 'WL' }],
+    [`https://www.youtube.com/watch?v=${ID}&list=bad!id`, { playlistId: null }],
+    [`https://music.youtube.com/watch?v=${ID}&list=OLAK5uy_abc123`, { videoId: ID, playlistId: 'OLAK5uy_abc123' }],
+
+    // Short links
+    [`https://youtu.be/${ID}`, { kind: 'video', videoId: ID }],
+    [`youtu.be/${ID}`, { kind: 'video', videoId: ID }],
+    [`https://youtu.be/${ID}?t=42`, { videoId: ID, startTime: 42 }],
+    [`https://youtu.be/${ID}?si=abcdef&list=${LIST}`, { videoId: ID, playlistId: LIST }],
+    [`https://youtu.be/${ID}/extra`, null],
+    ['https://youtu.be/', null],
+
+    // Shorts, embeds, live and legacy paths
+    [`https://www.youtube.com/shorts/${ID}`, { kind: 'short', videoId: ID }],
+    [`https://m.youtube.com/shorts/${ID}?feature=share`, { kind: 'short', videoId: ID }],
+    [`https://www.youtube.com/embed/${ID}`, { kind: 'video', videoId: ID }],
+    [`https://www.youtube.com/embed/${ID}?start=30`, { videoId: ID, startTime: 30 }],
+    [`https://www.youtube-nocookie.com/embed/${ID}`, { kind: 'video', videoId: ID }],
+    [`https://youtube-nocookie.com/embed/${ID}?start=5`, { videoId: ID, startTime: 5 }],
+    [`https://www.youtube.com/embed/videoseries?list=${LIST}`, { kind: 'playlist', videoId: null, playlistId: LIST }],
+    [`https://www.youtube.com/live/${ID}`, { kind: 'live', videoId: ID }],
+    [`https://www.youtube.com/live/${ID}?si=xyz`, { kind: 'live', videoId: ID }],
+    [`https://www.youtube.com/v/${ID}`, { kind: 'video', videoId: ID }],
+    [`https://www.youtube.com/e/${ID}`, { kind: 'video', videoId: ID }],
+
+    // Playlists
+    [`https://www.youtube.com/playlist?list=${LIST}`, { kind: 'playlist', videoId: null, playlistId: LIST }],
+    [`https://music.youtube.com/playlist?list=${LIST}`, { kind: 'playlist', playlistId: LIST }],
+    [`https://m.youtube.com/playlist?list=${LIST}`, { kind: 'playlist', playlistId: LIST }],
+    ['https://www.youtube.com/playlist', null],
+    ['https://www.youtube.com/playlist?list=', null],
+
+    // Channels
+    ['https://www.youtube.com/@SomeCreator', { kind: 'channel', channel: '@SomeCreator', videoId: null }],
+    ['https://www.youtube.com/@SomeCreator/videos', { kind: 'channel', channel: '@SomeCreator' }],
+    ['https://www.youtube.com/@SomeCreator/streams', { kind: 'channel' }],
+    ['https://www.youtube.com/@SomeCreator/shorts', { kind: 'channel' }],
+    ['https://m.youtube.com/@SomeCreator', { kind: 'channel', channel: '@SomeCreator' }],
+    [`https://www.youtube.com/channel/${CHANNEL_ID}`, { kind: 'channel', channel: CHANNEL_ID }],
+    [`https://www.youtube.com/channel/${CHANNEL_ID}/videos`, { kind: 'channel', channel: CHANNEL_ID }],
+    ['https://www.youtube.com/c/SomeName', { kind: 'channel', channel: 'SomeName' }],
+    ['https://www.youtube.com/user/SomeUser', { kind: 'channel', channel: 'SomeUser' }],
+    ['https://www.youtube.com/@SomeCreator/unknown-tab', null],
+    ['https://www.youtube.com/@SomeCreator/videos/extra', null],
+    ['https://www.youtube.com/@', null],
+
+    // A channel's live page points at whatever is streaming, so there is no video ID yet
+    ['https://www.youtube.com/@SomeCreator/live', { kind: 'live', videoId: null, channel: '@SomeCreator' }],
+    [`https://www.youtube.com/channel/${CHANNEL_ID}/live`, { kind: 'live', videoId: null }],
+
+    // Malformed video IDs
+    ['https://www.youtube.com/watch?v=short', null],
+    [`https://www.youtube.com/watch?v=${ID}x`, null],
+    ['https://www.youtube.com/watch?v=abc$def!ghi', null],
+    ['https://www.youtube.com/watch', null],
+    ['https://www.youtube.com/shorts/', null],
+    ['https://www.youtube.com/embed/', null],
+
+    // Not YouTube at all
+    ['', null],
+    ['   ', null],
+    ['not a url', null],
+    ['https://invalid-url.com', null],
+    [`https://vimeo.com/watch?v=${ID}`, null],
+    [`https://youtube.com.evil.example/watch?v=${ID}`, null],
+    [`https://notyoutube.com/watch?v=${ID}`, null],
+    [`https://gaming.youtube-nocookie.com/embed/${ID}`, null],
+    [`https://www.youtube-nocookie.com/watch?v=${ID}`, null],
+    [`ftp://www.youtube.com/watch?v=${ID}`, null],
+    [`javascript:alert('https://www.youtube.com/watch?v=${ID}')`, null],
+    ['https://www.youtube.com/', null],
+    ['https://www.youtube.com/feed/subscriptions', null],
+    ['https://www.youtube.com/results?search_query=test', null]
+];
+
+// [input, canonical URL]
+const canonicalCases: [string, string][] = [
+    [`https://m.youtube.com/shorts/${ID}`, `https://www.youtube.com/watch?v=${ID}`],
+    [`https://youtu.be/${ID}?t=42`, `https://www.youtube.com/watch?v=${ID}&t=42s`],
+    [`https://www.youtube-nocookie.com/embed/${ID}`, `https://www.youtube.com/watch?v=${ID}`],
+    [`https://music.youtube.com/watch?v=${ID}&list=${LIST}`, `https://www.youtube.com/watch?v=${ID}&list=${LIST}`],
+    [`https://music.youtube.com/playlist?list=${LIST}`, `https://www.youtube.com/playlist?list=${LIST}`],
+    [`https://www.youtube.com/embed/videoseries?list=${LIST}`, `https://www.youtube.com/playlist?list=${LIST}`],
+    ['https://m.youtube.com/@SomeCreator/videos', 'https://www.youtube.com/@SomeCreator/videos'],
+    [`https://www.youtube.com/channel/${CHANNEL_ID}`, `https://www.youtube.com/channel/${CHANNEL_ID}`],
+    ['https://www.youtube.com/user/SomeUser', 'https://www.youtube.com/c/SomeUser'],
+    ['https://www.youtube.com/@SomeCreator/live', 'https://www.youtube.com/@SomeCreator/live']
+];
+
+// [input, extracted video ID]
+const videoIdCases: [string, string | null][] = [
+    [ID, ID],
+    [` ${ID} `, ID],
+    [`https://youtu.be/${ID}`, ID],
+    [`https://www.youtube.com/shorts/${ID}`, ID],
+    [`https://www.youtube.com/playlist?list=${LIST}`, null],
+    ['https://www.youtube.com/@SomeCreator/live', null],
+    ['dQw4w9WgXc', null],
+    ['', null]
+];
+
+// [input, what the client and both server validators say: collection, downloadable video]
+const agreementCases: [string, boolean, boolean][] = [
+    [`https://www.youtube.com/watch?v=${ID}`, false, true],
+    [`https://www.youtube.com/watch?v=${ID}&list=${LIST}`, false, true],
+    [`https://www.youtube.com/shorts/${ID}`, false, true],
+    [`https://www.youtube-nocookie.com/embed/${ID}`, false, true],
+    [`https://www.youtube.com/playlist?list=${LIST}`, true, false],
+    ['https://www.youtube.com/@SomeCreator/videos', true, false],
+    ['https://www.youtube.com/@SomeCreator/live', false, false],
+    ['https://www.youtube.com/feed/subscriptions', false, false]
+];
+
+let failures = 0;
+let total = 0;
+
+const check = (name: string, run: () => void) => {
+    total++;
+    try {
+        run();
+    } catch (error) {
+        failures++;
+        console.error(`✗ ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : error}`);
+    }
+};
+
+for (const [input, expected] of cases) {
+    check(`parseYouTubeUrl(${JSON.stringify(input)})`, () => {
+        const parsed = parseYouTubeUrl(input);
+        if (expected === null) {
+            assert.equal(parsed, null);
+            return;
+        }
+        assert.ok(parsed, 'expected a parsed URL, got null');
+        for (const [key, value] of Object.entries(expected)) {
+            assert.deepEqual(parsed[key as keyof ParsedYouTubeUrl], value, `field "${key}"`);
+        }
+    });
+}
+
+for (const [input, expected] of canonicalCases) {
+    check(`canonicalUrl of ${JSON.stringify(input)}`, () => {
+        assert.equal(parseYouTubeUrl(input)?.canonicalUrl, expected);
+    });
+}
+
+for (const [input, expected] of videoIdCases) {
+    check(`extractVideoId(${JSON.stringify(input)})`, () => {
+        assert.equal(extractVideoId(input), expected);
+    });
+}
+
+for (const [input, collection, video] of agreementCases) {
+    check(`client and server agree on ${JSON.stringify(input)}`, () => {
+        assert.equal(isCollectionUrl(input), collection, 'isCollectionUrl');
+        assert.equal(YouTubePlaylist.validateUrl(input), collection, 'YouTubePlaylist.validateUrl');
+        assert.equal(YouTubeDownloader.validateUrl(input), video, 'YouTubeDownloader.validateUrl');
+    });
+}
+
+console.log(`${total - failures}/${total} URL parser checks passed`);
+process.exit(failures > 0 ? 1 : 0);
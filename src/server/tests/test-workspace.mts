@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { DownloaderError } from '../utils/errors';
+import { WorkspaceManager } from '../utils/workspace';
+
+const MB = 1024 * 1024;
+
+let failures = 0;
+let total = 0;
+
+const check = async (name: string, run: (root: string) => Promise<void>) => {
+    total++;
+    const root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'workspace-test-'));
+    try {
+        await run(root);
+    } catch (error) {
+        failures++;
+        console.error(`✗ ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : error}`);
+    } finally {
+        await fs.promises.rm(root, { recursive: true, force: true });
+    }
+};
+
+const makeManager = (root: string, quotaBytes = 0) =>
+    new WorkspaceManager({ root, quotaBytes, minFreeBytes: 0, staleAfterMs: 60 * 60 * 1000 });
+
+await check('workspaces created at the same time get their own directories', async (root) => {
+    const manager = makeManager(root);
+    const directories = await Promise.all([1, 2, 3, 4].map(() => manager.create()));
+    assert.equal(new Set(directories).size, 4);
+    assert.ok(directories.every(directory => path.dirname(directory) === root));
+});
+
+await check('reservations beyond the quota are refused until space is released', async (root) => {
+    const manager = makeManager(root, 10 * MB);
+    const first = await manager.create();
+    const second = await manager.create();
+    await manager.reserve(first, 6 * MB);
+    await assert.rejects(
+        manager.reserve(second, 6 * MB),
+        (error: unknown) => error instanceof DownloaderError && error.code === 'INSUFFICIENT_STORAGE'
+    );
+    assert.equal(manager.reservedBytes(), 6 * MB);
+
+    await manager.release(first);
+    await manager.reserve(second, 6 * MB);
+    assert.equal(manager.reservedBytes(), 6 * MB);
+});
+
+await check('release removes the directory and may be called twice', async (root) => {
+    const manager = makeManager(root);
+    const directory = await manager.create();
+    await fs.promises.writeFile(path.join(directory, 'temp_video'), 'data');
+    await manager.release(directory);
+    await manager.release(directory);
+    assert.equal(fs.existsSync(directory), false);
+});
+
+await check('the sweep removes stale directories but not ones in use', async (root) => {
+    const manager = makeManager(root);
+    const longAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    const stale = path.join(root, 'ytdownload_crashed');
+    const unrelated = path.join(root, 'something_else');
+    await fs.promises.mkdir(stale);
+    await fs.promises.mkdir(unrelated);
+    const inUse = await manager.create();
+    for (const directory of [stale, unrelated, inUse]) {
+        await fs.promises.utimes(directory, longAgo, longAgo);
+    }
+
+    await manager.sweep();
+    assert.equal(fs.existsSync(stale), false);
+    assert.equal(fs.existsSync(unrelated), true);
+    assert.equal(fs.existsSync(inUse), true);
+});
+
+console.log(`${total - failures}/${total} workspace checks passed`);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,135 @@
+import ytdl from '@distube/ytdl-core';
+import { CaptionTrack, SubtitleFormat } from '../../shared/types';
+import { DownloaderError } from './errors';
+import { fetchOk, readAll } from '../providers/http';
+
+export interface Cue {
+    start: number;
+    end: number;
+    text: string;
+}
+
+interface TimedTextJson {
+    events?: {
+        tStartMs?: number;
+        dDurationMs?: number;
+        segs?: { utf8?: string }[];
+    }[];
+}
+
+const ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' '
+};
+
+const decodeEntities = (text: string) =>
+    text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+        }
+        return ENTITIES[entity.toLowerCase()] ?? match;
+    });
+
+// YouTube's legacy `<transcript><text start="1.2" dur="3.4">...</text></transcript>` format
+export const parseTimedTextXml = (xml: string): Cue[] => {
+    const cues: Cue[] = [];
+    const pattern = /<text\s+start="([\d.]+)"(?:\s+dur="([\d.]+)")?[^>]*>([\s\S]*?)<\/text>/g;
+
+    for (const [, start, duration, body] of xml.matchAll(pattern)) {
+        // Entities are double-encoded in practice (&amp;#39;), and some tracks carry <font> tags
+        const text = decodeEntities(decodeEntities(body.replace(/<[^>]+>/g, ''))).trim();
+        if (!text) continue;
+        const startSeconds = Number(start);
+        cues.push({ start: startSeconds, end: startSeconds + Number(duration ?? 0), text });
+    }
+
+    return cues;
+};
+
+// The `fmt=json3` format, which is what auto-generated tracks are best served as
+export const parseTimedTextJson = (json: TimedTextJson): Cue[] => {
+    const cues: Cue[] = [];
+
+    for (const event of json.events ?? []) {
+        if (!event.segs || event.tStartMs === undefined) continue;
+        const text = event.segs.map(seg => seg.utf8 ?? '').join('').trim();
+        if (!text) continue;
+        const start = event.tStartMs / 1000;
+        cues.push({ start, end: start + (event.dDurationMs ?? 0) / 1000, text });
+    }
+
+    // Auto-generated tracks overlap the next line on screen; clip so players do not stack them
+    for (let i = 0; i < cues.length - 1; i++) {
+        cues[i].end = Math.min(cues[i].end, cues[i + 1].start);
+    }
+
+    return cues;
+};
+
+const formatCueTime = (seconds: number, separator: ',' | '.') => {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+export const toSrt = (cues: Cue[]): string =>
+    cues.map((cue, index) =>
+        `${index + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`
+    ).join('\n');
+
+export const toVtt = (cues: Cue[]): string =>
+    `WEBVTT\n\n${cues.map(cue =>
+        `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.text}\n`
+    ).join('\n')}`;
+
+export const formatCues = (cues: Cue[], format: SubtitleFormat): string =>
+    format === 'vtt' ? toVtt(cues) : toSrt(cues);
+
+const rawCaptionTracks = (info: ytdl.videoInfo): ytdl.captionTrack[] =>
+    info.player_response?.captions?.playerCaptionsTracklistRenderer?.captionTracks ?? [];
+
+export const listCaptionTracks = (info: ytdl.videoInfo): CaptionTrack[] =>
+    rawCaptionTracks(info).map(track => ({
+        languageCode: track.languageCode,
+        name: track.name.simpleText,
+        isAutoGenerated: track.kind === 'asr'
+    }));
+
+/**
+ * Fetches a caption track as cues. Uploaded tracks win over auto-generated ones
+ * for the same language unless `autoGenerated` asks for the latter explicitly.
+ */
+export const fetchCaptionCues = async (
+    info: ytdl.videoInfo,
+    languageCode: string,
+    autoGenerated?: boolean
+): Promise<Cue[]> => {
+    const candidates = rawCaptionTracks(info)
+        .filter(track => track.languageCode === languageCode)
+        .filter(track => autoGenerated === undefined || (track.kind === 'asr') === autoGenerated)
+        .sort((a, b) => Number(a.kind === 'asr') - Number(b.kind === 'asr'));
+
+    const track = candidates[0];
+    if (!track) {
+        throw new DownloaderError('INVALID_OPTIONS', `No ${autoGenerated ? 'auto-generated ' : ''}captions available for language "${languageCode}"`);
+    }
+
+    const url = new URL(track.baseUrl);
+    url.searchParams.set('fmt', 'json3');
+    const body = (await readAll(await fetchOk(url))).toString('utf8');
+    try {
+        return parseTimedTextJson(JSON.parse(body));
+    } catch {
+        // Older tracks ignore fmt=json3 and still answer with XML
+        return parseTimedTextXml(body);
+    }
+};
@@ -0,0 +1,90 @@
+import ytdl from '@distube/ytdl-core';
+import { parseTimestamp } from '../../shared/time';
+import { Chapter } from '../../shared/types';
+
+// A timestamp somewhere on a description line, e.g. "00:00 Intro", "1. Intro - 1:23" or "(1:02:03) Outro"
+const DESCRIPTION_LINE_PATTERN = /^(.*?)[[(]?\b((?:\d+:)?\d{1,2}:\d{2})\b[\])]?(.*)$/;
+
+// Separators and list numbering left around the title once the timestamp is removed
+const cleanTitle = (text: string) =>
+    text
+        .replace(/^\s*(?:\d+[.)]\s+|[-–—:|•*]\s*)/, '')
+        .replace(/\s*[-–—:|•]\s*$/, '')
+        .trim();
+
+// Chapter ends are the next chapter's start, the last one runs to the end of the video
+const withEndTimes = (starts: { title: string; startTime: number }[], duration: number): Chapter[] =>
+    starts.map((chapter, index) => ({
+        ...chapter,
+        endTime: starts[index + 1]?.startTime ?? duration
+    }));
+
+/**
+ * Chapters written as timestamps in the video description. Follows YouTube's own
+ * rules so random timestamps in prose are not mistaken for chapters: the list
+ * starts at 0:00, has at least three entries and runs in ascending order.
+ */
+export const parseDescriptionChapters = (description: string, duration: number): Chapter[] => {
+    const starts: { title: string; startTime: number }[] = [];
+
+    for (const line of description.split(/\r?\n/)) {
+        const match = DESCRIPTION_LINE_PATTERN.exec(line.trim());
+        if (!match) continue;
+        const startTime = parseTimestamp(match[2]);
+        if (startTime === null) continue;
+
+        // Timestamps before the first chapter belong to prose, so the list restarts at 0:00
+        if (startTime === 0) starts.length = 0;
+        if (starts.length === 0 && startTime !== 0) continue;
+        if (starts.length > 0 && startTime <= starts[starts.length - 1].startTime) break;
+        if (duration > 0 && startTime >= duration) break;
+
+        const title = cleanTitle(match[1]) || cleanTitle(match[3]) || `Chapter ${starts.length + 1}`;
+        starts.push({ title, startTime });
+    }
+
+    return starts.length >= 3 ? withEndTimes(starts, duration) : [];
+};
+
+// YouTube's chapter markers when present, description timestamps otherwise
+export const getChapters = (info: ytdl.videoInfo): Chapter[] => {
+    const duration = Number(info.videoDetails.lengthSeconds) || 0;
+    const markers = info.videoDetails.chapters ?? [];
+
+    if (markers.length > 0) {
+        return withEndTimes(
+            markers.map(marker => ({ title: marker.title, startTime: marker.start_time })),
+            duration
+        );
+    }
+
+    return parseDescriptionChapters(info.videoDetails.description ?? '', duration);
+};
+
+// Chapters that overlap a trimmed range, shifted so the range starts at zero
+export const clipChapters = (chapters: Chapter[], clip: { start: number; end: number } | null): Chapter[] => {
+    if (!clip) return chapters;
+    return chapters
+        .filter(chapter => chapter.endTime > clip.start && chapter.startTime < clip.end)
+        .map(chapter => ({
+            title: chapter.title,
+            startTime: Math.max(chapter.startTime, clip.start) - clip.start,
+            endTime: Math.min(chapter.endTime, clip.end) - clip.start
+        }));
+};
+
+// =, ;, # and newlines are special in ffmetadata and must be backslash-escaped
+const escapeMetadata = (value: string) => value.replace(/[=;#\\\n]/g, match => `\\${match}`);
+
+// ffmpeg's FFMETADATA1 format, read as an extra input and applied with -map_chapters
+export const toFfmetadata = (chapters: Chapter[]): string =>
+    [
+        ';FFMETADATA1',
+        ...chapters.flatMap(chapter => [
+            '[CHAPTER]',
+            'TIMEBASE=1/1000',
+            `START=${Math.round(chapter.startTime * 1000)}`,
+            `END=${Math.round(chapter.endTime * 1000)}`,
+            `title=${escapeMetadata(chapter.title)}`
+        ])
+    ].join('\n') + '\n';
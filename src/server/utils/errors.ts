@@ -0,0 +1,80 @@
+import { DownloaderErrorCode, ErrorResponse } from '../../shared/types';
+
+const STATUS_CODES: Record<DownloaderErrorCode, number> = {
+    INVALID_URL: 400,
+    INVALID_OPTIONS: 400,
+    VIDEO_UNAVAILABLE: 404,
+    VIDEO_PRIVATE: 403,
+    AGE_RESTRICTED: 403,
+    GEO_BLOCKED: 451,
+    // The stream exists but there is nothing to record yet
+    LIVE_NOT_STARTED: 409,
+    NO_FORMATS: 422,
+    RATE_LIMITED: 429,
+    NETWORK_ERROR: 502,
+    INSUFFICIENT_STORAGE: 507,
+    FFMPEG_FAILED: 500,
+    FFMPEG_MISSING: 503,
+    // nginx's "client closed request", the client went away before we could answer
+    CANCELLED: 499,
+    UNKNOWN: 500
+};
+
+// Failures that may go away on their own and are worth another attempt, space frees up as other downloads finish
+const RETRYABLE_CODES: DownloaderErrorCode[] = ['RATE_LIMITED', 'NETWORK_ERROR', 'INSUFFICIENT_STORAGE'];
+
+export class DownloaderError extends Error {
+    readonly code: DownloaderErrorCode;
+
+    constructor(code: DownloaderErrorCode, message: string) {
+        super(message);
+        this.name = 'DownloaderError';
+        this.code = code;
+    }
+
+    get statusCode(): number {
+        return STATUS_CODES[this.code];
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_CODES.includes(this.code);
+    }
+
+    toResponse(): ErrorResponse {
+        return { error: this.message, code: this.code };
+    }
+}
+
+// Matched against messages from ytdl-core, undici, node:http, fluent-ffmpeg and our own code, first match wins
+const CLASSIFIERS: [DownloaderErrorCode, RegExp][] = [
+    ['CANCELLED', /Download cancelled|operation was aborted/i],
+    ['FFMPEG_MISSING', /Cannot find ffmpeg|Cannot find ffprobe|spawn \S*ff(mpeg|probe)\S* ENOENT/i],
+    ['VIDEO_PRIVATE', /private video|video is private/i],
+    ['AGE_RESTRICTED', /confirm your age|age[- ]restricted|inappropriate for some users/i],
+    ['GEO_BLOCKED', /in your country|geo[- ]?(restricted|blocked)/i],
+    ['LIVE_NOT_STARTED', /live event will begin|premieres? in|live stream is offline|has not started/i],
+    ['RATE_LIMITED', /Status code: 429|Too Many Requests|not a bot|rate[- ]limit/i],
+    ['INVALID_URL', /Invalid YouTube URL|No video id found|Not a YouTube domain|does not match expected format/i],
+    ['NO_FORMATS', /No such format|formats? (are |is )?(not )?available/i],
+    ['VIDEO_UNAVAILABLE', /Video unavailable|video (has been removed|is unavailable|isn't available)|does not exist|Status code: (404|410)/i],
+    ['INSUFFICIENT_STORAGE', /ENOSPC|no space left|EDQUOT/i],
+    ['NETWORK_ERROR', /ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|ENOTFOUND|socket hang up|fetch failed|Connection closed after|^aborted$|Status code: 5\d\d|timed? ?out/i],
+    ['FFMPEG_FAILED', /ffmpeg|ffprobe/i]
+];
+
+/**
+ * Turns whatever a library threw into a DownloaderError. `context` is prepended
+ * to the message, and `fallback` is used when nothing more specific matches,
+ * e.g. FFMPEG_FAILED for errors coming out of an ffmpeg command.
+ */
+export const classifyError = (
+    error: unknown,
+    context?: string,
+    fallback: DownloaderErrorCode = 'UNKNOWN'
+): DownloaderError => {
+    if (error instanceof DownloaderError) return error;
+
+    const message = error instanceof Error ? error.message : String(error ?? 'Unknown error');
+    const code = CLASSIFIERS.find(([, pattern]) => pattern.test(message))?.[0] ?? fallback;
+    return new DownloaderError(code, context ? `${context}: ${message}` : message);
+};
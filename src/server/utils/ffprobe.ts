@@ -0,0 +1,73 @@
+import { spawn } from 'child_process';
+
+const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+
+// How close a keyframe has to be to count as "on" the requested timestamp
+const KEYFRAME_TOLERANCE_SECONDS = 0.05;
+
+const runFfprobe = (args: string[]): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const probe = spawn(FFPROBE_PATH, ['-v', 'error', ...args], { windowsHide: true });
+
+        let stdout = '';
+        let stderr = '';
+        probe.stdout.on('data', chunk => { stdout += chunk; });
+        probe.stderr.on('data', chunk => { stderr += chunk; });
+        probe.on('error', error => reject(new Error(`Failed to run ffprobe: ${error.message}`)));
+        probe.on('close', code => {
+            if (code !== 0) {
+                reject(new Error(`ffprobe exited with code ${code}: ${stderr.trim()}`));
+                return;
+            }
+            resolve(stdout);
+        });
+    });
+};
+
+/**
+ * Lists keyframe timestamps of the first video stream within a window around `time`.
+ * fluent-ffmpeg's ffprobe wrapper does not parse frame entries, so ffprobe is spawned directly.
+ */
+export const listKeyframes = async (file: string, time: number, windowSeconds = 10): Promise<number[]> => {
+    const from = Math.max(0, time - windowSeconds);
+    const stdout = await runFfprobe([
+        '-select_streams', 'v:0',
+        '-skip_frame', 'nokey',
+        '-read_intervals', `${from}%${time + 1}`,
+        '-show_entries', 'frame=pts_time',
+        '-of', 'csv=p=0',
+        file
+    ]);
+    return stdout
+        .split('\n')
+        .map(line => parseFloat(line))
+        .filter(value => Number.isFinite(value));
+};
+
+export interface ProbedStream {
+    codec_type?: string;
+    codec_name?: string;
+    height?: number;
+    avg_frame_rate?: string;
+    bit_rate?: string;
+    disposition?: { attached_pic?: number };
+}
+
+export interface ProbeResult {
+    streams?: ProbedStream[];
+    format?: {
+        duration?: string;
+        bit_rate?: string;
+        tags?: Record<string, string>;
+    };
+}
+
+// Streams and container tags of a file or URL, ffprobe only reads what it needs over HTTP
+export const probeMedia = async (input: string): Promise<ProbeResult> =>
+    JSON.parse(await runFfprobe(['-show_format', '-show_streams', '-of', 'json', input]));
+
+export const isKeyframeAt = async (file: string, time: number): Promise<boolean> => {
+    if (time === 0) return true;
+    const keyframes = await listKeyframes(file, time);
+    return keyframes.some(keyframe => Math.abs(keyframe - time) <= KEYFRAME_TOLERANCE_SECONDS);
+};
@@ -0,0 +1,34 @@
+import fs from 'fs';
+import net from 'net';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+// The plain descriptor, a FileHandle would close it when garbage collected while the socket still uses it
+const openAsync = promisify(fs.open);
+
+/**
+ * Creates a named pipe ffmpeg can read a second input from while stdin carries the first.
+ * Resolves to null where named pipes are not available (Windows, no mkfifo), callers then
+ * fall back to temp files.
+ */
+export const createFifo = async (filePath: string): Promise<string | null> => {
+    if (process.platform === 'win32') return null;
+    try {
+        await execFileAsync('mkfifo', ['-m', '600', filePath]);
+        return filePath;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Opens the writing end of a named pipe as a socket. Opened read-write and non-blocking, so
+ * it neither waits for ffmpeg to open the other end nor ties up a libuv thread while ffmpeg
+ * is busy with its other input; backpressure works as on any socket. Ending the socket
+ * closes the pipe, which ffmpeg sees as the end of the input.
+ */
+export const openFifoWriter = async (filePath: string): Promise<net.Socket> => {
+    const fd = await openAsync(filePath, fs.constants.O_RDWR | fs.constants.O_NONBLOCK);
+    return new net.Socket({ fd, readable: false, writable: true });
+};
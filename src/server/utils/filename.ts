@@ -0,0 +1,69 @@
+import { VideoDetails } from '../../shared/types';
+
+// Characters that are illegal or troublesome in filenames on Windows, macOS or Linux, control characters included
+const ILLEGAL_CHARACTERS = /[<>:"/\\|?*\p{Cc}]/gu;
+
+const MAX_FILENAME_LENGTH = 200;
+
+export const sanitizeFileName = (name: string, fallback = 'video', maxLength = MAX_FILENAME_LENGTH): string => {
+    const cleaned = name
+        .replace(ILLEGAL_CHARACTERS, '')
+        .replace(/\s+/g, ' ')
+        .slice(0, maxLength)
+        .replace(/^[.\s]+|[.\s]+$/g, '');
+    return cleaned || fallback;
+};
+
+// ASCII-only variant for the plain `filename=` parameter of Content-Disposition
+export const toContentDisposition = (fileName: string): string => {
+    const asciiName = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/"/g, "'");
+    return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+};
+
+export interface FileNameValues {
+    title: string;
+    author?: string;
+    id?: string;
+    date?: string;
+    index?: number | string;
+    ext: string;
+}
+
+/**
+ * Fills a template such as `{author} - {title} [{id}].{ext}`. Each value is sanitized
+ * on its own so a title cannot smuggle in path separators, and `.{ext}` is appended
+ * when the template forgot it.
+ */
+export const renderFileName = (template: string, values: FileNameValues): string => {
+    const withExtension = template.includes('{ext}') ? template : `${template}.{ext}`;
+    const rendered = withExtension.replace(/\{(\w+)\}/g, (_match, key: string) => {
+        const value = values[key as keyof FileNameValues];
+        return value === undefined || value === '' ? '' : sanitizeFileName(String(value), '');
+    });
+    // Collapse separators left dangling by empty placeholders, e.g. " - " or "[]"
+    const tidied = rendered.replace(/\[\s*\]|\(\s*\)/g, '').replace(/^\s*-\s*|\s*-?\s*(?=\.[^.]+$)/g, '');
+    // Long titles are cut before the extension, a name left empty becomes video.<ext>
+    const extension = `.${values.ext}`;
+    if (tidied.endsWith(extension)) {
+        const base = sanitizeFileName(tidied.slice(0, -extension.length), '', MAX_FILENAME_LENGTH - extension.length);
+        return `${base || 'video'}${extension}`;
+    }
+    return sanitizeFileName(tidied, `video${extension}`);
+};
+
+// YYYY-MM-DD part of upload dates, which YouTube reports either as a date or a full timestamp
+const toDateValue = (date?: string) => date?.slice(0, 10);
+
+export const fileNameForVideo = (
+    template: string,
+    details: VideoDetails,
+    ext: string,
+    index?: number | string
+): string => renderFileName(template, {
+    title: details.title,
+    author: details.author,
+    id: details.videoId,
+    date: toDateValue(details.uploadDate),
+    index,
+    ext
+});
@@ -0,0 +1,79 @@
+import { MediaInfo } from '../providers';
+import { config } from '../config';
+
+export interface InfoCacheOptions {
+    ttlMs: number;
+    maxEntries: number;
+}
+
+interface CacheEntry {
+    info: MediaInfo;
+    expiresAt: number;
+}
+
+// Signed stream URLs are dropped this long before they expire, so a download started from them can finish
+const EXPIRY_MARGIN_MS = 30 * 60 * 1000;
+
+/**
+ * Keeps fetched MediaInfo per video so the preview, format list, captions and the download
+ * itself share one request. Entries live for the TTL or until their stream URLs are about to
+ * expire, whichever comes first, and the least recently used ones go when the cache is full.
+ * Concurrent lookups of the same video wait for the same request.
+ */
+export class InfoCache {
+    private entries = new Map<string, CacheEntry>();
+    private pending = new Map<string, Promise<MediaInfo>>();
+
+    constructor(private readonly options: InfoCacheOptions) {}
+
+    async get(key: string, fetchInfo: () => Promise<MediaInfo>): Promise<MediaInfo> {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.entries.delete(key);
+            if (entry.expiresAt > Date.now()) {
+                // Re-inserted so the Map's order stays least recently used first
+                this.entries.set(key, entry);
+                return entry.info;
+            }
+        }
+
+        const inFlight = this.pending.get(key);
+        if (inFlight) return inFlight;
+
+        // Failures are not cached, the next lookup tries again
+        const request = fetchInfo()
+            .then(info => {
+                this.store(key, info);
+                return info;
+            })
+            .finally(() => this.pending.delete(key));
+        this.pending.set(key, request);
+        return request;
+    }
+
+    // Drops a video's info, e.g. after its stream URLs were refused
+    invalidate(key: string) {
+        this.entries.delete(key);
+    }
+
+    clear() {
+        this.entries.clear();
+    }
+
+    private store(key: string, info: MediaInfo) {
+        const now = Date.now();
+        const expiresAt = Math.min(
+            now + this.options.ttlMs,
+            info.expiresAt === undefined ? Infinity : info.expiresAt - EXPIRY_MARGIN_MS
+        );
+        if (expiresAt <= now || this.options.maxEntries < 1) return;
+
+        this.entries.set(key, { info, expiresAt });
+        for (const oldest of this.entries.keys()) {
+            if (this.entries.size <= this.options.maxEntries) break;
+            this.entries.delete(oldest);
+        }
+    }
+}
+
+export const infoCache = new InfoCache(config.infoCache);
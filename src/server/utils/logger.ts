@@ -0,0 +1,25 @@
+import winston from 'winston';
+
+const { combine, timestamp, printf, colorize, errors } = winston.format;
+
+const logFormat = printf(({ level, message, timestamp, stack }) => {
+    return `${timestamp} [${level}]: ${stack ?? message}`;
+});
+
+export const logger = winston.createLogger({
+    level: process.env.LOG_LEVEL || (process.env.NODE_ENV === 'production' ? 'info' : 'debug'),
+    format: combine(
+        errors({ stack: true }),
+        timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
+        logFormat
+    ),
+    transports: [
+        new winston.transports.Console({
+            format: combine(colorize(), logFormat)
+        })
+    ]
+});
+
+if (process.env.LOG_FILE) {
+    logger.add(new winston.transports.File({ filename: process.env.LOG_FILE }));
+}
@@ -0,0 +1,141 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { MediaFormat } from '../providers';
+
+const MANIFEST_FILE = 'manifest.json';
+// How often the byte counts are saved while pieces download
+const MANIFEST_INTERVAL_MS = 1000;
+
+export interface PieceState {
+    itag: number;
+    // What the source announced, 0 when it did not say
+    contentLength: number;
+    // Bytes known to be on disk
+    received: number;
+    complete: boolean;
+}
+
+export interface PartialManifest {
+    videoId: string;
+    pieces: Record<string, PieceState>;
+    updatedAt: string;
+}
+
+const readManifest = async (directory: string): Promise<PartialManifest | null> => {
+    try {
+        return JSON.parse(await fs.promises.readFile(path.join(directory, MANIFEST_FILE), 'utf8'));
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Pipes `source` into `file`. Unlike pipeline(), a source that fails still lets the file
+ * flush what it got, those bytes are what the next attempt continues after.
+ */
+const writeAll = (source: Readable, file: fs.WriteStream) => new Promise<void>((resolve, reject) => {
+    let sourceError: unknown = null;
+    source.on('error', (error) => {
+        sourceError = error;
+    });
+    source.on('close', () => {
+        if (!source.readableEnded) sourceError ??= new Error('The download stopped before it finished');
+        if (!file.writableEnded) file.end();
+    });
+    file.on('error', (error) => {
+        source.destroy();
+        reject(error);
+    });
+    file.on('close', () => (sourceError ? reject(sourceError) : resolve()));
+    source.pipe(file);
+});
+
+/**
+ * The source pieces of one download (video, audio) in a working directory, with a manifest
+ * of the bytes each has received. A later attempt on the same directory continues every
+ * piece where it stopped instead of downloading it again.
+ */
+export class PartialDownload {
+    private writeChain: Promise<void> = Promise.resolve();
+
+    private constructor(readonly directory: string, private readonly manifest: PartialManifest) {}
+
+    // A manifest left by another video is ignored, its pieces get overwritten
+    static async open(directory: string, videoId: string): Promise<PartialDownload> {
+        await fs.promises.mkdir(directory, { recursive: true });
+        const manifest = await readManifest(directory);
+        return new PartialDownload(
+            directory,
+            manifest?.videoId === videoId ? manifest : { videoId, pieces: {}, updatedAt: new Date().toISOString() }
+        );
+    }
+
+    // Bytes already on disk across all pieces
+    receivedBytes(): number {
+        return Object.values(this.manifest.pieces).reduce((sum, piece) => sum + piece.received, 0);
+    }
+
+    piecePath(name: string): string {
+        return path.join(this.directory, `${name}.part`);
+    }
+
+    /**
+     * Where the piece continues, or null when it is already complete. Pieces of another
+     * format, or of a source that cannot continue at an offset, start over. Bytes past the
+     * manifest's count may be half written and are cut off.
+     */
+    async resumeOffset(name: string, format: MediaFormat, resumable: boolean): Promise<number | null> {
+        const piece = this.manifest.pieces[name];
+        const filePath = this.piecePath(name);
+        const size = await fs.promises.stat(filePath).then(stats => stats.size, () => 0);
+        const sameSource = piece?.itag === format.itag && piece.contentLength === (Number(format.contentLength) || 0);
+
+        if (sameSource && piece.complete && size === piece.received) return null;
+        const start = sameSource && resumable ? Math.min(piece.received, size) : 0;
+        if (size > start) await fs.promises.truncate(filePath, start);
+        return start;
+    }
+
+    // Appends `source` to the piece from `start` on, the manifest follows along as bytes reach the disk
+    async save(name: string, format: MediaFormat, start: number, source: Readable): Promise<void> {
+        const piece: PieceState = {
+            itag: format.itag,
+            contentLength: Number(format.contentLength) || 0,
+            received: start,
+            complete: false
+        };
+        const file = fs.createWriteStream(this.piecePath(name), { flags: start > 0 ? 'r+' : 'w', start });
+        const update = () => {
+            piece.received = start + file.bytesWritten;
+            return this.persist(name, piece);
+        };
+        const timer = setInterval(update, MANIFEST_INTERVAL_MS);
+
+        try {
+            // Piped straight away, the source may already be flowing into a progress listener
+            await Promise.all([update(), writeAll(source, file)]);
+            piece.complete = true;
+        } finally {
+            clearInterval(timer);
+            await update();
+        }
+    }
+
+    // Serialized and atomic (tmp + rename), so a crash leaves the previous manifest intact
+    private persist(name: string, piece: PieceState): Promise<void> {
+        this.manifest.pieces[name] = { ...piece };
+        this.manifest.updatedAt = new Date().toISOString();
+        const snapshot = JSON.stringify(this.manifest, null, 2);
+        this.writeChain = this.writeChain
+            .then(async () => {
+                const filePath = path.join(this.directory, MANIFEST_FILE);
+                await fs.promises.writeFile(`${filePath}.tmp`, snapshot, 'utf8');
+                await fs.promises.rename(`${filePath}.tmp`, filePath);
+            })
+            .catch(error => {
+                console.error(`Failed to save download manifest in ${this.directory}:`, error);
+            });
+        return this.writeChain;
+    }
+}
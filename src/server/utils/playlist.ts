@@ -0,0 +1,43 @@
+import ytpl from '@distube/ytpl';
+import { PlaylistDetails } from '../../shared/types';
+import { isCollectionUrl } from '../../shared/playlist';
+import { parseYouTubeUrl } from '../../shared/youtubeUrl';
+import { classifyError, DownloaderError } from './errors';
+
+export class YouTubePlaylist {
+    static validateUrl(url: string): boolean {
+        if (!url) {
+            throw new DownloaderError('INVALID_URL', "URL cannot be empty or undefined");
+        }
+        return isCollectionUrl(url);
+    }
+
+    // Resolves a playlist, channel or user URL (the latter two via their uploads playlist)
+    static async getPlaylist(url: string, limit = Infinity): Promise<PlaylistDetails> {
+        try {
+            if (!this.validateUrl(url)) {
+                throw new DownloaderError('INVALID_URL', "Invalid YouTube playlist or channel URL provided");
+            }
+            // ytpl does not know music., m. or embed URLs
+            const playlist = await ytpl(parseYouTubeUrl(url)?.canonicalUrl ?? url, { limit });
+            return {
+                id: playlist.id,
+                url: playlist.url,
+                title: playlist.title,
+                author: playlist.author?.name ?? '',
+                totalItems: playlist.total_items,
+                entries: playlist.items.map((item, position) => ({
+                    index: position + 1,
+                    videoId: item.id,
+                    url: item.url_simple || item.url,
+                    title: item.title,
+                    author: item.author?.name ?? '',
+                    duration: item.duration,
+                    thumbnail: item.thumbnail
+                }))
+            };
+        } catch (error) {
+            throw classifyError(error, 'Failed to get playlist');
+        }
+    }
+}
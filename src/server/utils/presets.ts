@@ -0,0 +1,213 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { DownloadOptions, TranscodePreset } from '../../shared/types';
+import { DownloaderError } from './errors';
+
+// What a download re-encodes the video to, worked out from its preset and custom settings
+export interface EncodeSettings {
+    // Height cap, the width follows the aspect ratio and smaller sources keep their size
+    maxHeight?: number;
+    // Frame rate cap
+    fps?: number;
+    // kbps, constant quality when unset
+    videoBitrate?: number;
+    audioChannels?: number;
+    // A first pass measures the video, so the second lands close to videoBitrate
+    twoPass: boolean;
+    // Encoder arguments on top of the encoder's defaults, e.g. the H.264 profile
+    videoOptions: string[];
+    // Runs after scaling and the frame rate change
+    filter?: string;
+}
+
+interface PresetDefinition extends Omit<EncodeSettings, 'twoPass'> {
+    // Options the preset fixes, whatever the request said
+    options: DownloadOptions;
+    // Unless the request sets audioBitrate
+    audioBitrate?: number;
+    // Longest media the preset takes, in seconds
+    maxDuration?: number;
+    // The bitrate follows from targetSizeMb and the length
+    sizeCapped?: boolean;
+}
+
+const PRESETS: Record<TranscodePreset, PresetDefinition> = {
+    'compatible-720p': {
+        options: { filter: 'audioandvideo', container: 'mp4' },
+        maxHeight: 720,
+        fps: 30,
+        audioBitrate: 128,
+        audioChannels: 2,
+        // Main profile at level 3.1 covers 720p30 and decodes on about every phone, TV and browser
+        videoOptions: ['-profile', 'main', '-level', '3.1']
+    },
+    small: {
+        options: { filter: 'audioandvideo', container: 'mp4' },
+        fps: 30,
+        audioBitrate: 96,
+        audioChannels: 2,
+        videoOptions: ['-profile', 'high'],
+        sizeCapped: true
+    },
+    gif: {
+        // GIFs hold neither sound nor tags
+        options: { filter: 'videoonly', embedMetadata: false, embedThumbnail: false },
+        maxHeight: 320,
+        fps: 12,
+        videoOptions: [],
+        // A palette made from the clip itself looks far better than the default web palette
+        filter: 'split[frames][copy];[copy]palettegen[palette];[frames][palette]paletteuse',
+        maxDuration: 30
+    },
+    'webm-clip': {
+        options: { filter: 'videoonly', container: 'webm' },
+        maxHeight: 480,
+        fps: 30,
+        videoOptions: [],
+        maxDuration: 120
+    },
+    podcast: {
+        options: { filter: 'audioonly', audioFormat: 'mp3' },
+        audioBitrate: 64,
+        audioChannels: 1,
+        videoOptions: []
+    }
+};
+
+export const PRESET_NAMES = Object.keys(PRESETS) as TranscodePreset[];
+
+// Speed arguments per encoder, and the constant-quality ones that give way to a bitrate
+const ENCODER_DEFAULTS: Record<string, { options: string[]; quality: string[] }> = {
+    libx264: {
+        options: ['-preset', 'veryfast', '-pix_fmt', 'yuv420p'],
+        quality: ['-crf', '23']
+    },
+    'libvpx-vp9': {
+        options: ['-deadline', 'good', '-cpu-used', '4', '-row-mt', '1', '-pix_fmt', 'yuv420p'],
+        quality: ['-crf', '34', '-b', '0']
+    }
+};
+
+// Decimal megabytes, as chat apps count their limits
+const BYTES_PER_MB = 1000 * 1000;
+// Muxing overhead and the encoder's misses stay within the rest of the target
+const SIZE_MARGIN = 0.95;
+// Below this a size target is refused rather than encoded into mush
+const MIN_VIDEO_BITRATE = 100;
+// Tallest frame that still looks decent at a bitrate, checked top down
+const HEIGHT_FOR_BITRATE: [number, number][] = [[2500, 1080], [1200, 720], [600, 480], [0, 360]];
+
+// Fills in the options the preset fixes, applying it twice changes nothing
+export const applyPreset = (options: DownloadOptions): DownloadOptions => {
+    if (!options.preset) return options;
+    const preset = PRESETS[options.preset];
+    return { ...options, audioBitrate: options.audioBitrate ?? preset.audioBitrate, ...preset.options };
+};
+
+export const wantsEncoding = (options: DownloadOptions) =>
+    Boolean(options.preset || options.maxHeight || options.fps || options.videoBitrate);
+
+/**
+ * Checks the preset and custom settings against the length of the media that will be
+ * encoded and turns them into encoder settings. Null when the download stream-copies.
+ */
+export const resolveEncoding = (options: DownloadOptions, durationSeconds: number): EncodeSettings | null => {
+    if (!wantsEncoding(options)) return null;
+    options = applyPreset(options);
+    const preset = options.preset ? PRESETS[options.preset] : null;
+    const name = options.preset ? `Preset ${options.preset}` : 'Custom encoding';
+
+    if (options.allowTranscode === false) {
+        throw new DownloaderError('INVALID_OPTIONS', `${name} re-encodes the media, which allowTranscode forbids`);
+    }
+    if (preset?.maxDuration && durationSeconds > preset.maxDuration) {
+        throw new DownloaderError(
+            'INVALID_OPTIONS',
+            `${name} takes at most ${preset.maxDuration}s, pick a shorter part with startTime and endTime`
+        );
+    }
+
+    let videoBitrate = options.videoBitrate;
+    let maxHeight = options.maxHeight ?? preset?.maxHeight;
+    if (preset?.sizeCapped) {
+        if (!options.targetSizeMb) {
+            throw new DownloaderError('INVALID_OPTIONS', `${name} needs targetSizeMb`);
+        }
+        if (options.videoBitrate) {
+            throw new DownloaderError('INVALID_OPTIONS', `${name} works out videoBitrate from targetSizeMb, it cannot be set as well`);
+        }
+        if (!durationSeconds) {
+            throw new DownloaderError('INVALID_OPTIONS', `${name} needs to know the length of the media, which this source does not tell`);
+        }
+        const audioBitrate = options.audioBitrate ?? 0;
+        const totalBitrate = Math.floor((options.targetSizeMb * BYTES_PER_MB * 8 * SIZE_MARGIN) / durationSeconds / 1000);
+        videoBitrate = totalBitrate - audioBitrate;
+        if (videoBitrate < MIN_VIDEO_BITRATE) {
+            const neededMb = Math.ceil(((MIN_VIDEO_BITRATE + audioBitrate) * 1000 * durationSeconds) / (8 * SIZE_MARGIN * BYTES_PER_MB));
+            throw new DownloaderError(
+                'INVALID_OPTIONS',
+                `${options.targetSizeMb} MB is too small for ${Math.round(durationSeconds)}s of video, it needs at least ${neededMb} MB`
+            );
+        }
+        const bitrate = videoBitrate;
+        maxHeight ??= HEIGHT_FOR_BITRATE.find(([minimum]) => bitrate >= minimum)?.[1];
+    }
+
+    return {
+        maxHeight,
+        fps: options.fps ?? preset?.fps,
+        videoBitrate,
+        audioChannels: preset?.audioChannels,
+        twoPass: Boolean(preset?.sizeCapped),
+        videoOptions: preset?.videoOptions ?? [],
+        filter: preset?.filter
+    };
+};
+
+const videoFilter = (settings: EncodeSettings, sourceFps?: number): string => {
+    const filters: string[] = [];
+    // The filter would also raise a lower rate. Unknown rates are film rate or more, so caps below that still apply
+    if (settings.fps && (sourceFps ? sourceFps > settings.fps : settings.fps < 24)) {
+        filters.push(`fps=${settings.fps}`);
+    }
+    if (settings.maxHeight) {
+        // Even dimensions, 4:2:0 video cannot have odd ones
+        filters.push(`scale=-2:'trunc(min(${settings.maxHeight},ih)/2)*2'`);
+    }
+    if (settings.filter) filters.push(settings.filter);
+    return filters.join(',');
+};
+
+/**
+ * Sets up the first video stream of the output to be encoded with `encoder`. Arguments only
+ * go to that stream, cover art mapped as a second video stream keeps its own codec. `pass`
+ * is set for the two passes of a two-pass encode, both with the same log file.
+ */
+export const applyVideoEncoding = (
+    command: ffmpeg.FfmpegCommand,
+    encoder: string,
+    settings: EncodeSettings,
+    sourceFps?: number,
+    pass?: { number: 1 | 2; logFile: string }
+) => {
+    const defaults = ENCODER_DEFAULTS[encoder];
+    // A size cap holds peaks to the average too, or short media overshoot it
+    const peakBitrate = settings.videoBitrate && Math.round(settings.videoBitrate * (settings.twoPass ? 1 : 1.5));
+    const args = [
+        ...(defaults?.options ?? []),
+        ...settings.videoOptions,
+        ...(settings.videoBitrate
+            ? [
+                '-b', `${settings.videoBitrate}k`,
+                '-maxrate', `${peakBitrate}k`,
+                '-bufsize', `${settings.videoBitrate * 2}k`
+            ]
+            : defaults?.quality ?? []),
+        ...(pass ? ['-pass', String(pass.number), '-passlogfile', pass.logFile] : [])
+    ];
+    const filter = videoFilter(settings, sourceFps);
+    if (filter) args.push('-filter', filter);
+
+    command
+        .videoCodec(encoder)
+        .outputOptions(args.map((arg, index) => (index % 2 === 0 ? `${arg}:v:0` : arg)));
+};
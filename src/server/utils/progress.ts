@@ -0,0 +1,52 @@
+import { EventEmitter } from 'events';
+import { DownloadProgressEvent, DownloadStatus } from '../../shared/types';
+
+const TERMINAL_STATUSES: DownloadStatus[] = ['completed', 'failed', 'cancelled'];
+
+// How long a finished download's last event is kept for late subscribers
+const RETENTION_MS = 5 * 60 * 1000;
+
+export const isTerminalStatus = (status: DownloadStatus) => TERMINAL_STATUSES.includes(status);
+
+class ProgressHub {
+    private emitter = new EventEmitter();
+    private latest = new Map<string, DownloadProgressEvent>();
+    private expiryTimers = new Map<string, NodeJS.Timeout>();
+
+    constructor() {
+        // Every open SSE connection adds a listener, so lift the default cap
+        this.emitter.setMaxListeners(0);
+    }
+
+    publish(event: DownloadProgressEvent) {
+        this.latest.set(event.downloadId, event);
+        this.emitter.emit(event.downloadId, event);
+
+        if (isTerminalStatus(event.status)) {
+            this.scheduleExpiry(event.downloadId);
+        }
+    }
+
+    get(downloadId: string): DownloadProgressEvent | undefined {
+        return this.latest.get(downloadId);
+    }
+
+    subscribe(downloadId: string, listener: (event: DownloadProgressEvent) => void): () => void {
+        this.emitter.on(downloadId, listener);
+        return () => {
+            this.emitter.off(downloadId, listener);
+        };
+    }
+
+    private scheduleExpiry(downloadId: string) {
+        clearTimeout(this.expiryTimers.get(downloadId));
+        const timer = setTimeout(() => {
+            this.latest.delete(downloadId);
+            this.expiryTimers.delete(downloadId);
+        }, RETENTION_MS);
+        timer.unref();
+        this.expiryTimers.set(downloadId, timer);
+    }
+}
+
+export const progressHub = new ProgressHub();
@@ -0,0 +1,207 @@
+import { DownloadProgress, ProgressPhase, StreamProgress } from '../../shared/types';
+import { parseTimestamp } from '../../shared/time';
+
+export type SourceStream = 'video' | 'audio';
+
+export interface ProgressTrackerOptions {
+    // Announced size of each source the download reads, 0 when unknown
+    streams: Partial<Record<SourceStream, number>>;
+    // Seconds of media ffmpeg writes, its timemark is measured against this. 0 when unknown
+    duration: number;
+    // Downloads and ffmpeg run at the same time (piped) rather than one after the other
+    concurrent: boolean;
+    // One after the other only: the share of the bar the downloads take, the rest is ffmpeg's
+    downloadShare?: number;
+    // ffmpeg passes over the media, 2 for a two-pass encode whose first pass is 'analyzing'
+    passes?: number;
+}
+
+interface StreamState extends StreamProgress {
+    done: boolean;
+}
+
+// Reports go out at most this often, phase changes right away
+const REPORT_INTERVAL_MS = 250;
+const SPEED_SAMPLE_MS = 1000;
+// Weight of the newest sample in the moving average
+const SPEED_SMOOTHING = 0.3;
+
+const isDownloadPhase = (phase: ProgressPhase) => phase === 'downloading-video' || phase === 'downloading-audio';
+
+/**
+ * Turns byte counts and ffmpeg progress events into one DownloadProgress. Downloads and
+ * ffmpeg each get their share of the percentage: piped downloads advance both at once, so
+ * whichever is further along counts, while downloads through files fill the download share
+ * before ffmpeg's work starts on the rest. Sources of unknown size leave the byte share
+ * untouched rather than dividing by zero.
+ */
+export class ProgressTracker {
+    private phase: ProgressPhase = 'resolving';
+    private streams = new Map<SourceStream, StreamState>();
+    private muxFraction: number | null = null;
+    private muxStartedAt = 0;
+    // Bytes fetched in this attempt, continued downloads start with bytes that do not count towards the speed
+    private fetchedBytes = 0;
+    private speed: number | undefined;
+    private sample = { at: Date.now(), bytes: 0 };
+    private reportedAt = 0;
+
+    constructor(
+        private readonly options: ProgressTrackerOptions,
+        private readonly onProgress?: (progress: DownloadProgress) => void
+    ) {
+        for (const [name, totalBytes] of Object.entries(options.streams) as [SourceStream, number][]) {
+            this.streams.set(name, { downloadedBytes: 0, totalBytes, done: false });
+        }
+    }
+
+    // Downloads are under way, the phase follows the first source that is still coming in
+    start() {
+        this.sample = { at: Date.now(), bytes: this.fetchedBytes };
+        this.setPhase(this.downloadPhase());
+    }
+
+    // Bytes an earlier attempt already stored, `done` when there is nothing left to fetch
+    resume(stream: SourceStream, bytes: number, done = false) {
+        const state = this.streams.get(stream);
+        if (!state) return;
+        state.downloadedBytes += bytes;
+        if (done) this.finishStream(stream);
+    }
+
+    addBytes(stream: SourceStream, bytes: number) {
+        const state = this.streams.get(stream);
+        if (!state) return;
+        state.downloadedBytes += bytes;
+        this.fetchedBytes += bytes;
+
+        const now = Date.now();
+        if (now - this.sample.at >= SPEED_SAMPLE_MS) {
+            const current = ((this.fetchedBytes - this.sample.bytes) * 1000) / (now - this.sample.at);
+            this.speed = this.speed === undefined ? current : SPEED_SMOOTHING * current + (1 - SPEED_SMOOTHING) * this.speed;
+            this.sample = { at: now, bytes: this.fetchedBytes };
+        }
+        this.report();
+    }
+
+    finishStream(stream: SourceStream) {
+        const state = this.streams.get(stream);
+        if (!state || state.done) return;
+        state.done = true;
+        if (!isDownloadPhase(this.phase)) return;
+        // Piped, ffmpeg is left to flush what it got
+        const allDone = [...this.streams.values()].every(other => other.done);
+        this.setPhase(allDone && this.options.concurrent ? 'muxing' : this.downloadPhase());
+    }
+
+    setPhase(phase: ProgressPhase) {
+        if (phase === this.phase) return;
+        this.phase = phase;
+        // ffmpeg passes before the mux, e.g. a remux, report their own time
+        if (!this.options.concurrent) this.muxFraction = null;
+        this.report(true);
+    }
+
+    // `timemark` as fluent-ffmpeg reports it, e.g. "00:01:23.45"
+    ffmpegProgress(timemark: string) {
+        const seconds = parseTimestamp(timemark);
+        if (!this.options.duration || seconds === null) return;
+        if (this.muxFraction === null) this.muxStartedAt = Date.now();
+        this.muxFraction = Math.min(seconds / this.options.duration, 1);
+        this.report();
+    }
+
+    // ffmpeg is done, what is left is handing the file over
+    finish() {
+        this.setPhase('finalizing');
+    }
+
+    snapshot(): DownloadProgress {
+        const streams = [...this.streams.values()];
+        const video = this.streams.get('video');
+        const audio = this.streams.get('audio');
+        const downloading = isDownloadPhase(this.phase);
+        return {
+            phase: this.phase,
+            downloadedBytes: streams.reduce((sum, state) => sum + state.downloadedBytes, 0),
+            totalBytes: streams.reduce((sum, state) => sum + state.totalBytes, 0),
+            percentage: this.percentage(),
+            video: video && { downloadedBytes: video.downloadedBytes, totalBytes: video.totalBytes },
+            audio: audio && { downloadedBytes: audio.downloadedBytes, totalBytes: audio.totalBytes },
+            speed: downloading && this.speed !== undefined ? Math.round(this.speed) : undefined,
+            eta: this.eta()
+        };
+    }
+
+    private downloadPhase(): ProgressPhase {
+        const video = this.streams.get('video');
+        const audio = this.streams.get('audio');
+        return (video && !video.done) || !audio ? 'downloading-video' : 'downloading-audio';
+    }
+
+    // Null while a source of unknown size is still coming in
+    private downloadFraction(): number | null {
+        const streams = [...this.streams.values()];
+        if (streams.every(state => state.done)) return 1;
+        if (streams.some(state => !state.totalBytes)) return null;
+        // Sizes can be estimates (HLS), a source is only complete once it has ended
+        const received = streams.reduce((sum, state) =>
+            sum + (state.done ? state.totalBytes : Math.min(state.downloadedBytes, state.totalBytes * 0.99)), 0);
+        return received / streams.reduce((sum, state) => sum + state.totalBytes, 0);
+    }
+
+    private percentage(): number {
+        if (this.phase === 'resolving') return 0;
+        if (this.phase === 'finalizing') return 100;
+
+        let fraction: number;
+        if (this.options.concurrent) {
+            fraction = Math.max(this.downloadFraction() ?? 0, this.muxFraction ?? 0);
+        } else {
+            const share = this.options.downloadShare ?? 0.9;
+            const downloaded = isDownloadPhase(this.phase) ? this.downloadFraction() ?? 0 : 1;
+            fraction = share * downloaded + (1 - share) * this.passFraction();
+        }
+        // 100 only once the file is actually done
+        return Math.min(fraction * 100, 99.9);
+    }
+
+    // Share of ffmpeg's work done over all passes
+    private passFraction(): number {
+        const passes = this.options.passes ?? 1;
+        if (this.phase === 'analyzing') return (this.muxFraction ?? 0) / passes;
+        if (this.phase === 'muxing') return (passes - 1 + (this.muxFraction ?? 0)) / passes;
+        return 0;
+    }
+
+    private eta(): number | undefined {
+        const streams = [...this.streams.values()];
+        if (isDownloadPhase(this.phase) && this.speed && streams.every(state => state.totalBytes)) {
+            const remaining = streams.reduce((sum, state) =>
+                sum + (state.done ? 0 : Math.max(state.totalBytes - state.downloadedBytes, 0)), 0);
+            return Math.round(remaining / this.speed);
+        }
+        // Otherwise from how fast ffmpeg gets through the media so far
+        const fraction = this.muxFraction;
+        const encoding = this.phase === 'muxing' || this.phase === 'analyzing' || this.options.concurrent;
+        if (encoding && fraction && fraction < 1) {
+            const passSeconds = (Date.now() - this.muxStartedAt) / 1000 / fraction;
+            // The first pass assumes the second takes as long
+            const passesLeft = this.phase === 'analyzing' ? (this.options.passes ?? 1) - 1 : 0;
+            return Math.round(passSeconds * (1 - fraction + passesLeft));
+        }
+        return undefined;
+    }
+
+    private report(force = false) {
+        if (!this.onProgress) return;
+        const now = Date.now();
+        if (!force && now - this.reportedAt < REPORT_INTERVAL_MS) return;
+        this.reportedAt = now;
+        try {
+            this.onProgress(this.snapshot());
+        } catch (error) {
+            console.error('Progress callback error:', error);
+        }
+    }
+}
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+
+// Length of each recorded file in seconds, a crash loses at most the one being written
+export const SEGMENT_SECONDS = 60;
+
+const SEGMENT_PATTERN = /^segment_(\d+)\.(ts|mkv)$/;
+const SEGMENT_LIST_PATTERN = /^segments_\d+\.csv$/;
+
+export interface SegmentOutput {
+    format: 'mpegts' | 'matroska';
+    extension: 'ts' | 'mkv';
+}
+
+// MPEG-TS survives being cut off anywhere, but cannot carry VP8/VP9/AV1, those go to Matroska
+export const segmentOutputFor = (videoCodec: string | undefined): SegmentOutput =>
+    /^(vp0?[89]|av01)/.test(videoCodec ?? '')
+        ? { format: 'matroska', extension: 'mkv' }
+        : { format: 'mpegts', extension: 'ts' };
+
+// Segment files in recording order, including a last one that may have been cut off by a crash
+export const listSegments = async (directory: string): Promise<string[]> => {
+    const names = await fs.promises.readdir(directory).catch(() => [] as string[]);
+    return names
+        .map(name => ({ name, match: SEGMENT_PATTERN.exec(name) }))
+        .filter((entry): entry is { name: string; match: RegExpExecArray } => entry.match !== null)
+        .sort((a, b) => Number(a.match[1]) - Number(b.match[1]))
+        .map(entry => path.join(directory, entry.name));
+};
+
+/**
+ * Seconds recorded by earlier sessions in `directory`. ffmpeg's segment muxer writes one
+ * "file,start,end" line per finished segment to the session's CSV list.
+ */
+export const recordedSeconds = async (directory: string): Promise<number> => {
+    const names = (await fs.promises.readdir(directory).catch(() => [] as string[]))
+        .filter(name => SEGMENT_LIST_PATTERN.test(name));
+    let total = 0;
+    for (const name of names) {
+        const text = await fs.promises.readFile(path.join(directory, name), 'utf8');
+        for (const line of text.split('\n')) {
+            const [, start, end] = line.split(',').map(Number);
+            if (Number.isFinite(start) && Number.isFinite(end)) total += end - start;
+        }
+    }
+    return total;
+};
+
+// Input file for ffmpeg's concat demuxer, which joins the segments without re-encoding
+export const writeConcatList = async (segments: string[], directory: string): Promise<string> => {
+    const filePath = path.join(directory, 'segments.ffconcat');
+    const entries = segments.map(segment => `file '${path.basename(segment)}'`);
+    await fs.promises.writeFile(filePath, ['ffconcat version 1.0', ...entries, ''].join('\n'), 'utf8');
+    return filePath;
+};
@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { DownloaderError } from './errors';
+import { logger } from './logger';
+import { config } from '../config';
+
+export interface WorkspaceOptions {
+    root: string;
+    // Bytes all workspaces may reserve together, 0 for no limit
+    quotaBytes: number;
+    // Disk space a reservation has to leave free
+    minFreeBytes: number;
+    // Workspaces this old that no download owns are left over from a crash
+    staleAfterMs: number;
+}
+
+const PREFIX = 'ytdownload_';
+
+const toMegabytes = (bytes: number) => `${Math.ceil(bytes / (1024 * 1024))} MB`;
+
+/**
+ * Scratch directories for downloads: subtitles, cover art and the media itself when it
+ * cannot be piped. Every download gets its own directory under the configured root and
+ * reserves the room its files will take before writing them, against a quota shared by
+ * all downloads and against the free disk space. Directories a crash left behind are
+ * swept on startup and then periodically.
+ */
+export class WorkspaceManager {
+    // Reserved bytes per directory in use
+    private active = new Map<string, number>();
+    private sweepTimer: NodeJS.Timeout | null = null;
+
+    constructor(private readonly options: WorkspaceOptions) {}
+
+    async init(): Promise<void> {
+        await fs.promises.mkdir(this.options.root, { recursive: true });
+        await this.sweep();
+        this.sweepTimer ??= setInterval(() => this.sweep(), this.options.staleAfterMs);
+        this.sweepTimer.unref();
+    }
+
+    async create(): Promise<string> {
+        try {
+            await fs.promises.mkdir(this.options.root, { recursive: true });
+            const directory = await fs.promises.mkdtemp(path.join(this.options.root, PREFIX));
+            this.active.set(directory, 0);
+            return directory;
+        } catch (error) {
+            throw new Error(`Failed to create temporary directory: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    // Claims room for files about to be written to `directory`, taken back by release()
+    async reserve(directory: string, bytes: number): Promise<void> {
+        if (bytes <= 0) return;
+        const reserved = this.reservedBytes();
+        if (this.options.quotaBytes && reserved + bytes > this.options.quotaBytes) {
+            throw new DownloaderError(
+                'INSUFFICIENT_STORAGE',
+                `Download needs ${toMegabytes(bytes)} of temporary space, other downloads hold ` +
+                `${toMegabytes(reserved)} of the ${toMegabytes(this.options.quotaBytes)} allowed`
+            );
+        }
+
+        // Counted before the disk check, so downloads starting at the same time see each other
+        const previous = this.active.get(directory) ?? 0;
+        this.active.set(directory, previous + bytes);
+        try {
+            await this.checkFreeSpace(directory, bytes);
+        } catch (error) {
+            this.active.set(directory, previous);
+            throw error;
+        }
+    }
+
+    // Removes the directory with everything in it, safe to call more than once
+    async release(directory: string): Promise<void> {
+        this.active.delete(directory);
+        await fs.promises.rm(directory, { recursive: true, force: true }).catch(error => {
+            logger.error(`Error removing workspace ${directory}: ${error instanceof Error ? error.message : error}`);
+        });
+    }
+
+    // Platforms without statfs skip the check, the download then fails when the disk fills up
+    async checkFreeSpace(directory: string, bytes: number): Promise<void> {
+        if (bytes <= 0) return;
+        let available: number;
+        try {
+            const stats = await fs.promises.statfs(directory);
+            available = stats.bavail * stats.bsize;
+        } catch {
+            return;
+        }
+        if (available - bytes < this.options.minFreeBytes) {
+            throw new DownloaderError(
+                'INSUFFICIENT_STORAGE',
+                `Download needs ${toMegabytes(bytes)} in ${directory}, only ${toMegabytes(available)} is free`
+            );
+        }
+    }
+
+    reservedBytes(): number {
+        return [...this.active.values()].reduce((sum, bytes) => sum + bytes, 0);
+    }
+
+    async sweep(): Promise<void> {
+        const names = await fs.promises.readdir(this.options.root).catch(() => [] as string[]);
+        const cutoff = Date.now() - this.options.staleAfterMs;
+        let removed = 0;
+        for (const name of names.filter(entry => entry.startsWith(PREFIX))) {
+            const directory = path.join(this.options.root, name);
+            if (this.active.has(directory)) continue;
+            const stats = await fs.promises.stat(directory).catch(() => null);
+            if (!stats?.isDirectory() || stats.mtimeMs > cutoff) continue;
+            await fs.promises.rm(directory, { recursive: true, force: true }).then(
+                () => removed++,
+                error => logger.warn(`Could not remove stale workspace ${directory}: ${error.message}`)
+            );
+        }
+        if (removed > 0) {
+            logger.info(`Removed ${removed} stale workspace(s) from ${this.options.root}`);
+        }
+    }
+}
+
+export const workspaceManager = new WorkspaceManager(config.workspace);
@@ -1,283 +1,1227 @@
-import ytdl from '@distube/ytdl-core';
 import ffmpeg from 'fluent-ffmpeg';
 import {  Readable, PassThrough } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Socket } from 'net';
 import fs from 'fs';
-import path from 'path';
 import os from 'os';
+import path from 'path';
 import {
     VideoDetails,
     VideoFormat,
     DownloadOptions,
-    DownloadProgress
+    DownloadProgress,
+    DownloadStatus,
+    AudioFormat,
+    Container,
+    CaptionTrack,
+    SubtitleFormat
 } from '../../shared/types';
+import { parseTimestamp } from '../../shared/time';
+import { findProvider, getProvider, MediaFormat, MediaInfo, MediaSourceProvider, toVideoFormat } from '../providers';
+import { fetchOk, readAll } from '../providers/http';
+import { isKeyframeAt } from './ffprobe';
+import { Cue, formatCues, toSrt } from './captions';
+import { clipChapters, toFfmetadata } from './chapters';
+import { classifyError, DownloaderError } from './errors';
+import { infoCache } from './infoCache';
+import { PartialDownload } from './partial';
+import { workspaceManager } from './workspace';
+import { ProgressTracker, SourceStream } from './progressTracker';
+import { applyPreset, applyVideoEncoding, EncodeSettings, resolveEncoding, wantsEncoding } from './presets';
+import { createFifo, openFifoWriter } from './fifo';
+import { listSegments, recordedSeconds, SEGMENT_SECONDS, segmentOutputFor, writeConcatList } from './recording';
+
+export interface OutputDescription {
+    extension: string;
+    mimeType: string;
+}
+
+// How cover art is stored: an attached_pic video stream (mp4/m4a), an ID3 APIC frame
+// (mp3), a Matroska attachment, or not at all
+type ArtworkStyle = 'attached_pic' | 'id3' | 'attachment' | null;
+
+interface AudioOutput extends OutputDescription {
+    codec: string;
+    artwork: ArtworkStyle;
+    format: string;
+    // Source audioCodec prefixes that can be stream-copied without re-encoding
+    copyableCodecs: string[];
+    defaultBitrate: number;
+    outputOptions: string[];
+}
+
+const AUDIO_OUTPUTS: Record<AudioFormat, AudioOutput> = {
+    mp3: {
+        codec: 'libmp3lame',
+        artwork: 'id3',
+        format: 'mp3',
+        copyableCodecs: ['mp3'],
+        defaultBitrate: 192,
+        outputOptions: [],
+        extension: 'mp3',
+        mimeType: 'audio/mpeg'
+    },
+    m4a: {
+        codec: 'aac',
+        artwork: 'attached_pic',
+        format: 'ipod',
+        copyableCodecs: ['mp4a'],
+        defaultBitrate: 160,
+        // Fragmented so the moov atom does not need a seekable output
+        outputOptions: ['-movflags frag_keyframe+empty_moov'],
+        extension: 'm4a',
+        mimeType: 'audio/mp4'
+    },
+    opus: {
+        codec: 'libopus',
+        artwork: null,
+        format: 'ogg',
+        copyableCodecs: ['opus'],
+        defaultBitrate: 128,
+        outputOptions: [],
+        extension: 'opus',
+        mimeType: 'audio/ogg'
+    }
+};
+
+interface ContainerOutput extends OutputDescription {
+    format: string;
+    artwork: ArtworkStyle;
+    // Codec prefixes (avc1, mp4a, ...) the container can hold as-is, null means anything goes
+    videoCodecs: string[] | null;
+    audioCodecs: string[] | null;
+    videoEncoder: string;
+    audioEncoder: string;
+    subtitleCodec: string;
+    outputOptions: string[];
+}
+
+const CONTAINER_OUTPUTS: Record<Container, ContainerOutput> = {
+    mkv: {
+        format: 'matroska',
+        artwork: 'attachment',
+        videoCodecs: null,
+        audioCodecs: null,
+        videoEncoder: 'libx264',
+        audioEncoder: 'aac',
+        subtitleCodec: 'srt',
+        outputOptions: [],
+        extension: 'mkv',
+        mimeType: 'video/x-matroska'
+    },
+    mp4: {
+        format: 'mp4',
+        artwork: 'attached_pic',
+        videoCodecs: ['avc1', 'av01', 'hev1', 'hvc1'],
+        audioCodecs: ['mp4a'],
+        videoEncoder: 'libx264',
+        audioEncoder: 'aac',
+        subtitleCodec: 'mov_text',
+        // A fragmented mp4 can be written to a pipe, a regular one needs to seek back for the moov atom
+        outputOptions: ['-movflags frag_keyframe+empty_moov'],
+        extension: 'mp4',
+        mimeType: 'video/mp4'
+    },
+    webm: {
+        format: 'webm',
+        artwork: null,
+        videoCodecs: ['vp8', 'vp9', 'av01'],
+        audioCodecs: ['opus', 'vorbis'],
+        videoEncoder: 'libvpx-vp9',
+        audioEncoder: 'libopus',
+        subtitleCodec: 'webvtt',
+        outputOptions: [],
+        extension: 'webm',
+        mimeType: 'video/webm'
+    }
+};
+
+// Only reachable through the gif preset, so it is not one of the containers a request can pick
+const GIF_OUTPUT: ContainerOutput = {
+    format: 'gif',
+    artwork: null,
+    videoCodecs: [],
+    audioCodecs: [],
+    videoEncoder: 'gif',
+    audioEncoder: '',
+    subtitleCodec: '',
+    // Loops forever, like GIFs on the web do
+    outputOptions: ['-loop', '0'],
+    extension: 'gif',
+    mimeType: 'image/gif'
+};
+
+const codecMatches = (codec: string | undefined, accepted: string[] | null) =>
+    accepted === null || accepted.some(prefix => (codec ?? '').startsWith(prefix));
+
+// Narrows formats to the ones the container can hold without re-encoding, if there are any
+const preferCompatible = (formats: MediaFormat[], accepted: string[] | null, kind: 'videoCodec' | 'audioCodec') => {
+    const compatible = formats.filter(format => codecMatches(format[kind], accepted));
+    return compatible.length > 0 ? compatible : formats;
+};
+
+// No point downloading more pixels than an encode keeps: the smallest formats at least `maxHeight` tall
+const fitHeight = (formats: MediaFormat[], maxHeight: number | undefined, quality = 'highest') => {
+    if (!maxHeight || !/^(highest|lowest)/.test(quality)) return formats;
+    const enough = formats.map(format => format.height ?? 0).filter(height => height >= maxHeight);
+    if (enough.length === 0) return formats;
+    const cap = Math.min(...enough);
+    return formats.filter(format => (format.height ?? 0) <= cap);
+};
+
+// Best first: resolution, frame rate, then bitrate for video; bitrate for audio
+const rankFormats = (formats: MediaFormat[], kind: 'video' | 'audio') =>
+    [...formats].sort((a, b) => kind === 'video'
+        ? (b.height ?? 0) - (a.height ?? 0) || (b.fps ?? 0) - (a.fps ?? 0) || (b.bitrate ?? 0) - (a.bitrate ?? 0)
+        : (b.audioBitrate ?? 0) - (a.audioBitrate ?? 0) || (b.bitrate ?? 0) - (a.bitrate ?? 0));
 
+// `quality` is highest or lowest (optionally suffixed with video/audio), an itag or a label such as 720p
+const chooseFormat = (formats: MediaFormat[], kind: 'video' | 'audio', quality = 'highest'): MediaFormat => {
+    if (!/^(highest|lowest)/.test(quality)) {
+        const match = formats.find(format => String(format.itag) === quality || format.quality === quality);
+        if (!match) throw new DownloaderError('INVALID_OPTIONS', `Quality ${quality} is not available for this video`);
+        return match;
+    }
+    const ranked = rankFormats(formats, kind);
+    return quality.startsWith('lowest') ? ranked[ranked.length - 1] : ranked[0];
+};
+
+export interface ClipRange {
+    start: number;
+    end: number;
+}
+
+export interface DownloadControl {
+    // Aborting tears down the source requests and any running ffmpeg process
+    signal?: AbortSignal;
+    // Live recordings only: aborting ends the recording and keeps what was captured
+    stop?: AbortSignal;
+    // Live recordings only: where segments go, a directory that survives restarts lets a
+    // later attempt continue the recording. A temp directory is used when unset
+    recordingDir?: string;
+    // Where the source pieces of a download go, along with a manifest of the bytes received.
+    // A directory that survives failures and restarts lets a later attempt continue them with
+    // range requests. Downloads without one are piped and start over when they fail
+    workDir?: string;
+    // Info already fetched for the same URL through getMediaInfo, saves fetching it again
+    info?: MediaInfo;
+    onStatus?: (status: DownloadStatus) => void;
+}
+
+/**
+ * Runs downloads for every MediaSourceProvider, the name predates providers other than
+ * YouTube. Providers resolve URLs to formats and raw streams, everything from format
+ * selection to the final ffmpeg pass happens here.
+ */
 export class YouTubeDownloader {
     static validateUrl(url: string): boolean {
         if (!url) {
-            throw new Error("URL cannot be empty or undefined");
+            throw new DownloaderError('INVALID_URL', "URL cannot be empty or undefined");
         }
-        const youtubeRegex = /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be)\/.+$/;
-        return youtubeRegex.test(url);
+        return findProvider(url) !== null;
     }
 
-    static async getVideoInfo(url: string): Promise<VideoDetails> {
+    private static cacheKey(provider: MediaSourceProvider, url: string): string {
+        return `${provider.name}:${provider.videoId(url)}`;
+    }
+
+    // Every lookup goes through the info cache, so one video costs one request until it expires
+    private static fetchInfo(provider: MediaSourceProvider, url: string): Promise<MediaInfo> {
+        return infoCache.get(this.cacheKey(provider, url), () => provider.getInfo(url));
+    }
+
+    static async getMediaInfo(url: string): Promise<MediaInfo> {
         try {
-            if (!this.validateUrl(url)) {
-                throw new Error("Invalid YouTube URL provided");
-            }
-            const info = await ytdl.getBasicInfo(url);
-            if (!info?.videoDetails) {
-                throw new Error("Failed to fetch video details");
-            }
-            return {
-                title: info.videoDetails.title,
-                thumbnail: info.videoDetails.thumbnails[0]?.url ?? '',
-                duration: info.videoDetails.lengthSeconds,
-                author: info.videoDetails.author.name
-            };
+            return await this.fetchInfo(getProvider(url), url);
         } catch (error) {
-            throw new Error(`Failed to get video info: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            throw classifyError(error, 'Failed to get video info');
         }
     }
 
+    // Drops cached info after a failed download, the retry then starts from fresh stream URLs
+    static forgetInfo(url: string) {
+        const provider = findProvider(url);
+        if (!provider) return;
+        try {
+            infoCache.invalidate(this.cacheKey(provider, url));
+        } catch (error) {
+            console.error('Could not drop cached video info:', error);
+        }
+    }
+
+    static async getVideoInfo(url: string): Promise<VideoDetails> {
+        return (await this.getMediaInfo(url)).details;
+    }
+
     static async getVideoFormats(url: string): Promise<VideoFormat[]> {
         try {
-            if (!this.validateUrl(url)) {
-                throw new Error("Invalid YouTube URL provided");
+            const info = await this.fetchInfo(getProvider(url), url);
+            if (info.formats.length === 0) {
+                throw new DownloaderError('NO_FORMATS', "No formats available for this video");
             }
-            const info = await ytdl.getInfo(url);
-            if (!info?.formats) {
-                throw new Error("No formats available for this video");
-            }
-            return info.formats.map(format => ({
-                itag: format.itag,
-                quality: format.qualityLabel,
-                hasAudio: format.hasAudio,
-                hasVideo: format.hasVideo,
-                container: format.container,
-                contentLength: format.contentLength
-            }));
+            return info.formats.map(toVideoFormat);
         } catch (error) {
-            throw new Error(`Failed to get video formats: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            throw classifyError(error, 'Failed to get video formats');
         }
     }
 
-    private static async cleanupStreams(...streams: (Readable | PassThrough | null)[]) {
+    static async getCaptionTracks(url: string): Promise<CaptionTrack[]> {
         try {
-            for (const stream of streams) {
-                if (stream?.destroy) {
-                    stream.destroy();
-                }
-            }
+            return (await this.getMediaInfo(url)).captions;
         } catch (error) {
-            console.error('Stream cleanup error:', error);
+            throw classifyError(error, 'Failed to get caption tracks');
         }
     }
 
-    private static async cleanupTempFiles(files: string[], directory: string) {
+    static async getCaptions(
+        url: string,
+        languageCode: string,
+        format: SubtitleFormat = 'srt',
+        autoGenerated?: boolean
+    ): Promise<string> {
         try {
-            for (const file of files) {
-                if (fs.existsSync(file)) {
-                    try {
-                        const stream = fs.createReadStream(file);
-                        stream.destroy();
-                        await fs.promises.unlink(file);
-                    } catch (error) {
-                        console.error(`Error cleaning up file ${file}:`, error);
-                    }
-                }
-            }
-            if (fs.existsSync(directory)) {
-                try {
-                    await fs.promises.rmdir(directory);
-                } catch (error) {
-                    console.error(`Error removing directory ${directory}:`, error);
+            const provider = getProvider(url);
+            const info = await this.fetchInfo(provider, url);
+            return formatCues(await this.fetchCaptions(provider, info, languageCode, autoGenerated), format);
+        } catch (error) {
+            throw classifyError(error, 'Failed to get captions');
+        }
+    }
+
+    private static fetchCaptions(
+        provider: MediaSourceProvider,
+        info: MediaInfo,
+        languageCode: string,
+        autoGenerated?: boolean
+    ): Promise<Cue[]> {
+        if (!provider.fetchCaptions) {
+            throw new DownloaderError('INVALID_OPTIONS', `${provider.name} sources have no captions`);
+        }
+        return provider.fetchCaptions(info, languageCode, autoGenerated);
+    }
+
+    // Writes each requested caption track to an SRT file in the temp directory for ffmpeg to pick up
+    private static async writeSubtitleFiles(
+        provider: MediaSourceProvider,
+        info: MediaInfo,
+        languageCodes: string[],
+        directory: string
+    ): Promise<{ path: string; languageCode: string }[]> {
+        const files: { path: string; languageCode: string }[] = [];
+        for (const languageCode of languageCodes) {
+            const cues = await this.fetchCaptions(provider, info, languageCode);
+            const filePath = path.join(directory, `subtitles_${files.length}.srt`);
+            await fs.promises.writeFile(filePath, toSrt(cues), 'utf8');
+            files.push({ path: filePath, languageCode });
+        }
+        return files;
+    }
+
+    // `-metadata key=value` pairs, passed as separate arguments so values may contain spaces
+    private static buildMetadataArgs(info: MediaInfo, track?: DownloadOptions['track']): string[] {
+        const details = info.details;
+        // A chapter split file is one track of an album named after the video
+        const tags: [string, string | null | undefined][] = [
+            ['title', track ? track.title : details.title],
+            ['artist', details.author],
+            ['album', track ? details.title : undefined],
+            ['track', track ? `${track.number}/${track.total}` : undefined],
+            ['date', details.uploadDate],
+            ['description', info.description],
+            ['comment', info.pageUrl]
+        ];
+        return tags
+            .filter((tag): tag is [string, string] => Boolean(tag[1]))
+            .flatMap(([key, value]) => ['-metadata', `${key}=${value}`]);
+    }
+
+    // Writes the chapter markers that fall inside the clip as an ffmetadata file, null when there are none
+    private static async writeChapterFile(
+        info: MediaInfo,
+        options: DownloadOptions,
+        clip: ClipRange | null,
+        directory: string
+    ): Promise<string | null> {
+        // Chapter split files hold a single chapter, markers would only repeat the title
+        if (options.embedMetadata === false || options.track) return null;
+        const chapters = clipChapters(info.details.chapters ?? [], clip);
+        if (chapters.length === 0) return null;
+
+        const filePath = path.join(directory, 'chapters.txt');
+        await fs.promises.writeFile(filePath, toFfmetadata(chapters), 'utf8');
+        return filePath;
+    }
+
+    // Saves the highest-resolution thumbnail for use as cover art, missing artwork is not fatal
+    private static async downloadThumbnail(info: MediaInfo, directory: string): Promise<string | null> {
+        const [best] = [...info.thumbnails]
+            .sort((a, b) => b.width * b.height - a.width * a.height);
+        if (!best) return null;
+
+        try {
+            const response = await fetchOk(best.url);
+            const isWebp = response.headers['content-type']?.includes('webp') || /\.webp(\?|$)/.test(best.url);
+            const filePath = path.join(directory, `cover.${isWebp ? 'webp' : 'jpg'}`);
+            await fs.promises.writeFile(filePath, await readAll(response));
+            return filePath;
+        } catch (error) {
+            console.error('Thumbnail download failed, continuing without cover art:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Adds the cover image to a command. `inputIndex` is the ffmpeg input index the image
+     * will get and `videoStreams` how many video streams are already mapped to the output.
+     */
+    private static applyArtwork(
+        command: ffmpeg.FfmpegCommand,
+        style: ArtworkStyle,
+        coverPath: string,
+        inputIndex: number,
+        videoStreams: number
+    ) {
+        if (style === 'attachment') {
+            const mimeType = coverPath.endsWith('.webp') ? 'image/webp' : 'image/jpeg';
+            command.outputOptions('-attach', coverPath, '-metadata:s:t', `mimetype=${mimeType}`);
+            return;
+        }
+        if (style === null) return;
+
+        command
+            .input(coverPath)
+            .outputOptions('-map', `${inputIndex}:v:0`, `-c:v:${videoStreams}`, 'mjpeg');
+
+        if (style === 'attached_pic') {
+            command.outputOptions(`-disposition:v:${videoStreams}`, 'attached_pic');
+        } else {
+            command.outputOptions(
+                '-id3v2_version', '3',
+                `-metadata:s:v:${videoStreams}`, 'title=Album cover',
+                `-metadata:s:v:${videoStreams}`, 'comment=Cover (front)'
+            );
+        }
+    }
+
+    static describeOutput(options: DownloadOptions = {}): OutputDescription {
+        options = applyPreset(options);
+        if (options.filter === 'audioonly') {
+            const { extension, mimeType } = AUDIO_OUTPUTS[options.audioFormat ?? 'mp3'];
+            return { extension, mimeType };
+        }
+        const { extension, mimeType } = this.containerFor(options);
+        return { extension, mimeType };
+    }
+
+    private static containerFor(options: DownloadOptions): ContainerOutput {
+        return options.preset === 'gif' ? GIF_OUTPUT : CONTAINER_OUTPUTS[options.container ?? 'mkv'];
+    }
+
+    /**
+     * Turns the startTime/endTime options into seconds and checks them against the
+     * video length. Returns null when no trimming was requested.
+     */
+    static resolveClipRange(options: DownloadOptions, durationSeconds: number): ClipRange | null {
+        if (options.startTime === undefined && options.endTime === undefined) return null;
+
+        const start = options.startTime === undefined ? 0 : parseTimestamp(options.startTime);
+        const end = options.endTime === undefined ? durationSeconds : parseTimestamp(options.endTime);
+
+        if (start === null) throw new DownloaderError('INVALID_OPTIONS', `Invalid start time: ${options.startTime}`);
+        if (end === null) throw new DownloaderError('INVALID_OPTIONS', `Invalid end time: ${options.endTime}`);
+        if (durationSeconds > 0 && start >= durationSeconds) {
+            throw new DownloaderError('INVALID_OPTIONS', `Start time ${start}s is beyond the video length of ${durationSeconds}s`);
+        }
+        if (durationSeconds > 0 && end > durationSeconds) {
+            throw new DownloaderError('INVALID_OPTIONS', `End time ${end}s is beyond the video length of ${durationSeconds}s`);
+        }
+        if (end <= start) throw new DownloaderError('INVALID_OPTIONS', "End time must be after start time");
+
+        return { start, end };
+    }
+
+    // An explicitly requested itag wins over quality-based selection
+    private static findFormatByItag(info: MediaInfo, itag: number, kind: 'video' | 'audio'): MediaFormat {
+        const format = info.formats.find(f => f.itag === itag);
+        if (!format) {
+            throw new DownloaderError('INVALID_OPTIONS', `Format ${itag} is not available for this video`);
+        }
+        if (kind === 'video' ? !format.hasVideo : !format.hasAudio) {
+            throw new DownloaderError('INVALID_OPTIONS', `Format ${itag} has no ${kind} track`);
+        }
+        return format;
+    }
+
+    /**
+     * Works out whether a stream can be copied into the container or has to be
+     * re-encoded, and refuses when re-encoding was explicitly disallowed.
+     */
+    private static resolveCodec(
+        codec: string | undefined,
+        kind: 'video' | 'audio',
+        options: DownloadOptions
+    ): string {
+        const container = this.containerFor(options);
+        const accepted = kind === 'video' ? container.videoCodecs : container.audioCodecs;
+        if (codecMatches(codec, accepted)) return 'copy';
+
+        if (options.allowTranscode === false) {
+            throw new DownloaderError(
+                'INVALID_OPTIONS',
+                `${codec ?? 'Unknown'} ${kind} cannot be stored in ${container.extension} without re-encoding; ` +
+                `choose mkv or allow transcoding`
+            );
+        }
+        return kind === 'video' ? container.videoEncoder : container.audioEncoder;
+    }
+
+    private static async cleanupStreams(...streams: (Readable | PassThrough | null)[]) {
+        try {
+            for (const stream of streams) {
+                if (stream?.destroy) {
+                    stream.destroy();
                 }
             }
         } catch (error) {
-            console.error('Cleanup error:', error);
+            console.error('Stream cleanup error:', error);
         }
     }
 
+    /**
+     * Downloads the chosen formats and muxes them into the requested container. Video and
+     * audio download at once and are piped into a single ffmpeg process, video on stdin
+     * and audio through a named pipe, so the output streams while the sources download.
+     * Exact stream-copy cuts, sources that need seeking, resumable downloads (`control.workDir`)
+     * and platforms without named pipes go through files instead. Presets and custom encode
+     * settings re-encode in the same pass, a size target first analyzes the saved video.
+     */
     static async createDownloadStream(
         url: string,
         options: DownloadOptions = {},
-        onProgress?: (progress: DownloadProgress) => void
+        onProgress?: (progress: DownloadProgress) => void,
+        control: DownloadControl = {}
     ): Promise<Readable> {
-        if (!this.validateUrl(url)) {
-            throw new Error("Invalid YouTube URL provided");
+        const provider = getProvider(url);
+        options = applyPreset(options);
+
+        const { signal, onStatus } = control;
+        const throwIfAborted = () => {
+            if (signal?.aborted) throw new DownloaderError('CANCELLED', "Download cancelled");
+        };
+        throwIfAborted();
+
+        const info = control.info ?? await this.fetchInfo(provider, url).catch(error => {
+            throw classifyError(error, 'Failed to get video info');
+        });
+        if (info.details.isUpcoming) {
+            throw new DownloaderError('LIVE_NOT_STARTED', "This live stream has not started yet");
+        }
+        // A stream that is still running has no fixed set of segments to download, so it is recorded
+        if (info.details.isLive) {
+            if (wantsEncoding(options)) {
+                throw new DownloaderError('INVALID_OPTIONS', "Live recordings are kept as broadcast, presets and re-encoding do not apply");
+            }
+            return this.createLiveRecording(provider, info, options, onProgress, control);
+        }
+        const clip = this.resolveClipRange(options, Number(info.details.duration) || 0);
+        const encoding = resolveEncoding(options, clip ? clip.end - clip.start : Number(info.details.duration) || 0);
+
+        if (options.filter === 'audioonly' || options.filter === 'videoonly') {
+            return this.createSingleTrackStream(provider, info, options, clip, encoding, onProgress, control);
         }
 
-        const info = await ytdl.getInfo(url);
         const outputStream = new PassThrough();
 
-        // Create temporary directory and file paths
-        const tempDir = path.join(os.tmpdir(), 'ytdownload_' + Date.now());
-        try {
-            await fs.promises.mkdir(tempDir, { recursive: true });
-        } catch (error) {
-            throw new Error(`Failed to create temporary directory: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
+        // Holds subtitles, chapters and cover art, and the media itself when it cannot be piped
+        const tempDir = await workspaceManager.create();
+        let fifoPath: string | null = null;
+
+        const downloads: Readable[] = [];
+        const commands: ffmpeg.FfmpegCommand[] = [];
+        let audioPipe: Socket | null = null;
+        // The first source failure, reported instead of the ffmpeg error it leads to
+        let sourceError: Error | null = null;
+
+        const cleanup = async () => {
+            await this.cleanupStreams(audioPipe, ...downloads);
+            await workspaceManager.release(tempDir);
+        };
 
-        const tempVideoPath = path.join(tempDir, 'temp_video.mp4');
-        const tempAudioPath = path.join(tempDir, 'temp_audio.aac');
+        // A failed source must not look like a shorter one, so ffmpeg is stopped rather than left to finish
+        const failSource = (error: Error) => {
+            sourceError ??= error;
+            commands.forEach(command => command.kill('SIGKILL'));
+        };
 
-        // Stream declarations
-        let videoStream: PassThrough | null = null;
-        let audioStream: PassThrough | null = null;
-        let videoDownload: Readable | null = null;
-        let audioDownload: Readable | null = null;
+        const onAbort = () => {
+            commands.forEach(command => command.kill('SIGKILL'));
+            this.cleanupStreams(audioPipe, ...downloads);
+            outputStream.destroy(new DownloaderError('CANCELLED', "Download cancelled"));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        // A consumer that stops reading early gets everything torn down as if it had been cancelled
+        outputStream.once('close', () => {
+            if (outputStream.readableEnded) return;
+            commands.forEach(command => command.kill('SIGKILL'));
+            cleanup().catch(error => console.error('Cleanup error after the output was closed:', error));
+        });
 
         try {
+            onStatus?.('downloading');
+
             // Get formats
             const videoFormats = info.formats.filter(f => f.hasVideo);
             const audioFormats = info.formats.filter(f => f.hasAudio);
 
-            if (videoFormats.length === 0) throw new Error("No video formats available");
-            if (audioFormats.length === 0) throw new Error("No audio formats available");
+            if (videoFormats.length === 0) throw new DownloaderError('NO_FORMATS', "No video formats available");
+            if (audioFormats.length === 0) throw new DownloaderError('NO_FORMATS', "No audio formats available");
+
+            const container = this.containerFor(options);
+            const quality = options.quality || 'highest';
+            const videoFormat = options.videoItag
+                ? this.findFormatByItag(info, options.videoItag, 'video')
+                : chooseFormat(
+                    fitHeight(preferCompatible(videoFormats, container.videoCodecs, 'videoCodec'), encoding?.maxHeight, quality),
+                    'video',
+                    quality
+                );
+            // Direct files and HLS variants often carry both tracks, then one download serves both
+            const hasSeparateAudio = audioFormats.some(f => !f.hasVideo);
+            const audioFormat = options.audioItag
+                ? this.findFormatByItag(info, options.audioItag, 'audio')
+                : videoFormat.hasAudio && !hasSeparateAudio
+                    ? videoFormat
+                    : chooseFormat(preferCompatible(audioFormats, container.audioCodecs, 'audioCodec'), 'audio');
+            const sharedSource = audioFormat === videoFormat;
+            const videoCodec = encoding ? container.videoEncoder : this.resolveCodec(videoFormat.videoCodec, 'video', options);
+            const audioCodec = options.audioBitrate
+                ? container.audioEncoder
+                : this.resolveCodec(audioFormat.audioCodec, 'audio', options);
 
-            const videoFormat = ytdl.chooseFormat(videoFormats, {
-                quality: options.quality || 'highest'
+            const remuxAudio = audioCodec === 'copy' && Boolean(audioFormat.adtsAudio) && container.format === 'matroska';
+            // An exact cut of a stream copy needs its keyframes probed in a file, and some sources need seeking
+            const needsFile = Boolean(clip && videoCodec === 'copy' && options.allowTranscode !== false)
+                || Boolean(videoFormat.needsSeekableInput || audioFormat.needsSeekableInput)
+                || remuxAudio
+                || Boolean(encoding?.twoPass)
+                || Boolean(control.workDir);
+            if (!needsFile && !sharedSource) {
+                fifoPath = await createFifo(path.join(tempDir, 'audio.fifo'));
+            }
+            const piped = !needsFile && (sharedSource || fifoPath !== null);
+            const partial = control.workDir
+                ? await PartialDownload.open(control.workDir, info.details.videoId)
+                : null;
+
+            // Room for the sources unless they are piped or kept in workDir, and for a remuxed copy
+            const sourceBytes = (format: MediaFormat) => Number(format.contentLength) || 0;
+            const pieceBytes = sourceBytes(videoFormat) + (sharedSource ? 0 : sourceBytes(audioFormat));
+            if (partial) {
+                await workspaceManager.checkFreeSpace(partial.directory, pieceBytes - partial.receivedBytes());
+            }
+            await workspaceManager.reserve(
+                tempDir,
+                (piped || partial ? 0 : pieceBytes) + (remuxAudio ? sourceBytes(audioFormat) : 0)
+            );
+
+            const progress = new ProgressTracker({
+                streams: sharedSource
+                    ? { video: sourceBytes(videoFormat) }
+                    : { video: sourceBytes(videoFormat), audio: sourceBytes(audioFormat) },
+                duration: clip ? clip.end - clip.start : Number(info.details.duration) || 0,
+                concurrent: piped,
+                // Re-encoding can take as long as the download, a stream copy is quick
+                downloadShare: videoCodec === 'copy' && audioCodec === 'copy' ? 0.9 : 0.5,
+                passes: encoding?.twoPass ? 2 : 1
+            }, onProgress);
+
+            const openSource = (format: MediaFormat, stream: SourceStream, start = 0): Readable => {
+                const download = start > 0 && provider.openStreamAt
+                    ? provider.openStreamAt(info, format, start, signal)
+                    : provider.openStream(info, format, signal);
+                downloads.push(download);
+                download.on('error', failSource);
+                download.on('data', (chunk) => progress.addBytes(stream, chunk.length));
+                download.on('end', () => progress.finishStream(stream));
+                return download;
+            };
+
+            // The source bytes as they come, so ffmpeg can seek in them. No extension, ffmpeg tells
+            // the formats apart by their content
+            const saveToFile = async (format: MediaFormat, name: SourceStream): Promise<string> => {
+                if (!partial) {
+                    const filePath = path.join(tempDir, `temp_${name}`);
+                    await pipeline(openSource(format, name), fs.createWriteStream(filePath));
+                    return filePath;
+                }
+
+                const start = await partial.resumeOffset(name, format, Boolean(provider.openStreamAt));
+                if (start === null) {
+                    progress.resume(name, sourceBytes(format), true);
+                } else {
+                    progress.resume(name, start);
+                    await partial.save(name, format, start, openSource(format, name, start));
+                }
+                return partial.piecePath(name);
+            };
+
+            // Matroska holds any codec a source serves, so the remux is a plain stream copy
+            const remuxFile = (inputPath: string, name: string) => new Promise<string>((resolve, reject) => {
+                const filePath = path.join(tempDir, `remuxed_${name}.mkv`);
+                const command = ffmpeg(inputPath).outputOptions('-c', 'copy').format('matroska');
+                commands.push(command);
+                command
+                    .save(filePath)
+                    .on('end', () => resolve(filePath))
+                    .on('error', (error) => reject(classifyError(error, 'Remuxing the source failed', 'FFMPEG_FAILED')));
             });
-            const audioFormat = ytdl.chooseFormat(audioFormats, {
-                quality: 'highestaudio'
+
+            // First pass of a two-pass encode, only its log file is kept for the mux to read
+            const passLogFile = path.join(tempDir, 'passlog');
+            const analyzeVideo = (inputPath: string, settings: EncodeSettings) => new Promise<void>((resolve, reject) => {
+                const command = ffmpeg(inputPath);
+                commands.push(command);
+                if (clip) command.seekInput(clip.start).duration(clip.end - clip.start);
+                command.outputOptions('-map', '0:v:0').noAudio();
+                applyVideoEncoding(command, videoCodec, settings, videoFormat.fps, { number: 1, logFile: passLogFile });
+                command
+                    .format('null')
+                    .on('progress', ({ timemark }) => progress.ffmpegProgress(timemark))
+                    .on('end', () => resolve())
+                    .on('error', (error) => reject(classifyError(error, 'Analyzing the video failed', 'FFMPEG_FAILED')))
+                    .save(os.devNull);
             });
 
-            let totalBytes = 0;
-            let downloadedBytes = 0;
+            const subtitles = await this.writeSubtitleFiles(provider, info, options.subtitles ?? [], tempDir);
+            const chapterPath = await this.writeChapterFile(info, options, clip, tempDir);
+            const coverPath = options.embedThumbnail !== false && container.artwork
+                ? await this.downloadThumbnail(info, tempDir)
+                : null;
+            throwIfAborted();
+            progress.start();
 
-            if (videoFormat.contentLength) totalBytes += parseInt(videoFormat.contentLength);
-            if (audioFormat.contentLength) totalBytes += parseInt(audioFormat.contentLength);
+            let videoInput: string | Readable;
+            // Null when the audio comes out of the video input
+            let audioInput: string | null = null;
+            let muxVideoCodec = videoCodec;
 
-            // Download video
-            videoStream = new PassThrough();
-            videoDownload = ytdl(url, { format: videoFormat });
+            if (piped) {
+                // ffmpeg reads the video from stdin and the audio from the named pipe, both download
+                // at once and the output starts streaming with the first packets
+                videoInput = openSource(videoFormat, 'video');
+                if (fifoPath) {
+                    audioPipe = await openFifoWriter(fifoPath);
+                    audioPipe.on('error', failSource);
+                    openSource(audioFormat, 'audio').pipe(audioPipe);
+                    audioInput = fifoPath;
+                }
+            } else {
+                let [videoPath, audioPath] = await Promise.all([
+                    saveToFile(videoFormat, 'video'),
+                    sharedSource ? null : saveToFile(audioFormat, 'audio')
+                ]);
+                throwIfAborted();
+                onStatus?.('processing');
+                progress.setPhase('processing');
 
-            if (!videoDownload) throw new Error("Failed to create video download stream");
+                if (remuxAudio) {
+                    if (audioPath) audioPath = await remuxFile(audioPath, 'audio');
+                    else videoPath = await remuxFile(videoPath, 'video');
+                }
 
-            if (onProgress) {
-                videoDownload.on('data', (chunk) => {
-                    try {
-                        downloadedBytes += chunk.length;
-                        onProgress({
-                            downloadedBytes,
-                            totalBytes,
-                            percentage: (downloadedBytes / totalBytes) * 100
-                        });
-                    } catch (error) {
-                        console.error('Progress callback error:', error);
-                    }
-                });
-            }
+                // Verify temporary files exist
+                if (!fs.existsSync(videoPath)) throw new Error("Video file not created");
+                if (audioPath && !fs.existsSync(audioPath)) throw new Error("Audio file not created");
 
-            videoDownload.pipe(videoStream);
-            await new Promise<void>((resolve, reject) => {
-                try {
-                    if (!videoStream) throw new Error("Video stream is null or undefined");
-
-                    ffmpeg(videoStream)
-                        .videoCodec('copy')
-                        .save(tempVideoPath)
-                        .on('end', () => {
-                            try {
-                                resolve();
-                            } catch (error) {
-                                reject(error);
-                            }
-                        })
-                        .on('error', (error) => {
-                            reject(new Error(`Video processing failed: ${error.message}`));
-                        });
-                } catch (error) {
-                    reject(error);
+                // A stream-copied cut can only start on a keyframe, anything else needs re-encoding to be exact
+                if (clip && videoCodec === 'copy' && options.allowTranscode !== false
+                    && !(await isKeyframeAt(videoPath, clip.start).catch(() => false))) {
+                    muxVideoCodec = container.videoEncoder;
                 }
-            });
 
-            // Download audio
-            audioStream = new PassThrough();
-            audioDownload = ytdl(url, { format: audioFormat });
+                if (encoding?.twoPass) {
+                    progress.setPhase('analyzing');
+                    await analyzeVideo(videoPath, encoding);
+                    throwIfAborted();
+                }
 
-            if (!audioDownload) throw new Error("Failed to create audio download stream");
+                videoInput = videoPath;
+                audioInput = audioPath;
+                onStatus?.('muxing');
+                progress.setPhase('muxing');
+            }
 
-            if (onProgress) {
-                audioDownload.on('data', (chunk) => {
-                    try {
-                        downloadedBytes += chunk.length;
-                        onProgress({
-                            downloadedBytes,
-                            totalBytes,
-                            percentage: (downloadedBytes / totalBytes) * 100
-                        });
-                    } catch (error) {
-                        console.error('Progress callback error:', error);
-                    }
-                });
+            // Combine streams
+            const mux = ffmpeg().input(videoInput);
+            commands.push(mux);
+            if (clip) mux.seekInput(clip.start);
+            if (audioInput) {
+                mux.input(audioInput);
+                if (clip) mux.seekInput(clip.start);
             }
+            if (clip) mux.duration(clip.end - clip.start);
+            let nextInput = audioInput ? 2 : 1;
 
-            audioDownload.pipe(audioStream);
-            await new Promise<void>((resolve, reject) => {
-                try {
-                    if (!audioStream) throw new Error("Audio stream is null or undefined");
-
-                    ffmpeg(audioStream)
-                        .audioCodec('aac')
-                        .save(tempAudioPath)
-                        .on('end', () => {
-                            try {
-                                resolve();
-                            } catch (error) {
-                                reject(error);
-                            }
-                        })
-                        .on('error', (error) => {
-                            reject(new Error(`Audio processing failed: ${error.message}`));
-                        });
-                } catch (error) {
-                    reject(error);
-                }
+            mux.outputOptions(['-map 0:v:0', `-map ${audioInput ? 1 : 0}:a:0`]);
+            subtitles.forEach((subtitle, index) => {
+                mux.input(subtitle.path);
+                if (clip) mux.seekInput(clip.start);
+                mux.outputOptions([
+                    `-map ${nextInput++}:s:0`,
+                    `-metadata:s:s:${index} language=${subtitle.languageCode}`
+                ]);
             });
+            if (subtitles.length > 0) {
+                mux.outputOptions(`-c:s ${container.subtitleCodec}`);
+            }
 
-            // Verify temporary files exist
-            if (!fs.existsSync(tempVideoPath)) throw new Error("Video file not created");
-            if (!fs.existsSync(tempAudioPath)) throw new Error("Audio file not created");
+            // ADTS headers are not allowed in mp4, the filter moves the codec config out of them
+            if (audioCodec === 'copy' && audioFormat.adtsAudio) {
+                mux.outputOptions('-bsf:a', 'aac_adtstoasc');
+            }
 
-            // Combine streams
-            ffmpeg()
-                .input(tempVideoPath)
-                .input(tempAudioPath)
-                .outputOptions('-c:v copy')
-                .outputOptions('-c:a copy')
-                .format('matroska')
-                .stream(outputStream)
+            if (options.embedMetadata !== false) {
+                const metadata = this.buildMetadataArgs(info, options.track);
+                if (metadata.length > 0) mux.outputOptions(...metadata);
+            }
+
+            if (chapterPath) {
+                mux.input(chapterPath).outputOptions('-map_chapters', String(nextInput++));
+            }
+            if (coverPath) {
+                this.applyArtwork(mux, container.artwork, coverPath, nextInput, 1);
+            }
+
+            if (encoding) {
+                applyVideoEncoding(
+                    mux,
+                    muxVideoCodec,
+                    encoding,
+                    videoFormat.fps,
+                    encoding.twoPass ? { number: 2, logFile: passLogFile } : undefined
+                );
+            }
+            if (audioCodec !== 'copy') {
+                if (options.audioBitrate) mux.audioBitrate(options.audioBitrate);
+                if (encoding?.audioChannels) mux.audioChannels(encoding.audioChannels);
+            }
+
+            // Ended once ffmpeg has exited and its output is read, either can come first. Never on the
+            // output alone, so a failed mux does not pass for a shorter file
+            // fluent-ffmpeg takes a closed target for a consumer that went away and kills ffmpeg
+            const muxOutput = new PassThrough({ autoDestroy: false });
+            let pendingEnds = 2;
+            const endOutput = () => {
+                if (--pendingEnds === 0) outputStream.end();
+            };
+            muxOutput.on('end', endOutput);
+            muxOutput.pipe(outputStream, { end: false });
+
+            mux
+                .videoCodec(muxVideoCodec)
+                .audioCodec(audioCodec)
+                .outputOptions(container.outputOptions)
+                .format(container.format)
+                .on('progress', ({ timemark }) => progress.ffmpegProgress(timemark))
                 .on('end', () => {
-                    try {
-                        this.cleanupStreams(videoStream, audioStream, videoDownload, audioDownload);
-                        this.cleanupTempFiles([tempVideoPath, tempAudioPath], tempDir);
-                    } catch (error) {
-                        console.error('Cleanup error after successful processing:', error);
-                    }
+                    signal?.removeEventListener('abort', onAbort);
+                    progress.finish();
+                    endOutput();
+                    cleanup().catch(error => console.error('Cleanup error after successful processing:', error));
                 })
                 .on('error', (error) => {
-                    try {
-                        this.cleanupStreams(videoStream, audioStream, videoDownload, audioDownload);
-                        this.cleanupTempFiles([tempVideoPath, tempAudioPath], tempDir);
-                        outputStream.destroy(new Error(`FFmpeg processing failed: ${error.message}`));
-                    } catch (cleanupError) {
-                        console.error('Cleanup error after processing failure:', cleanupError);
-                        outputStream.destroy(error);
-                    }
+                    signal?.removeEventListener('abort', onAbort);
+                    cleanup().catch(cleanupError => console.error('Cleanup error after processing failure:', cleanupError));
+                    outputStream.destroy(sourceError
+                        ? classifyError(sourceError, 'Download failed')
+                        : classifyError(error, 'FFmpeg processing failed', 'FFMPEG_FAILED'));
                 });
+            mux.pipe(muxOutput, { end: true });
 
             return outputStream;
         } catch (error) {
+            signal?.removeEventListener('abort', onAbort);
+            commands.forEach(command => command.kill('SIGKILL'));
             try {
-                await this.cleanupStreams(videoStream, audioStream, videoDownload, audioDownload);
-                await this.cleanupTempFiles([tempVideoPath, tempAudioPath], tempDir);
+                await cleanup();
             } catch (cleanupError) {
                 console.error('Cleanup error in catch block:', cleanupError);
             }
-            throw new Error(`Download stream creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            if (signal?.aborted) throw new DownloaderError('CANCELLED', "Download cancelled");
+            throw classifyError(sourceError ?? error, 'Download stream creation failed');
+        }
+    }
+
+    /**
+     * Audio-only and video-only downloads need a single source format, so they skip
+     * the temp files and go straight from the provider through one ffmpeg pass to the output.
+     */
+    private static async createSingleTrackStream(
+        provider: MediaSourceProvider,
+        info: MediaInfo,
+        options: DownloadOptions,
+        clip: ClipRange | null,
+        encoding: EncodeSettings | null,
+        onProgress?: (progress: DownloadProgress) => void,
+        control: DownloadControl = {}
+    ): Promise<Readable> {
+        const { signal, onStatus } = control;
+        const audioOnly = options.filter === 'audioonly';
+
+        // Prefer formats carrying only the requested track, fall back to muxed ones
+        const candidates = audioOnly
+            ? info.formats.filter(f => f.hasAudio && !f.hasVideo)
+            : info.formats.filter(f => f.hasVideo && !f.hasAudio);
+        const formats = candidates.length > 0
+            ? candidates
+            : info.formats.filter(f => (audioOnly ? f.hasAudio : f.hasVideo));
+
+        if (formats.length === 0) {
+            throw new DownloaderError('NO_FORMATS', `No ${audioOnly ? 'audio' : 'video'} formats available`);
+        }
+
+        const container = this.containerFor(options);
+        const requestedItag = audioOnly ? options.audioItag : options.videoItag;
+        const quality = audioOnly ? 'highest' : options.quality || 'highest';
+        const format = requestedItag
+            ? this.findFormatByItag(info, requestedItag, audioOnly ? 'audio' : 'video')
+            : chooseFormat(
+                audioOnly ? formats : fitHeight(preferCompatible(formats, container.videoCodecs, 'videoCodec'), encoding?.maxHeight, quality),
+                audioOnly ? 'audio' : 'video',
+                quality
+            );
+
+        // On video-only output a picture stream would pass for the video track, so only attachments work
+        const artwork: ArtworkStyle = audioOnly
+            ? AUDIO_OUTPUTS[options.audioFormat ?? 'mp3'].artwork
+            : (container.artwork === 'attachment' ? 'attachment' : null);
+
+        // Nothing else needs the disk on this path, so the temp dir only holds chapters and cover art
+        const tempDir = await workspaceManager.create();
+        let chapterPath: string | null = null;
+        let coverPath: string | null = null;
+        try {
+            chapterPath = await this.writeChapterFile(info, options, clip, tempDir);
+            if (options.embedThumbnail !== false && artwork) {
+                coverPath = await this.downloadThumbnail(info, tempDir);
+            }
+        } catch (error) {
+            await workspaceManager.release(tempDir);
+            throw error;
+        }
+
+        const outputStream = new PassThrough();
+        const download = provider.openStream(info, format, signal);
+        const stream: SourceStream = audioOnly ? 'audio' : 'video';
+        const progress = new ProgressTracker({
+            streams: { [stream]: Number(format.contentLength) || 0 },
+            duration: clip ? clip.end - clip.start : Number(info.details.duration) || 0,
+            concurrent: true,
+            downloadShare: encoding ? 0.5 : 0.9
+        }, onProgress);
+        download.on('data', (chunk) => progress.addBytes(stream, chunk.length));
+        download.on('end', () => progress.finishStream(stream));
+
+        const command = ffmpeg(download);
+        if (clip) {
+            command.seekInput(clip.start).duration(clip.end - clip.start);
+        }
+
+        if (audioOnly) {
+            const output = AUDIO_OUTPUTS[options.audioFormat ?? 'mp3'];
+            const sourceCodec = format.audioCodec ?? '';
+            const canCopy = output.copyableCodecs.some(codec => sourceCodec.startsWith(codec));
+
+            // Mapping explicitly drops the source's video track while still allowing a cover stream
+            command.outputOptions('-map', '0:a:0');
+            if (canCopy && !options.audioBitrate) {
+                command.audioCodec('copy');
+            } else {
+                command
+                    .audioCodec(output.codec)
+                    .audioBitrate(options.audioBitrate ?? output.defaultBitrate);
+                if (encoding?.audioChannels) command.audioChannels(encoding.audioChannels);
+            }
+            command.outputOptions(output.outputOptions).format(output.format);
+        } else {
+            // The piped source cannot be probed for keyframes up front, so clips are always re-encoded
+            const videoCodec = encoding ? container.videoEncoder : this.resolveCodec(format.videoCodec, 'video', options);
+            if (encoding) applyVideoEncoding(command, videoCodec, encoding, format.fps);
+            command
+                .noAudio()
+                .videoCodec(clip && videoCodec === 'copy' && options.allowTranscode !== false
+                    ? container.videoEncoder
+                    : videoCodec)
+                .outputOptions(container.outputOptions)
+                .format(container.format);
+        }
+
+        if (options.embedMetadata !== false) {
+            const metadata = this.buildMetadataArgs(info, options.track);
+            if (metadata.length > 0) command.outputOptions(...metadata);
+        }
+
+        if (chapterPath) {
+            command.input(chapterPath).outputOptions('-map_chapters', '1');
+        }
+        if (artwork && coverPath) {
+            this.applyArtwork(command, artwork, coverPath, chapterPath ? 2 : 1, 0);
+        }
+
+        const onAbort = () => {
+            command.kill('SIGKILL');
+            this.cleanupStreams(download);
+            workspaceManager.release(tempDir);
+            outputStream.destroy(new DownloaderError('CANCELLED', "Download cancelled"));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        // A consumer that stops reading early gets everything torn down as if it had been cancelled
+        outputStream.once('close', () => {
+            if (outputStream.readableEnded) return;
+            command.kill('SIGKILL');
+            this.cleanupStreams(download);
+            workspaceManager.release(tempDir);
+        });
+
+        command
+            .on('progress', ({ timemark }) => progress.ffmpegProgress(timemark))
+            .on('end', () => {
+                signal?.removeEventListener('abort', onAbort);
+                progress.finish();
+                workspaceManager.release(tempDir);
+            })
+            .on('error', (error) => {
+                signal?.removeEventListener('abort', onAbort);
+                this.cleanupStreams(download);
+                workspaceManager.release(tempDir);
+                outputStream.destroy(classifyError(error, 'FFmpeg processing failed', 'FFMPEG_FAILED'));
+            });
+
+        onStatus?.('downloading');
+        progress.start();
+        command.pipe(outputStream, { end: true });
+
+        return outputStream;
+    }
+
+    /**
+     * Records a live stream into numbered segment files, then joins them into the requested
+     * container once the recording stops: on `control.stop`, after `maxDuration` or when the
+     * broadcast ends. Every segment is a complete file on its own, so a crash loses at most
+     * the one being written, and a later attempt with the same recordingDir carries on
+     * numbering after the segments already there.
+     */
+    private static async createLiveRecording(
+        provider: MediaSourceProvider,
+        info: MediaInfo,
+        options: DownloadOptions,
+        onProgress?: (progress: DownloadProgress) => void,
+        control: DownloadControl = {}
+    ): Promise<Readable> {
+        const { signal, onStatus } = control;
+        const openLiveStream = provider.openLiveStream?.bind(provider);
+        if (!openLiveStream) {
+            throw new DownloaderError('NO_FORMATS', `${provider.name} live streams cannot be recorded`);
         }
+        if (options.startTime !== undefined || options.endTime !== undefined) {
+            throw new DownloaderError('INVALID_OPTIONS', "Live recordings cannot be trimmed, set maxDuration instead");
+        }
+        const maxDuration = options.maxDuration === undefined ? null : parseTimestamp(options.maxDuration);
+        if (options.maxDuration !== undefined && !maxDuration) {
+            throw new DownloaderError('INVALID_OPTIONS', `Invalid maximum duration: ${options.maxDuration}`);
+        }
+
+        const audioOnly = options.filter === 'audioonly';
+        const videoOnly = options.filter === 'videoonly';
+        // Two live sources cannot be kept in sync, so a single format has to carry every track
+        const candidates = info.formats.filter(f => (audioOnly || f.hasVideo) && (videoOnly || f.hasAudio));
+        if (candidates.length === 0) {
+            throw new DownloaderError('NO_FORMATS', "No live format carries the requested tracks");
+        }
+
+        const container = CONTAINER_OUTPUTS[options.container ?? 'mkv'];
+        const requestedItag = audioOnly ? options.audioItag : options.videoItag;
+        const format = requestedItag
+            ? this.findFormatByItag(info, requestedItag, audioOnly ? 'audio' : 'video')
+            : chooseFormat(
+                audioOnly ? candidates : preferCompatible(candidates, container.videoCodecs, 'videoCodec'),
+                audioOnly ? 'audio' : 'video',
+                audioOnly ? 'highest' : options.quality || 'highest'
+            );
+        const maps = [audioOnly ? null : '0:v:0', videoOnly ? null : '0:a:0']
+            .filter((map): map is string => map !== null)
+            .flatMap(map => ['-map', map]);
+
+        const directory = control.recordingDir ?? await workspaceManager.create();
+        await fs.promises.mkdir(directory, { recursive: true });
+        // Only a directory we made ourselves is ours to delete, the caller keeps its segments until it has the file
+        const ownsDirectory = !control.recordingDir;
+        const removeDirectory = () => ownsDirectory ? workspaceManager.release(directory) : Promise.resolve();
+
+        const outputStream = new PassThrough();
+        let activeCommand: ffmpeg.FfmpegCommand | null = null;
+        const onAbort = () => {
+            activeCommand?.kill('SIGKILL');
+            outputStream.destroy(new DownloaderError('CANCELLED', "Download cancelled"));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        const record = async () => {
+            const earlierSegments = (await listSegments(directory)).length;
+            const earlierSeconds = await recordedSeconds(directory);
+            const remaining = maxDuration === null ? null : maxDuration - earlierSeconds;
+            if (remaining !== null && remaining <= 0) return;
+
+            const source = openLiveStream(info, format, {
+                // Going back to the start again would record the earlier segments twice
+                fromStart: options.liveFromStart === true && earlierSegments === 0,
+                signal
+            });
+            const input = new PassThrough();
+            let sourceError: unknown = null;
+            let downloadedBytes = 0;
+
+            const finish = () => {
+                if (input.writableEnded) return;
+                source.unpipe(input);
+                source.destroy();
+                input.end();
+            };
+            control.stop?.addEventListener('abort', finish, { once: true });
+            // A broadcast that drops out ends the recording, what made it to disk is kept
+            source.on('error', (error) => {
+                sourceError = error;
+                finish();
+            });
+            source.on('data', (chunk) => {
+                downloadedBytes += chunk.length;
+            });
+            source.pipe(input);
+
+            const segmentOutput = segmentOutputFor(format.videoCodec);
+            const command = ffmpeg(input)
+                .outputOptions(maps)
+                .outputOptions(
+                    '-c', 'copy',
+                    '-f', 'segment',
+                    '-segment_time', String(SEGMENT_SECONDS),
+                    '-segment_format', segmentOutput.format,
+                    '-segment_start_number', String(earlierSegments),
+                    '-segment_list', path.join(directory, `segments_${earlierSegments}.csv`),
+                    '-segment_list_type', 'csv',
+                    '-reset_timestamps', '1'
+                );
+            if (remaining !== null) command.duration(remaining);
+            activeCommand = command;
+
+            if (onProgress) {
+                command.on('progress', (progress) => {
+                    try {
+                        const recorded = earlierSeconds + (parseTimestamp(progress.timemark) ?? 0);
+                        onProgress({
+                            phase: 'recording',
+                            downloadedBytes,
+                            totalBytes: 0,
+                            percentage: maxDuration ? Math.min((recorded / maxDuration) * 100, 100) : 0,
+                            recordedSeconds: recorded
+                        });
+                    } catch (error) {
+                        console.error('Progress callback error:', error);
+                    }
+                });
+            }
+
+            onStatus?.('recording');
+            try {
+                await new Promise<void>((resolve, reject) => {
+                    command
+                        .save(path.join(directory, `segment_%05d.${segmentOutput.extension}`))
+                        .on('end', () => resolve())
+                        .on('error', (error) => reject(classifyError(error, 'Recording failed', 'FFMPEG_FAILED')));
+                });
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                console.error('Recording stopped early, keeping the segments written so far:', error);
+                sourceError = sourceError ?? error;
+            } finally {
+                control.stop?.removeEventListener('abort', finish);
+                source.destroy();
+            }
+
+            if ((await listSegments(directory)).length === earlierSegments && sourceError) {
+                throw classifyError(sourceError, 'Recording failed');
+            }
+        };
+
+        const join = async () => {
+            const segments = await listSegments(directory);
+            if (segments.length === 0) {
+                throw new DownloaderError('NO_FORMATS', "Nothing was recorded from the live stream");
+            }
+            onStatus?.('muxing');
+
+            const listPath = await writeConcatList(segments, directory);
+            const mux = ffmpeg().input(listPath).inputOptions('-f', 'concat', '-safe', '0');
+            activeCommand = mux;
+            mux.outputOptions(maps);
+
+            const artwork: ArtworkStyle = audioOnly
+                ? AUDIO_OUTPUTS[options.audioFormat ?? 'mp3'].artwork
+                : videoOnly ? (container.artwork === 'attachment' ? 'attachment' : null) : container.artwork;
+            const coverPath = options.embedThumbnail !== false && artwork
+                ? await this.downloadThumbnail(info, directory)
+                : null;
+            if (artwork && coverPath) {
+                this.applyArtwork(mux, artwork, coverPath, 1, audioOnly ? 0 : 1);
+            }
+
+            if (audioOnly) {
+                const output = AUDIO_OUTPUTS[options.audioFormat ?? 'mp3'];
+                const canCopy = output.copyableCodecs.some(codec => (format.audioCodec ?? '').startsWith(codec));
+                if (canCopy && !options.audioBitrate) {
+                    mux.audioCodec('copy');
+                } else {
+                    mux.audioCodec(output.codec).audioBitrate(options.audioBitrate ?? output.defaultBitrate);
+                }
+                mux.outputOptions(output.outputOptions).format(output.format);
+            } else {
+                mux.videoCodec(this.resolveCodec(format.videoCodec, 'video', options));
+                if (videoOnly) {
+                    mux.noAudio();
+                } else {
+                    mux.audioCodec(this.resolveCodec(format.audioCodec, 'audio', options));
+                }
+                mux.outputOptions(container.outputOptions).format(container.format);
+            }
+
+            if (options.embedMetadata !== false) {
+                const metadata = this.buildMetadataArgs(info, options.track);
+                if (metadata.length > 0) mux.outputOptions(...metadata);
+            }
+
+            await new Promise<void>((resolve, reject) => {
+                mux
+                    .on('end', () => resolve())
+                    .on('error', (error) => reject(classifyError(error, 'Joining the recording failed', 'FFMPEG_FAILED')));
+                mux.pipe(outputStream, { end: true });
+            });
+        };
+
+        record()
+            .then(() => {
+                if (signal?.aborted) throw new DownloaderError('CANCELLED', "Download cancelled");
+                return join();
+            })
+            .then(removeDirectory)
+            .catch(async (error) => {
+                await removeDirectory();
+                outputStream.destroy(signal?.aborted
+                    ? new DownloaderError('CANCELLED', "Download cancelled")
+                    : classifyError(error, 'Live recording failed'));
+            })
+            .finally(() => signal?.removeEventListener('abort', onAbort));
+
+        return outputStream;
     }
 }
 
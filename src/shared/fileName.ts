@@ -0,0 +1,26 @@
+// Placeholders a filename template may use, filled in by the server when it names a download
+export const FILENAME_PLACEHOLDERS = ['title', 'author', 'id', 'date', 'index', 'ext'] as const;
+
+export type FileNamePlaceholder = typeof FILENAME_PLACEHOLDERS[number];
+
+// Used by the server when a request brings no template and by the extension until one is set
+export const DEFAULT_FILENAME_TEMPLATE = '{title}.{ext}';
+
+// Placeholders in a template that nothing fills in, e.g. a misspelt {titel}
+export const unknownPlaceholders = (template: string): string[] =>
+    [...template.matchAll(/\{(\w+)\}/g)]
+        .map(match => match[1])
+        .filter(key => !(FILENAME_PLACEHOLDERS as readonly string[]).includes(key));
+
+// The server refuses longer templates
+export const MAX_FILENAME_TEMPLATE_LENGTH = 200;
+
+// Why a template would be refused, null when it is fine
+export const fileNameTemplateError = (template: string): string | null => {
+    if (template.trim() === '') return 'The template is empty';
+    if (template.length > MAX_FILENAME_TEMPLATE_LENGTH) {
+        return `The template is longer than ${MAX_FILENAME_TEMPLATE_LENGTH} characters`;
+    }
+    const unknown = unknownPlaceholders(template);
+    return unknown.length > 0 ? `Unknown placeholder(s): ${unknown.map(key => `{${key}}`).join(', ')}` : null;
+};
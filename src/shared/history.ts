@@ -0,0 +1,48 @@
+import type { HistoryEntry, HistoryStatus } from './types';
+
+export type HistoryMediaType = 'video' | 'audio';
+
+export interface HistoryFilter {
+    // Matched case-insensitively against title, author, file name and video ID
+    search?: string;
+    author?: string;
+    type?: HistoryMediaType;
+    status?: HistoryStatus;
+    videoId?: string;
+    // Inclusive days as YYYY-MM-DD, compared with the UTC date the download finished
+    from?: string;
+    to?: string;
+}
+
+export const historyMediaType = (entry: HistoryEntry): HistoryMediaType =>
+    entry.options.filter === 'audioonly' ? 'audio' : 'video';
+
+/**
+ * Applies a filter to history entries, newest first. The server filters with it
+ * for API clients and the History view filters the full list it already has.
+ */
+export const filterHistory = (entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] => {
+    const search = filter.search?.trim().toLowerCase();
+
+    return entries
+        .filter(entry => {
+            if (filter.videoId && entry.videoId !== filter.videoId) return false;
+            if (filter.status && entry.status !== filter.status) return false;
+            if (filter.author && entry.details.author !== filter.author) return false;
+            if (filter.type && historyMediaType(entry) !== filter.type) return false;
+
+            const day = entry.createdAt.slice(0, 10);
+            if (filter.from && day < filter.from) return false;
+            if (filter.to && day > filter.to) return false;
+
+            if (search) {
+                const haystack = [entry.details.title, entry.details.author, entry.fileName, entry.videoId]
+                    .filter(Boolean)
+                    .join('\n')
+                    .toLowerCase();
+                if (!haystack.includes(search)) return false;
+            }
+            return true;
+        })
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
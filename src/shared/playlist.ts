@@ -0,0 +1,49 @@
+import { parseYouTubeUrl } from './youtubeUrl';
+
+/**
+ * True for URLs that point at a list of videos (playlist, channel or user page)
+ * rather than a single video. A watch URL with a `list` parameter counts as a video.
+ */
+export const isCollectionUrl = (url: string): boolean => {
+    const kind = parseYouTubeUrl(url)?.kind;
+    return kind === 'playlist' || kind === 'channel';
+};
+
+/**
+ * Parses a 1-based selection such as "3-10", "1,4,7-9" or "5-" (5 to the end)
+ * against a playlist of `total` items. Returns the sorted unique indices,
+ * or null when the selection is malformed or selects nothing.
+ */
+export const parseIndexSelection = (selection: string, total: number): number[] | null => {
+    const indices = new Set<number>();
+
+    for (const part of selection.split(',').map(token => token.trim()).filter(Boolean)) {
+        const match = /^(\d*)\s*-\s*(\d*)$/.exec(part) ?? /^(\d+)$/.exec(part);
+        if (!match) return null;
+
+        const isRange = part.includes('-');
+        const start = match[1] ? Number(match[1]) : 1;
+        const end = isRange ? (match[2] ? Number(match[2]) : total) : start;
+        if (start < 1 || end < start) return null;
+
+        for (let index = start; index <= Math.min(end, total); index++) {
+            indices.add(index);
+        }
+    }
+
+    return indices.size > 0 ? [...indices].sort((a, b) => a - b) : null;
+};
+
+// Inverse of parseIndexSelection, collapses consecutive indices into ranges ("1-3,5")
+export const formatIndexSelection = (indices: number[]): string => {
+    const sorted = [...new Set(indices)].sort((a, b) => a - b);
+    const parts: string[] = [];
+
+    for (let i = 0; i < sorted.length; i++) {
+        const start = sorted[i];
+        while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+        parts.push(start === sorted[i] ? `${start}` : `${start}-${sorted[i]}`);
+    }
+
+    return parts.join(',');
+};
@@ -0,0 +1,49 @@
+import { AudioFormat, Container, ExtensionSettings } from './types';
+import { DEFAULT_FILENAME_TEMPLATE, fileNameTemplateError } from './fileName';
+
+export const DEFAULT_SETTINGS: ExtensionSettings = {
+    serverUrl: 'http://localhost:3000',
+    quality: 'highest',
+    container: 'mkv',
+    audioFormat: 'mp3',
+    fileNameTemplate: DEFAULT_FILENAME_TEMPLATE,
+    maxConcurrentDownloads: 2,
+    notifyOnComplete: true,
+    notifyOnFailure: true
+};
+
+export const MAX_CONCURRENT_DOWNLOADS_LIMIT = 10;
+
+const CONTAINERS: Container[] = ['mkv', 'mp4', 'webm'];
+const AUDIO_FORMATS: AudioFormat[] = ['mp3', 'm4a', 'opus'];
+
+const isHttpUrl = (value: string) => {
+    try {
+        return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Fills in defaults and drops anything invalid from stored settings, which may
+ * come from an older version of the extension or another synced browser.
+ */
+export const normalizeSettings = (stored: Partial<Record<keyof ExtensionSettings, unknown>>): ExtensionSettings => {
+    const pick = <K extends keyof ExtensionSettings>(key: K, isValid: (value: unknown) => boolean): ExtensionSettings[K] =>
+        isValid(stored[key]) ? stored[key] as ExtensionSettings[K] : DEFAULT_SETTINGS[key];
+    const isBoolean = (value: unknown) => typeof value === 'boolean';
+
+    return {
+        serverUrl: (pick('serverUrl', value => typeof value === 'string' && isHttpUrl(value))).replace(/\/+$/, ''),
+        quality: pick('quality', value => value === 'highest' || value === 'lowest'),
+        container: pick('container', value => CONTAINERS.includes(value as Container)),
+        audioFormat: pick('audioFormat', value => AUDIO_FORMATS.includes(value as AudioFormat)),
+        fileNameTemplate: pick('fileNameTemplate', value => typeof value === 'string' && fileNameTemplateError(value) === null),
+        maxConcurrentDownloads: pick('maxConcurrentDownloads', value =>
+            Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_CONCURRENT_DOWNLOADS_LIMIT
+        ),
+        notifyOnComplete: pick('notifyOnComplete', isBoolean),
+        notifyOnFailure: pick('notifyOnFailure', isBoolean)
+    };
+};
@@ -0,0 +1,49 @@
+const CLOCK_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/;
+// YouTube's own `t=` style, e.g. 90, 90s, 1m30s or 1h2m3s
+const UNIT_PATTERN = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s)?$/;
+
+/**
+ * Parses seconds (`90`, `90.5`), clock notation (`1:30`, `01:02:03`) or
+ * YouTube's `1h2m3s` form into seconds. Returns null for anything else.
+ */
+export const parseTimestamp = (value: string | number | null | undefined): number | null => {
+    if (value === null || value === undefined) return null;
+
+    if (typeof value === 'number') {
+        return Number.isFinite(value) && value >= 0 ? value : null;
+    }
+
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+
+    if (/^\d+(?:\.\d+)?$/.test(trimmed)) {
+        return Number(trimmed);
+    }
+
+    const clock = CLOCK_PATTERN.exec(trimmed);
+    if (clock) {
+        const [, hours, minutes, seconds] = clock;
+        if (hours !== undefined && Number(minutes) >= 60) return null;
+        if (Number(seconds) >= 60) return null;
+        return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+    }
+
+    const units = UNIT_PATTERN.exec(trimmed);
+    if (units && (units[1] || units[2] || units[3])) {
+        const [, hours, minutes, seconds] = units;
+        return Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0);
+    }
+
+    return null;
+};
+
+// Formats seconds as m:ss or h:mm:ss
+export const formatTimestamp = (totalSeconds: number): string => {
+    const seconds = Math.max(0, Math.floor(totalSeconds));
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const rest = String(seconds % 60).padStart(2, '0');
+    return hours > 0
+        ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}`
+        : `${minutes}:${rest}`;
+};
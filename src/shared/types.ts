@@ -1,11 +1,58 @@
 export interface VideoDetails {
+    videoId: string;
     title: string;
     thumbnail: string;
     duration: string;
     author: string;
+    uploadDate?: string;
+    chapters?: Chapter[];
+    // Set while the stream is on air, or scheduled but not started yet
+    isLive?: boolean;
+    isUpcoming?: boolean;
 }
 
-export type DownloadStatus = 'idle' | 'downloading' | 'completed' | 'error';
+// Times in seconds, endTime is the next chapter's start or the end of the video
+export interface Chapter {
+    title: string;
+    startTime: number;
+    endTime: number;
+}
+
+export type DownloadStatus =
+    | 'idle'
+    | 'queued'
+    | 'downloading'
+    | 'recording'
+    | 'processing'
+    | 'muxing'
+    | 'completed'
+    | 'failed'
+    | 'cancelled';
+
+// Why a request or download failed, the server maps each to an HTTP status and the UI to advice
+export type DownloaderErrorCode =
+    | 'INVALID_URL'
+    | 'INVALID_OPTIONS'
+    | 'VIDEO_UNAVAILABLE'
+    | 'VIDEO_PRIVATE'
+    | 'AGE_RESTRICTED'
+    | 'GEO_BLOCKED'
+    | 'LIVE_NOT_STARTED'
+    | 'NO_FORMATS'
+    | 'RATE_LIMITED'
+    | 'NETWORK_ERROR'
+    | 'INSUFFICIENT_STORAGE'
+    | 'FFMPEG_FAILED'
+    | 'FFMPEG_MISSING'
+    | 'CANCELLED'
+    | 'UNKNOWN';
+
+// Body of every error response from the API
+export interface ErrorResponse {
+    error: string;
+    code?: DownloaderErrorCode;
+    details?: { field: string; message: string }[];
+}
 
 export interface VideoInfoResponse {
     videoDetails: VideoDetails;
@@ -16,13 +63,6 @@ export interface DownloadProgressResponse {
     status: DownloadStatus;
 }
 
-export interface VideoDetails {
-    title: string;
-    thumbnail: string;
-    duration: string;
-    author: string;
-}
-
 export interface VideoFormat {
     itag: number;
     quality: string;
@@ -30,16 +70,216 @@ export interface VideoFormat {
     hasVideo: boolean;
     container: string;
     contentLength: string;
+    videoCodec?: string;
+    audioCodec?: string;
+    audioBitrate?: number;
+    fps?: number;
+}
+
+export type AudioFormat = 'mp3' | 'm4a' | 'opus';
+
+export type Container = 'mp4' | 'webm' | 'mkv';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// Re-encodes for a purpose instead of stream-copying the source: 'compatible-720p' is H.264/AAC
+// mp4 that plays anywhere, 'small' stays under targetSizeMb, 'gif' and 'webm-clip' are silent
+// looping clips, 'podcast' is mono 64 kbps mp3
+export type TranscodePreset = 'compatible-720p' | 'small' | 'gif' | 'webm-clip' | 'podcast';
+
+export interface CaptionTrack {
+    languageCode: string;
+    name: string;
+    isAutoGenerated: boolean;
 }
 
 export interface DownloadOptions {
     quality?: 'highest' | 'lowest' | string;
+    // Explicit formats picked from getVideoFormats, these take precedence over quality
+    videoItag?: number;
+    audioItag?: number;
     filter?: 'audioandvideo' | 'videoonly' | 'audioonly';
+    container?: Container;
+    // Re-encode streams the container cannot hold instead of failing, defaults to true
+    allowTranscode?: boolean;
+    // Only used with filter 'audioonly'
+    audioFormat?: AudioFormat;
+    // kbps, re-encodes the audio
+    audioBitrate?: number;
+    // Sets filter, container and audio format itself, the settings below still apply on top
+    preset?: TranscodePreset;
+    // Preset 'small' only: the size the file has to stay under
+    targetSizeMb?: number;
+    // Re-encode the video to at most this height and frame rate, and at this bitrate in kbps
+    maxHeight?: number;
+    fps?: number;
+    videoBitrate?: number;
+    // Trim to a time range, given in seconds or as hh:mm:ss
+    startTime?: number | string;
+    endTime?: number | string;
+    // Caption languages to embed as soft subtitles, uploaded tracks preferred over auto-generated
+    subtitles?: string[];
+    // Title, author, date, description, source URL and chapter markers as container tags, defaults to true
+    embedMetadata?: boolean;
+    // Highest-resolution thumbnail as cover art where the format supports it, defaults to true
+    embedThumbnail?: boolean;
+    // e.g. "{author} - {title} [{id}].{ext}", placeholders are FILENAME_PLACEHOLDERS in shared/fileName
+    fileNameTemplate?: string;
+    // Live streams only: start at the oldest part the stream still offers instead of the live edge
+    liveFromStart?: boolean;
+    // Live streams only: stop recording after this long, in seconds or as hh:mm:ss
+    maxDuration?: number | string;
+    // Set on the jobs of a chapter split, tags the file as one track of an album named after the video
+    track?: {
+        number: number;
+        total: number;
+        title: string;
+    };
+}
+
+export type ProgressPhase =
+    | 'resolving'
+    | 'downloading-video'
+    | 'downloading-audio'
+    | 'processing'
+    // First pass of a two-pass encode, it only measures the video
+    | 'analyzing'
+    | 'muxing'
+    | 'finalizing'
+    | 'recording';
+
+export interface StreamProgress {
+    downloadedBytes: number;
+    // 0 when the source does not say how large it is
+    totalBytes: number;
 }
 
 export interface DownloadProgress {
+    phase?: ProgressPhase;
+    // Both sources together
     downloadedBytes: number;
     totalBytes: number;
+    // Overall, download and ffmpeg work together, 0-100
     percentage: number;
+    // Per source, a format carrying both tracks only shows up as video
+    video?: StreamProgress;
+    audio?: StreamProgress;
+    // Bytes per second, smoothed over the last few seconds
+    speed?: number;
+    // Seconds left, unset while there is nothing to estimate from
+    eta?: number;
+    // Live recordings only, seconds captured so far
+    recordedSeconds?: number;
 }
 
+export interface DownloadProgressEvent {
+    downloadId: string;
+    status: DownloadStatus;
+    progress?: DownloadProgress;
+    error?: string;
+    errorCode?: DownloaderErrorCode;
+}
+
+export interface DownloadJob {
+    id: string;
+    url: string;
+    options: DownloadOptions;
+    status: DownloadStatus;
+    // Set when the job was enqueued as part of a playlist, channel or chapter split batch
+    batchId?: string;
+    playlistIndex?: number;
+    title?: string;
+    fileName?: string;
+    progress?: DownloadProgress;
+    error?: string;
+    errorCode?: DownloaderErrorCode;
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt?: string;
+    createdAt: string;
+    updatedAt: string;
+    completedAt?: string;
+}
+
+export type HistoryStatus = Extract<DownloadStatus, 'completed' | 'failed' | 'cancelled'>;
+
+// One finished download, kept by the server whether it ran as a job or streamed to the browser
+export interface HistoryEntry {
+    id: string;
+    videoId: string;
+    url: string;
+    details: VideoDetails;
+    // The options as requested, re-downloading sends them again unchanged
+    options: DownloadOptions;
+    // What the options resolved to, e.g. mp4 or mp3
+    format: {
+        extension: string;
+        mimeType: string;
+    };
+    status: HistoryStatus;
+    fileName?: string;
+    // Where the server keeps the file, unset for downloads streamed straight to the browser
+    outputPath?: string;
+    jobId?: string;
+    // Bytes written, unset when the download failed before producing anything
+    size?: number;
+    error?: string;
+    errorCode?: DownloaderErrorCode;
+    createdAt: string;
+}
+
+export interface PlaylistEntry {
+    // 1-based position in the playlist
+    index: number;
+    videoId: string;
+    url: string;
+    title: string;
+    author: string;
+    duration: string | null;
+    thumbnail: string;
+}
+
+export interface PlaylistDetails {
+    id: string;
+    url: string;
+    title: string;
+    author: string;
+    totalItems: number;
+    entries: PlaylistEntry[];
+}
+
+export interface DownloadBatch {
+    id: string;
+    // Playlist batches carry the playlist id, chapter splits the id of the video being split
+    playlistId?: string;
+    videoId?: string;
+    url: string;
+    title: string;
+    options: DownloadOptions;
+    jobIds: string[];
+    createdAt: string;
+}
+
+export interface BatchSummary {
+    batch: DownloadBatch;
+    jobs: DownloadJob[];
+    counts: Partial<Record<DownloadStatus, number>>;
+    total: number;
+    finished: number;
+    percentage: number;
+}
+
+// Extension settings, stored in chrome.storage.sync and shared by the popup, options page and worker
+export interface ExtensionSettings {
+    // Base URL of the download server, e.g. http://localhost:3000
+    serverUrl: string;
+    quality: 'highest' | 'lowest';
+    container: Container;
+    audioFormat: AudioFormat;
+    // Same placeholders as DownloadOptions.fileNameTemplate
+    fileNameTemplate: string;
+    // Jobs the extension hands to the server at once, the rest wait in the worker
+    maxConcurrentDownloads: number;
+    notifyOnComplete: boolean;
+    notifyOnFailure: boolean;
+}
@@ -0,0 +1,184 @@
+import { parseTimestamp } from './time';
+
+export type YouTubeUrlKind = 'video' | 'short' | 'playlist' | 'channel' | 'live';
+
+export interface ParsedYouTubeUrl {
+    kind: YouTubeUrlKind;
+    // Null for playlists, channels and a channel's /live page, which points at whatever is streaming
+    videoId: string | null;
+    // The `list` parameter, also set on a video watched inside a playlist
+    playlistId: string | null;
+    // Channel id, handle (with its @), or /c/ and /user/ name
+    channel: string | null;
+    // Seconds from `t` (or `start` on embeds)
+    startTime: number | null;
+    // 1-based position from the `index` parameter
+    index: number | null;
+    // Equivalent www.youtube.com URL, which every downstream library understands
+    canonicalUrl: string;
+}
+
+const VIDEO_ID_PATTERN = /^[\w-]{11}$/;
+// PL..., UU..., OLAK5uy_..., RD... mixes, and the two-letter LL and WL lists
+const PLAYLIST_ID_PATTERN = /^[\w-]{2,}$/;
+const CHANNEL_ID_PATTERN = /^UC[\w-]{22}$/;
+
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'music.youtube.com'];
+const NOCOOKIE_HOSTS = ['youtube-nocookie.com', 'www.youtube-nocookie.com'];
+const SHORT_LINK_HOSTS = ['youtu.be', 'www.youtu.be'];
+
+// Tabs a channel URL may end with, they all resolve to the same channel
+const CHANNEL_TABS = ['videos', 'streams', 'shorts', 'featured', 'playlists', 'community', 'about'];
+
+export const isVideoId = (value: string): boolean => VIDEO_ID_PATTERN.test(value);
+
+export const videoUrl = (videoId: string): string => `https://www.youtube.com/watch?v=${videoId}`;
+
+export const playlistUrl = (playlistId: string): string => `https://www.youtube.com/playlist?list=${playlistId}`;
+
+const channelUrl = (channel: string) =>
+    channel.startsWith('@') || CHANNEL_ID_PATTERN.test(channel)
+        ? `https://www.youtube.com/${channel.startsWith('@') ? channel : `channel/${channel}`}`
+        : `https://www.youtube.com/c/${channel}`;
+
+const toUrl = (input: string): URL | null => {
+    const trimmed = input.trim();
+    if (!trimmed) return null;
+    try {
+        return new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    } catch {
+        return null;
+    }
+};
+
+const readQuery = (url: URL) => {
+    const hash = new URLSearchParams(url.hash.slice(1));
+    const list = url.searchParams.get('list');
+    const index = Number(url.searchParams.get('index'));
+    return {
+        playlistId: list && PLAYLIST_ID_PATTERN.test(list) ? list : null,
+        startTime: parseTimestamp(url.searchParams.get('t') ?? hash.get('t') ?? url.searchParams.get('start')),
+        index: Number.isInteger(index) && index > 0 ? index : null
+    };
+};
+
+const decodeSegment = (segment: string) => {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+};
+
+// Path segments that identify a channel: /channel/UC..., /c/name, /user/name or /@handle
+const readChannel = (segments: string[]): { channel: string; rest: string[] } | null => {
+    const [first, second, ...rest] = segments;
+    if (first?.startsWith('@') && first.length > 1) {
+        return { channel: decodeSegment(first), rest: segments.slice(1) };
+    }
+    if ((first === 'channel' || first === 'c' || first === 'user') && second) {
+        return { channel: decodeSegment(second), rest };
+    }
+    return null;
+};
+
+const video = (
+    kind: 'video' | 'short' | 'live',
+    videoId: string,
+    query: ReturnType<typeof readQuery>
+): ParsedYouTubeUrl | null => {
+    if (!isVideoId(videoId)) return null;
+    const canonical = new URL(videoUrl(videoId));
+    if (query.playlistId) canonical.searchParams.set('list', query.playlistId);
+    if (query.startTime !== null) canonical.searchParams.set('t', `${Math.floor(query.startTime)}s`);
+    return { kind, videoId, channel: null, ...query, canonicalUrl: canonical.toString() };
+};
+
+const parsePath = (segments: string[], url: URL): ParsedYouTubeUrl | null => {
+    const query = readQuery(url);
+    const [first, second] = segments;
+
+    switch (first) {
+        case 'watch': {
+            const videoId = url.searchParams.get('v');
+            return videoId ? video('video', videoId, query) : null;
+        }
+        case 'shorts':
+            return second ? video('short', second, query) : null;
+        case 'live':
+            return second ? video('live', second, query) : null;
+        case 'embed':
+            // /embed/videoseries?list=... embeds a whole playlist
+            if (second === 'videoseries') break;
+            return second ? video('video', second, query) : null;
+        case 'v':
+        case 'e':
+            return second ? video('video', second, query) : null;
+    }
+
+    if ((first === 'playlist' || first === 'embed') && query.playlistId) {
+        return {
+            kind: 'playlist',
+            videoId: null,
+            channel: null,
+            ...query,
+            canonicalUrl: playlistUrl(query.playlistId)
+        };
+    }
+
+    const channel = readChannel(segments);
+    if (channel) {
+        const [tab, ...extra] = channel.rest;
+        if (extra.length > 0) return null;
+        if (tab === 'live') {
+            return {
+                kind: 'live',
+                videoId: null,
+                channel: channel.channel,
+                ...query,
+                canonicalUrl: `${channelUrl(channel.channel)}/live`
+            };
+        }
+        if (tab !== undefined && !CHANNEL_TABS.includes(tab)) return null;
+        return {
+            kind: 'channel',
+            videoId: null,
+            channel: channel.channel,
+            ...query,
+            canonicalUrl: channelUrl(channel.channel) + (tab ? `/${tab}` : '')
+        };
+    }
+
+    return null;
+};
+
+/**
+ * Parses any of the URL shapes YouTube hands out, on youtube.com, m., music.,
+ * youtu.be and youtube-nocookie.com, with or without a scheme. Returns null for
+ * anything that is not a recognisable YouTube video, playlist or channel URL.
+ */
+export const parseYouTubeUrl = (input: string): ParsedYouTubeUrl | null => {
+    const url = toUrl(input);
+    if (!url || !['http:', 'https:'].includes(url.protocol)) return null;
+
+    const host = url.hostname.toLowerCase();
+    const segments = url.pathname.split('/').filter(Boolean);
+
+    if (SHORT_LINK_HOSTS.includes(host)) {
+        return segments.length === 1 ? video('video', segments[0], readQuery(url)) : null;
+    }
+    if (NOCOOKIE_HOSTS.includes(host)) {
+        return segments[0] === 'embed' ? parsePath(segments, url) : null;
+    }
+    if (YOUTUBE_HOSTS.includes(host)) {
+        return parsePath(segments, url);
+    }
+    return null;
+};
+
+// A video ID from a URL of any shape, or the input itself when it already is one
+export const extractVideoId = (input: string): string | null => {
+    const trimmed = input.trim();
+    if (isVideoId(trimmed)) return trimmed;
+    return parseYouTubeUrl(trimmed)?.videoId ?? null;
+};
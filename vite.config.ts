@@ -4,4 +4,24 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  build: {
+    rollupOptions: {
+      input: {
+        main: 'index.html',
+        options: 'options.html',
+        content: 'src/extension/content.ts',
+        background: 'src/extension/background.ts',
+      },
+      output: {
+        // The manifest points at fixed file names for extension scripts
+        entryFileNames: (chunk) =>
+          ['content', 'background'].includes(chunk.name) ? '[name].js' : 'assets/[name]-[hash].js',
+      },
+    },
+  },
+  server: {
+    proxy: {
+      '/api': 'http://localhost:3000',
+    },
+  },
 })